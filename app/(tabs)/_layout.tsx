@@ -63,6 +63,24 @@ export default function TabLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name="location-preferences"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="accessibility-needs"
+        options={{
+          href: null,
+        }}
+      />
+      <Tabs.Screen
+        name="progress"
+        options={{
+          href: null,
+        }}
+      />
     </Tabs>
   );
 }
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Accessibility, ArrowLeft, Armchair, Footprints, Mountain } from 'lucide-react-native';
+import { Button } from '@/components/Button';
+import { colors } from '@/lib/colors';
+import {
+  EMPTY_ACCESSIBILITY_NEEDS,
+  MOBILITY_AID_LABELS,
+  accessibilityNeedsAPI,
+  formatMeters,
+  type AccessibilityNeeds,
+  type MobilityAid,
+} from '@/lib/accessibility-needs-api';
+
+const WALK_OPTIONS_METERS = [100, 250, 500, 1000, 2000];
+const GRADE_OPTIONS_PERCENT = [5, 8, 12];
+
+/**
+ * Edits the structured accessibility needs. The excursion creator only saves
+ * routes that fit them, on top of keeping limited-mobility plans easy.
+ */
+export default function AccessibilityNeedsScreen() {
+  const [needs, setNeeds] = useState<AccessibilityNeeds>(EMPTY_ACCESSIBILITY_NEEDS);
+  const [loading, setLoading] = useState(true);
+  // Saving after a failed load would wipe the stored needs.
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    accessibilityNeedsAPI.get()
+      .then(stored => {
+        setNeeds(stored);
+        setLoaded(true);
+      })
+      .catch(err => {
+        console.error('Error loading accessibility needs:', err);
+        setError('Could not load your accessibility needs');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (changes: Partial<AccessibilityNeeds>) => {
+    setNeeds(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await accessibilityNeedsAPI.save(needs);
+      router.back();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save your accessibility needs');
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/profile');
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderLimitOptions = (
+    options: number[],
+    selected: number | null,
+    format: (value: number) => string,
+    onSelect: (value: number | null) => void
+  ) => (
+    <View style={styles.chipContainer}>
+      {[...options, null].map(option =>
+        renderChip(String(option ?? 'none'), option === null ? 'No limit' : format(option), selected === option, () =>
+          onSelect(option)
+        )
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Accessibility</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color={colors.primary} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <Text style={styles.intro}>
+            Excursions are only saved when their route fits these needs, so you won&apos;t be sent up steps, rough paths or
+            steep slopes you can&apos;t manage.
+          </Text>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Accessibility size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Mobility aid</Text>
+            </View>
+            <View style={styles.chipContainer}>
+              {renderChip('none', 'None', needs.mobilityAid === null, () => update({ mobilityAid: null }))}
+              {(Object.keys(MOBILITY_AID_LABELS) as MobilityAid[]).map(aid =>
+                renderChip(aid, MOBILITY_AID_LABELS[aid], needs.mobilityAid === aid, () => update({ mobilityAid: aid }))
+              )}
+            </View>
+            {needs.mobilityAid !== null && (
+              <Text style={[styles.value, styles.note]}>
+                {needs.mobilityAid === 'wheelchair'
+                  ? 'Routes will be step-free on paved paths or boardwalks, with slopes of 8% or less unless you pick a limit below.'
+                  : 'Routes will be step-free on paved paths, boardwalks or firm gravel.'}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Footprints size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>How far before you need a rest?</Text>
+            </View>
+            {renderLimitOptions(
+              WALK_OPTIONS_METERS,
+              needs.maxContinuousWalkMeters,
+              formatMeters,
+              maxContinuousWalkMeters => update({ maxContinuousWalkMeters })
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Mountain size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Steepest slope</Text>
+            </View>
+            {renderLimitOptions(
+              GRADE_OPTIONS_PERCENT,
+              needs.maxGradePercent,
+              percent => `${percent}%`,
+              maxGradePercent => update({ maxGradePercent })
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Armchair size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Along the way</Text>
+            </View>
+            <View style={styles.chipContainer}>
+              {renderChip('rest-stops', 'Benches or seating', needs.needsRestStops, () =>
+                update({ needsRestStops: !needs.needsRestStops })
+              )}
+              {renderChip('restrooms', 'Restrooms', needs.needsRestrooms, () =>
+                update({ needsRestrooms: !needs.needsRestrooms })
+              )}
+            </View>
+          </View>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <Button title="Save" onPress={handleSave} loading={saving} disabled={!loaded || saving} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  loader: {
+    marginTop: 48,
+  },
+  content: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  value: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  note: {
+    marginTop: 12,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.primary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  error: {
+    color: colors.error,
+    fontSize: 14,
+    marginBottom: 16,
+  },
+});
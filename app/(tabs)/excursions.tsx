@@ -1,100 +1,129 @@
-import { View, Text, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
-import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useRouter } from 'expo-router';
 import { colors } from '@/lib/colors';
 import { ExcursionCard } from '@/components/ExcursionCard';
-import { supabase } from '@/lib/supabase';
-import { Plus } from 'lucide-react-native';
-
-interface Excursion {
-  id: string;
-  title: string;
-  description: string;
-  duration_minutes: number;
-  location: {
-    address?: string;
-  };
-  difficulty_level: string;
-  created_at: string;
-  completed_at: string | null;
-}
+import { ExcursionFilterBar, countActiveFilters } from '@/components/ExcursionFilterBar';
+import {
+  DEFAULT_EXCURSION_FILTERS,
+  excursionsAPI,
+  formatDuration,
+  getRouteLabels,
+  type Excursion,
+  type ExcursionFilters,
+  type ExcursionSort,
+} from '@/lib/excursions-api';
+import { ChevronRight, Plus, Trees } from 'lucide-react-native';
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function ExcursionsScreen() {
   const router = useRouter();
   const [excursions, setExcursions] = useState<Excursion[]>([]);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState<ExcursionFilters>(DEFAULT_EXCURSION_FILTERS);
+  const [sort, setSort] = useState<ExcursionSort>('newest');
+  const [searchText, setSearchText] = useState('');
+  const [activityOptions, setActivityOptions] = useState<string[]>([]);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Responses to superseded queries (e.g. older search text) are ignored.
+  const queryIdRef = useRef(0);
 
   useEffect(() => {
-    loadExcursions();
     loadFavorites();
+    loadActivityOptions();
   }, []);
 
-  const loadExcursions = async () => {
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(prev => (prev.search === searchText ? prev : { ...prev, search: searchText }));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const loadExcursions = useCallback(async () => {
+    const queryId = ++queryIdRef.current;
+
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error: fetchError } = await supabase
-        .from('excursions')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const page = await excursionsAPI.searchExcursions(filters, sort);
+      if (queryId !== queryIdRef.current) return;
 
-      if (fetchError) throw fetchError;
-
-      setExcursions(data || []);
+      setExcursions(page.excursions);
+      setHasMore(page.hasMore);
     } catch (err) {
+      if (queryId !== queryIdRef.current) return;
       console.error('Error loading excursions:', err);
       setError('Failed to load excursions');
     } finally {
-      setLoading(false);
+      if (queryId === queryIdRef.current) setLoading(false);
     }
-  };
+  }, [filters, sort]);
+
+  useEffect(() => {
+    loadExcursions();
+  }, [loadExcursions]);
+
+  const loadMore = async () => {
+    if (loading || loadingMore || !hasMore) return;
+
+    const queryId = queryIdRef.current;
 
-  const loadFavorites = async () => {
     try {
-      const { data, error: fetchError } = await supabase
-        .from('favorite_excursions')
-        .select('excursion_id');
+      setLoadingMore(true);
 
-      if (fetchError) throw fetchError;
+      const page = await excursionsAPI.searchExcursions(filters, sort, excursions.length);
+      if (queryId !== queryIdRef.current) return;
 
-      setFavorites(new Set(data?.map(f => f.excursion_id) || []));
+      setExcursions(prev => [...prev, ...page.excursions]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more excursions:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const loadFavorites = async () => {
+    try {
+      setFavorites(await excursionsAPI.getFavoriteIds());
     } catch (err) {
       console.error('Error loading favorites:', err);
     }
   };
 
+  const loadActivityOptions = async () => {
+    try {
+      setActivityOptions(await excursionsAPI.getActivityOptions());
+    } catch (err) {
+      console.error('Error loading activities:', err);
+    }
+  };
+
   const toggleFavorite = async (excursionId: string) => {
     const isFavorite = favorites.has(excursionId);
 
     try {
       if (isFavorite) {
-        const { error: deleteError } = await supabase
-          .from('favorite_excursions')
-          .delete()
-          .eq('excursion_id', excursionId);
-
-        if (deleteError) throw deleteError;
+        await excursionsAPI.removeFavorite(excursionId);
 
         setFavorites(prev => {
           const newSet = new Set(prev);
           newSet.delete(excursionId);
           return newSet;
         });
-      } else {
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) return;
-
-        const { error: insertError } = await supabase
-          .from('favorite_excursions')
-          .insert({
-            user_id: user.id,
-            excursion_id: excursionId,
-          });
 
-        if (insertError) throw insertError;
+        if (filters.favoritesOnly) {
+          setExcursions(prev => prev.filter(excursion => excursion.id !== excursionId));
+        }
+      } else {
+        await excursionsAPI.addFavorite(excursionId);
 
         setFavorites(prev => new Set([...prev, excursionId]));
       }
@@ -104,69 +133,107 @@ export default function ExcursionsScreen() {
     }
   };
 
-  const formatDuration = (minutes: number) => {
-    if (minutes < 60) return `${minutes} min`;
-    const hours = Math.floor(minutes / 60);
-    const mins = minutes % 60;
-    return mins > 0 ? `${hours}h ${mins}m` : `${hours} hour${hours > 1 ? 's' : ''}`;
+  const clearFilters = () => {
+    setSearchText('');
+    setFilters(DEFAULT_EXCURSION_FILTERS);
   };
 
   const handleCreateExcursion = () => {
-    router.push('/(tabs)/health-coach');
+    router.push('/excursions/create');
   };
 
-  if (loading) {
-    return (
-      <View style={styles.centerContainer}>
-        <ActivityIndicator size="large" color={colors.primary} />
-      </View>
-    );
-  }
+  const isFiltered = countActiveFilters(filters) > 0 || filters.search.trim() !== '';
 
-  return (
-    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+  const header = (
+    <>
       <View style={styles.header}>
         <Text style={styles.title}>Excursions</Text>
         <Text style={styles.subtitle}>Personalized outdoor experiences near you</Text>
       </View>
 
+      <TouchableOpacity
+        style={styles.placesLink}
+        onPress={() => router.push('/excursions/places')}
+        activeOpacity={0.7}
+      >
+        <Trees size={20} color={colors.primary} />
+        <Text style={styles.placesLinkText}>Browse nature places nearby</Text>
+        <ChevronRight size={18} color={colors.text.secondary} />
+      </TouchableOpacity>
+
+      <ExcursionFilterBar
+        searchText={searchText}
+        onSearchTextChange={setSearchText}
+        filters={filters}
+        onFiltersChange={setFilters}
+        sort={sort}
+        onSortChange={setSort}
+        activityOptions={activityOptions}
+      />
+
       {error && (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>{error}</Text>
         </View>
       )}
+    </>
+  );
 
-      {excursions.length > 0 ? (
-        <View style={styles.excursionsList}>
-          {excursions.map((excursion) => (
-            <ExcursionCard
-              key={excursion.id}
-              title={excursion.title}
-              description={excursion.description || ''}
-              duration={formatDuration(excursion.duration_minutes || 0)}
-              distance={excursion.location?.address || 'Location not set'}
-              difficulty={excursion.difficulty_level || 'Easy'}
-              isFavorite={favorites.has(excursion.id)}
-              onPress={() => {
-                Alert.alert('Excursion Details', 'Detail view coming soon!');
-              }}
-              onFavoriteToggle={() => toggleFavorite(excursion.id)}
-            />
-          ))}
-        </View>
-      ) : (
-        <View style={styles.emptyState}>
-          <Text style={styles.emptyTitle}>No excursions yet</Text>
-          <Text style={styles.emptyText}>
-            Chat with your Health Coach to create personalized outdoor excursions
-          </Text>
-          <TouchableOpacity style={styles.createButton} onPress={handleCreateExcursion}>
-            <Plus size={20} color="#FFFFFF" />
-            <Text style={styles.createButtonText}>Create Excursion</Text>
-          </TouchableOpacity>
-        </View>
+  const emptyState = loading ? (
+    <View style={styles.loadingContainer}>
+      <ActivityIndicator size="large" color={colors.primary} />
+    </View>
+  ) : error ? null : isFiltered ? (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyTitle}>No matching excursions</Text>
+      <Text style={styles.emptyText}>Try a different search or fewer filters</Text>
+      <TouchableOpacity style={styles.createButton} onPress={clearFilters}>
+        <Text style={styles.createButtonText}>Clear Filters</Text>
+      </TouchableOpacity>
+    </View>
+  ) : (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyTitle}>No excursions yet</Text>
+      <Text style={styles.emptyText}>
+        Chat with the excursion planner to create personalized outdoor excursions
+      </Text>
+      <TouchableOpacity style={styles.createButton} onPress={handleCreateExcursion}>
+        <Plus size={20} color="#FFFFFF" />
+        <Text style={styles.createButtonText}>Create Excursion</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <FlatList
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      data={loading ? [] : excursions}
+      keyExtractor={excursion => excursion.id}
+      renderItem={({ item: excursion }) => (
+        <ExcursionCard
+          title={excursion.title}
+          description={excursion.description || ''}
+          duration={formatDuration(excursion.duration_minutes || 0)}
+          {...getRouteLabels(excursion)}
+          difficulty={excursion.difficulty_level || 'Easy'}
+          rating={excursion.rating}
+          warnings={excursion.safety_warnings}
+          isFavorite={favorites.has(excursion.id)}
+          onPress={() => router.push({ pathname: '/excursions/[id]', params: { id: excursion.id } })}
+          onFavoriteToggle={() => toggleFavorite(excursion.id)}
+        />
       )}
-    </ScrollView>
+      extraData={favorites}
+      ListHeaderComponent={header}
+      ListEmptyComponent={emptyState}
+      ListFooterComponent={
+        loadingMore ? <ActivityIndicator style={styles.footerLoader} color={colors.primary} /> : null
+      }
+      onEndReached={loadMore}
+      onEndReachedThreshold={0.5}
+      keyboardShouldPersistTaps="handled"
+    />
   );
 }
 
@@ -179,11 +246,12 @@ const styles = StyleSheet.create({
     paddingHorizontal: 24,
     paddingVertical: 24,
   },
-  centerContainer: {
-    flex: 1,
-    justifyContent: 'center',
+  loadingContainer: {
+    paddingVertical: 48,
     alignItems: 'center',
-    backgroundColor: colors.background,
+  },
+  footerLoader: {
+    paddingVertical: 16,
   },
   header: {
     marginBottom: 24,
@@ -198,6 +266,21 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.text.secondary,
   },
+  placesLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    marginBottom: 16,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+  },
+  placesLinkText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
   errorContainer: {
     padding: 16,
     backgroundColor: '#FEE2E2',
@@ -208,9 +291,6 @@ const styles = StyleSheet.create({
     color: '#DC2626',
     fontSize: 14,
   },
-  excursionsList: {
-    marginBottom: 24,
-  },
   emptyState: {
     padding: 32,
     backgroundColor: colors.surface,
@@ -1,12 +1,90 @@
-import { View, StyleSheet } from 'react-native';
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { History, SquarePen } from 'lucide-react-native';
 import { ChatInterface } from '@/components/ChatInterface';
+import { ConversationHistoryDrawer } from '@/components/ConversationHistoryDrawer';
+import { assistantsAPI } from '@/lib/assistants-api';
 import { colors } from '@/lib/colors';
 
 export default function HealthCoachScreen() {
+  const [conversationId, setConversationId] = useState<string | undefined>();
+  // Bumped whenever the user switches threads so ChatInterface remounts with the new history.
+  const [chatKey, setChatKey] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [historyVisible, setHistoryVisible] = useState(false);
+
+  useEffect(() => {
+    loadLatestConversation();
+  }, []);
+
+  const loadLatestConversation = async () => {
+    try {
+      const conversations = await assistantsAPI.getConversations('health_coach');
+      setConversationId(conversations[0]?.id);
+    } catch (err) {
+      console.error('Error loading latest conversation:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openConversation = (id?: string) => {
+    setConversationId(id);
+    setChatKey(prev => prev + 1);
+    setHistoryVisible(false);
+  };
+
+  const handleDeleted = (id: string) => {
+    if (id === conversationId) {
+      setConversationId(undefined);
+      setChatKey(prev => prev + 1);
+    }
+  };
+
   return (
-    <View style={styles.container}>
-      <ChatInterface assistantType="health_coach" />
-    </View>
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => setHistoryVisible(true)}
+          activeOpacity={0.7}
+        >
+          <History size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Health Coach</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => openConversation(undefined)}
+          activeOpacity={0.7}
+        >
+          <SquarePen size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ChatInterface
+          key={chatKey}
+          assistantType="health_coach"
+          conversationId={conversationId}
+          onConversationCreated={setConversationId}
+        />
+      )}
+
+      <ConversationHistoryDrawer
+        visible={historyVisible}
+        assistantType="health_coach"
+        activeConversationId={conversationId}
+        onClose={() => setHistoryVisible(false)}
+        onSelect={openConversation}
+        onNewChat={() => openConversation(undefined)}
+        onDeleted={handleDeleted}
+      />
+    </SafeAreaView>
   );
 }
 
@@ -15,4 +93,27 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: colors.background,
   },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  headerButton: {
+    padding: 4,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
 });
@@ -1,16 +1,28 @@
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { router } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { colors } from '@/lib/colors';
-import { Leaf, Map, User as UserIcon } from 'lucide-react-native';
+import { BestTimeWidget } from '@/components/BestTimeWidget';
+import { useOutdoorWindows } from '@/hooks/useOutdoorWindows';
+import type { Coordinate } from '@/lib/geo';
+import { parseLocationPreferences } from '@/lib/location-preferences-api';
+import type { OutdoorWindow } from '@/lib/outdoor-windows';
+import { Leaf, Map, TrendingUp } from 'lucide-react-native';
 
 interface UserProfile {
   first_name: string | null;
   last_name: string | null;
   health_goals: string[] | null;
   mobility_level: string | null;
+  preferred_activities: string[] | null;
+  location_preferences: unknown;
+}
+
+function getHomeBase(profile: UserProfile | null): Coordinate | null {
+  const homeBase = parseLocationPreferences(profile?.location_preferences).homeBase;
+  return homeBase ? { lat: homeBase.lat, lng: homeBase.lng } : null;
 }
 
 export default function HomeScreen() {
@@ -27,7 +39,7 @@ export default function HomeScreen() {
 
     const { data, error } = await supabase
       .from('user_profiles')
-      .select('first_name, last_name, health_goals, mobility_level')
+      .select('first_name, last_name, health_goals, mobility_level, preferred_activities, location_preferences')
       .eq('id', user.id)
       .maybeSingle();
 
@@ -38,6 +50,22 @@ export default function HomeScreen() {
   };
 
   const hasCompletedProfile = profile?.first_name && profile?.mobility_level;
+  const homeBase = useMemo(() => getHomeBase(profile), [profile]);
+  const outdoorWindows = useOutdoorWindows(profile?.preferred_activities ?? [], homeBase, !!hasCompletedProfile);
+
+  const planForWindow = (window: OutdoorWindow) => {
+    router.push({
+      pathname: '/excursions/create',
+      params: {
+        windowStart: window.start,
+        windowEnd: window.end,
+        ...(outdoorWindows.location && {
+          lat: String(outdoorWindows.location.lat),
+          lng: String(outdoorWindows.location.lng),
+        }),
+      },
+    });
+  };
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -70,6 +98,16 @@ export default function HomeScreen() {
         </View>
       ) : (
         <>
+          <BestTimeWidget
+            windows={outdoorWindows.windows}
+            loading={outdoorWindows.loading}
+            error={outdoorWindows.error}
+            needsLocation={outdoorWindows.needsLocation}
+            onSelect={planForWindow}
+            onRequestLocation={outdoorWindows.requestLocation}
+            onRetry={outdoorWindows.reload}
+          />
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Quick Actions</Text>
             <View style={styles.actionGrid}>
@@ -84,10 +122,10 @@ export default function HomeScreen() {
 
               <TouchableOpacity
                 style={styles.actionCard}
-                onPress={() => router.push('/(tabs)/profile')}
+                onPress={() => router.push('/(tabs)/progress')}
               >
-                <UserIcon size={32} color={colors.primary} />
-                <Text style={styles.actionTitle}>My Profile</Text>
+                <TrendingUp size={32} color={colors.primary} />
+                <Text style={styles.actionTitle}>My Progress</Text>
                 <Text style={styles.actionSubtitle}>View your progress</Text>
               </TouchableOpacity>
             </View>
@@ -0,0 +1,393 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Bookmark, Home, LocateFixed, MapPin, Plus, Trash2 } from 'lucide-react-native';
+import { Button } from '@/components/Button';
+import { PlaceForm } from '@/components/PlaceForm';
+import { useDeviceLocation } from '@/hooks/useDeviceLocation';
+import { colors } from '@/lib/colors';
+import {
+  EMPTY_LOCATION_PREFERENCES,
+  MAX_SAVED_PLACES,
+  locationPreferencesAPI,
+  type LocationPreferences,
+  type SavedPlace,
+} from '@/lib/location-preferences-api';
+
+const DISTANCE_OPTIONS_KM = [5, 10, 25, 50];
+const TIME_OPTIONS_MINUTES = [15, 30, 60, 90];
+
+/** Which place form is open: the home base, a new saved place, or an existing one by index. */
+type Editing = { kind: 'home' } | { kind: 'new' } | { kind: 'saved'; index: number } | null;
+
+function describePermission(permission: ReturnType<typeof useDeviceLocation>['permission']): string {
+  switch (permission) {
+    case 'granted':
+      return 'Location access is on. New excursion plans start from where you are.';
+    case 'blocked':
+      return 'Location access is off. Turn it on in Settings to plan from where you are.';
+    case 'denied':
+      return 'Location access was declined. Plans start from your home base instead.';
+    default:
+      return 'Share your location to plan excursions from where you are.';
+  }
+}
+
+export default function LocationPreferencesScreen() {
+  const device = useDeviceLocation();
+  const [preferences, setPreferences] = useState<LocationPreferences>(EMPTY_LOCATION_PREFERENCES);
+  const [editing, setEditing] = useState<Editing>(null);
+  const [loading, setLoading] = useState(true);
+  // Saving after a failed load would wipe the stored places.
+  const [loaded, setLoaded] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    locationPreferencesAPI.get()
+      .then(stored => {
+        setPreferences(stored);
+        setLoaded(true);
+      })
+      .catch(err => {
+        console.error('Error loading location preferences:', err);
+        setError('Could not load your places');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (changes: Partial<LocationPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }));
+  };
+
+  const submitPlace = (place: SavedPlace) => {
+    if (editing?.kind === 'home') {
+      update({ homeBase: place });
+    } else if (editing?.kind === 'new') {
+      update({ savedPlaces: [...preferences.savedPlaces, place] });
+    } else if (editing?.kind === 'saved') {
+      update({ savedPlaces: preferences.savedPlaces.map((saved, i) => (i === editing.index ? place : saved)) });
+    }
+    setEditing(null);
+  };
+
+  const removeSavedPlace = (index: number) => {
+    update({ savedPlaces: preferences.savedPlaces.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await locationPreferencesAPI.save(preferences);
+      router.back();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save your places');
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/profile');
+    }
+  };
+
+  const renderPlace = (place: SavedPlace, onEdit: () => void, onRemove: () => void) => (
+    <View style={styles.place}>
+      <TouchableOpacity style={styles.placeBody} onPress={onEdit} activeOpacity={0.7}>
+        <Text style={styles.placeName}>{place.name}</Text>
+        <Text style={styles.value} numberOfLines={1}>
+          {place.address ?? `${place.lat.toFixed(4)}, ${place.lng.toFixed(4)}`}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.iconButton} onPress={onRemove} activeOpacity={0.7}>
+        <Trash2 size={18} color={colors.text.secondary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderLimitOptions = (
+    options: number[],
+    selected: number | null,
+    format: (value: number) => string,
+    onSelect: (value: number | null) => void
+  ) => (
+    <View style={styles.chipContainer}>
+      {[...options, null].map(option => (
+        <TouchableOpacity
+          key={option ?? 'none'}
+          style={[styles.chip, selected === option && styles.chipSelected]}
+          onPress={() => onSelect(option)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.chipText, selected === option && styles.chipTextSelected]}>
+            {option === null ? 'No limit' : format(option)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Your Places</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} size="large" color={colors.primary} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <LocateFixed size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Current location</Text>
+            </View>
+            <Text style={styles.value}>{describePermission(device.permission)}</Text>
+            {device.permission !== 'granted' && device.permission !== null && (
+              <TouchableOpacity style={styles.link} onPress={device.requestLocation} activeOpacity={0.7}>
+                <Text style={styles.linkText}>
+                  {device.permission === 'blocked' ? 'Open Settings' : 'Use my current location'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Home size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Home base</Text>
+            </View>
+            {editing?.kind === 'home' ? (
+              <PlaceForm
+                initialPlace={preferences.homeBase}
+                defaultName="Home"
+                submitLabel="Set home base"
+                onSubmit={submitPlace}
+                onCancel={() => setEditing(null)}
+                onRequestLocation={device.requestLocation}
+              />
+            ) : preferences.homeBase ? (
+              renderPlace(preferences.homeBase, () => setEditing({ kind: 'home' }), () => update({ homeBase: null }))
+            ) : (
+              <>
+                <Text style={styles.value}>
+                  Where excursions are planned from when your current location is not shared.
+                </Text>
+                <TouchableOpacity style={styles.link} onPress={() => setEditing({ kind: 'home' })} activeOpacity={0.7}>
+                  <Text style={styles.linkText}>Set home base</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Bookmark size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>Saved places</Text>
+            </View>
+            {preferences.savedPlaces.length === 0 && editing?.kind !== 'new' && (
+              <Text style={styles.value}>Work, a favourite park, somewhere you visit often.</Text>
+            )}
+            {preferences.savedPlaces.map((place, index) =>
+              editing?.kind === 'saved' && editing.index === index ? (
+                <PlaceForm
+                  key={`${place.name}-${index}`}
+                  initialPlace={place}
+                  defaultName="Saved place"
+                  submitLabel="Update place"
+                  onSubmit={submitPlace}
+                  onCancel={() => setEditing(null)}
+                  onRequestLocation={device.requestLocation}
+                />
+              ) : (
+                <View key={`${place.name}-${index}`}>
+                  {renderPlace(place, () => setEditing({ kind: 'saved', index }), () => removeSavedPlace(index))}
+                </View>
+              )
+            )}
+            {editing?.kind === 'new' ? (
+              <PlaceForm
+                defaultName="Saved place"
+                submitLabel="Add place"
+                onSubmit={submitPlace}
+                onCancel={() => setEditing(null)}
+                onRequestLocation={device.requestLocation}
+              />
+            ) : preferences.savedPlaces.length < MAX_SAVED_PLACES && (
+              <TouchableOpacity style={styles.addButton} onPress={() => setEditing({ kind: 'new' })} activeOpacity={0.7}>
+                <Plus size={16} color={colors.primary} />
+                <Text style={styles.linkText}>Add a place</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <MapPin size={18} color={colors.primary} />
+              <Text style={styles.sectionTitle}>How far will you travel?</Text>
+            </View>
+            <Text style={styles.label}>Distance to the start</Text>
+            {renderLimitOptions(
+              DISTANCE_OPTIONS_KM,
+              preferences.maxTravelDistanceKm,
+              km => `${km} km`,
+              maxTravelDistanceKm => update({ maxTravelDistanceKm })
+            )}
+            <Text style={[styles.label, styles.labelSpaced]}>Travel time</Text>
+            {renderLimitOptions(
+              TIME_OPTIONS_MINUTES,
+              preferences.maxTravelMinutes,
+              minutes => `${minutes} min`,
+              maxTravelMinutes => update({ maxTravelMinutes })
+            )}
+          </View>
+
+          {error && <Text style={styles.error}>{error}</Text>}
+
+          <Button title="Save" onPress={handleSave} loading={saving} disabled={!loaded || saving || editing !== null} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  loader: {
+    marginTop: 48,
+  },
+  content: {
+    padding: 24,
+    paddingBottom: 48,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  value: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  link: {
+    marginTop: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  place: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+  },
+  placeBody: {
+    flex: 1,
+  },
+  placeName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 2,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  labelSpaced: {
+    marginTop: 16,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.primary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  error: {
+    color: colors.error,
+    fontSize: 14,
+    marginBottom: 16,
+  },
+});
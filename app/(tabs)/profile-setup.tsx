@@ -21,6 +21,13 @@ const MOBILITY_LEVELS = [
   { value: 'limited', label: 'Limited - I need accessible routes' },
 ];
 
+const ENVIRONMENTAL_SENSITIVITIES = [
+  { value: 'respiratory', label: 'Air quality (asthma, COPD)' },
+  { value: 'heat', label: 'Heat' },
+  { value: 'pollen', label: 'Pollen allergies' },
+  { value: 'sun', label: 'Strong sun (UV)' },
+];
+
 const PREFERRED_ACTIVITIES = [
   'Walking',
   'Hiking',
@@ -36,6 +43,7 @@ export default function ProfileSetupScreen() {
   const [lastName, setLastName] = useState('');
   const [healthGoals, setHealthGoals] = useState<string[]>([]);
   const [mobilityLevel, setMobilityLevel] = useState('');
+  const [sensitivities, setSensitivities] = useState<string[]>([]);
   const [preferredActivities, setPreferredActivities] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
@@ -46,6 +54,12 @@ export default function ProfileSetupScreen() {
     );
   };
 
+  const toggleSensitivity = (sensitivity: string) => {
+    setSensitivities(prev =>
+      prev.includes(sensitivity) ? prev.filter(s => s !== sensitivity) : [...prev, sensitivity]
+    );
+  };
+
   const toggleActivity = (activity: string) => {
     setPreferredActivities(prev =>
       prev.includes(activity) ? prev.filter(a => a !== activity) : [...prev, activity]
@@ -79,6 +93,7 @@ export default function ProfileSetupScreen() {
         last_name: lastName || null,
         health_goals: healthGoals.length > 0 ? healthGoals : null,
         mobility_level: mobilityLevel,
+        environmental_sensitivities: sensitivities,
         preferred_activities: preferredActivities.length > 0 ? preferredActivities : null,
       })
       .eq('id', user.id);
@@ -148,6 +163,30 @@ export default function ProfileSetupScreen() {
             <Text style={styles.radioLabel}>{level.label}</Text>
           </TouchableOpacity>
         ))}
+        {mobilityLevel === 'limited' && (
+          <Text style={styles.hint}>
+            Limited mobility keeps excursions to easy routes. Add your mobility aid, how far you can go between rests
+            and the steepest slope you manage under Accessibility on your profile.
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Sensitivities</Text>
+        <Text style={styles.sectionSubtitle}>We&apos;ll plan around these conditions and warn you about them</Text>
+        <View style={styles.chipContainer}>
+          {ENVIRONMENTAL_SENSITIVITIES.map(sensitivity => (
+            <TouchableOpacity
+              key={sensitivity.value}
+              style={[styles.chip, sensitivities.includes(sensitivity.value) && styles.chipSelected]}
+              onPress={() => toggleSensitivity(sensitivity.value)}
+            >
+              <Text style={[styles.chipText, sensitivities.includes(sensitivity.value) && styles.chipTextSelected]}>
+                {sensitivity.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
       </View>
 
       <View style={styles.section}>
@@ -279,6 +318,12 @@ const styles = StyleSheet.create({
     color: '#333333',
     flex: 1,
   },
+  hint: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    marginTop: 4,
+  },
   error: {
     color: '#DC2626',
     fontSize: 14,
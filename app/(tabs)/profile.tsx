@@ -1,35 +1,59 @@
 import { View, Text, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity } from 'react-native';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/Button';
-import { router } from 'expo-router';
+import { WellbeingTrendChart } from '@/components/WellbeingTrendChart';
+import { router, useFocusEffect } from 'expo-router';
 import { supabase } from '@/lib/supabase';
 import { colors } from '@/lib/colors';
-import { User, Mail, Activity, Target, Edit } from 'lucide-react-native';
+import { METRICS, averageChange, formatChange, isImprovement, pairCheckIns } from '@/lib/wellbeing';
+import { wellbeingAPI, type WellbeingCheckIn } from '@/lib/wellbeing-api';
+import { parseLocationPreferences, type LocationPreferences } from '@/lib/location-preferences-api';
+import { describeAccessibilityNeeds, parseAccessibilityNeeds } from '@/lib/accessibility-needs-api';
+import { User, Mail, Activity, Target, Edit, TrendingUp, ShieldAlert, MapPin, Accessibility } from 'lucide-react-native';
 
 interface UserProfile {
   first_name: string | null;
   last_name: string | null;
   health_goals: string[] | null;
   mobility_level: string | null;
+  environmental_sensitivities: string[];
   preferred_activities: string[] | null;
+  location_preferences: unknown;
+  accessibility_needs: unknown;
 }
 
 export default function ProfileScreen() {
   const { user, signOut } = useAuth();
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [checkIns, setCheckIns] = useState<WellbeingCheckIn[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    loadProfile();
+    loadCheckIns();
   }, [user]);
 
+  // Tabs stay mounted, so pick up changes made on the profile, places and accessibility editors.
+  useFocusEffect(
+    useCallback(() => {
+      loadProfile();
+    }, [user])
+  );
+
+  const checkInPairs = useMemo(() => pairCheckIns(checkIns), [checkIns]);
+  const averages = useMemo(() => averageChange(checkInPairs), [checkInPairs]);
+  const places = useMemo(() => parseLocationPreferences(profile?.location_preferences), [profile]);
+  const accessibility = useMemo(
+    () => describeAccessibilityNeeds(parseAccessibilityNeeds(profile?.accessibility_needs)),
+    [profile]
+  );
+
   const loadProfile = async () => {
     if (!user) return;
 
     const { data } = await supabase
       .from('user_profiles')
-      .select('first_name, last_name, health_goals, mobility_level, preferred_activities')
+      .select('first_name, last_name, health_goals, mobility_level, environmental_sensitivities, preferred_activities, location_preferences, accessibility_needs')
       .eq('id', user.id)
       .maybeSingle();
 
@@ -39,6 +63,16 @@ export default function ProfileScreen() {
     setLoading(false);
   };
 
+  const loadCheckIns = async () => {
+    if (!user) return;
+
+    try {
+      setCheckIns(await wellbeingAPI.getRecentCheckIns());
+    } catch (err) {
+      console.error('Error loading check-ins:', err);
+    }
+  };
+
   const handleSignOut = async () => {
     await signOut();
     router.replace('/(auth)/login');
@@ -101,6 +135,22 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      {profile && profile.environmental_sensitivities.length > 0 && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ShieldAlert size={20} color={colors.primary} />
+            <Text style={styles.sectionTitle}>Sensitivities</Text>
+          </View>
+          <View style={styles.chipContainer}>
+            {profile.environmental_sensitivities.map(sensitivity => (
+              <View key={sensitivity} style={[styles.chip, styles.chipSecondary]}>
+                <Text style={[styles.chipText, styles.chipTextSecondary]}>{formatSensitivity(sensitivity)}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
       {profile?.preferred_activities && profile.preferred_activities.length > 0 && (
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -117,6 +167,75 @@ export default function ProfileScreen() {
         </View>
       )}
 
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <MapPin size={20} color={colors.primary} />
+          <Text style={styles.sectionTitle}>Places</Text>
+          <TouchableOpacity
+            style={styles.sectionAction}
+            onPress={() => router.push('/(tabs)/location-preferences')}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.sectionActionText}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        {describePlaces(places).map(line => (
+          <Text key={line} style={styles.value}>{line}</Text>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Accessibility size={20} color={colors.primary} />
+          <Text style={styles.sectionTitle}>Accessibility</Text>
+          <TouchableOpacity
+            style={styles.sectionAction}
+            onPress={() => router.push('/(tabs)/accessibility-needs')}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.sectionActionText}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.value}>
+          {accessibility ?? 'No accessibility needs set. Excursions may include steps, rough paths and steep grades.'}
+        </Text>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <TrendingUp size={20} color={colors.primary} />
+          <Text style={styles.sectionTitle}>Wellbeing Trend</Text>
+        </View>
+        {averages ? (
+          <>
+            <Text style={styles.value}>
+              Average change after an excursion, across your last {checkInPairs.length}{' '}
+              {checkInPairs.length === 1 ? 'check-in' : 'check-ins'}:
+            </Text>
+            <View style={styles.averages}>
+              {METRICS.map(metric => (
+                <View key={metric.key} style={styles.average}>
+                  <Text
+                    style={[
+                      styles.averageValue,
+                      isImprovement(metric, averages[metric.key]) && styles.averageImproved,
+                    ]}
+                  >
+                    {formatChange(averages[metric.key])}
+                  </Text>
+                  <Text style={styles.averageLabel}>{metric.label}</Text>
+                </View>
+              ))}
+            </View>
+            {checkInPairs.length > 1 && <WellbeingTrendChart pairs={checkInPairs} />}
+          </>
+        ) : (
+          <Text style={styles.value}>
+            Check in before and after an excursion to see how time in nature changes your mood, stress and energy.
+          </Text>
+        )}
+      </View>
+
       <View style={styles.spacer} />
 
       <Button
@@ -128,6 +247,31 @@ export default function ProfileScreen() {
   );
 }
 
+function describePlaces(places: LocationPreferences): string[] {
+  const limits = [
+    places.maxTravelDistanceKm !== null ? `${places.maxTravelDistanceKm} km` : null,
+    places.maxTravelMinutes !== null ? `${places.maxTravelMinutes} min` : null,
+  ].filter(Boolean);
+
+  return [
+    places.homeBase ? `Home base: ${places.homeBase.name}` : 'No home base set',
+    ...(places.savedPlaces.length > 0
+      ? [`Saved: ${places.savedPlaces.map(place => place.name).join(', ')}`]
+      : []),
+    ...(limits.length > 0 ? [`Travel up to ${limits.join(' or ')}`] : []),
+  ];
+}
+
+function formatSensitivity(sensitivity: string): string {
+  const sensitivities: { [key: string]: string } = {
+    respiratory: 'Air quality',
+    heat: 'Heat',
+    pollen: 'Pollen',
+    sun: 'Strong sun (UV)',
+  };
+  return sensitivities[sensitivity] || sensitivity;
+}
+
 function formatMobilityLevel(level: string): string {
   const levels: { [key: string]: string } = {
     high: 'High - I can walk long distances',
@@ -218,6 +362,15 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.text.primary,
   },
+  sectionAction: {
+    marginLeft: 'auto',
+    padding: 4,
+  },
+  sectionActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
   value: {
     fontSize: 14,
     color: colors.text.secondary,
@@ -247,6 +400,26 @@ const styles = StyleSheet.create({
   chipTextSecondary: {
     color: colors.text.primary,
   },
+  averages: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginVertical: 16,
+  },
+  average: {
+    alignItems: 'center',
+  },
+  averageValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  averageImproved: {
+    color: colors.success,
+  },
+  averageLabel: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
   spacer: {
     height: 24,
   },
@@ -0,0 +1,353 @@
+import { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useFocusEffect } from 'expo-router';
+import { Activity, ArrowLeft, BarChart3, Flame, Target } from 'lucide-react-native';
+import { WeeklyMinutesChart } from '@/components/WeeklyMinutesChart';
+import { formatDuration } from '@/lib/excursions-api';
+import {
+  getCurrentWeek,
+  progressAPI,
+  WEEKLY_GOAL_OPTIONS,
+  type NatureTimeProgress,
+} from '@/lib/progress-api';
+import { colors } from '@/lib/colors';
+
+export default function ProgressScreen() {
+  const [progress, setProgress] = useState<NatureTimeProgress | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingGoal, setSavingGoal] = useState(false);
+
+  // Tabs stay mounted, so refresh whenever the screen comes back into view.
+  useFocusEffect(
+    useCallback(() => {
+      loadProgress();
+    }, [])
+  );
+
+  const loadProgress = async () => {
+    try {
+      setError(null);
+      setProgress(await progressAPI.getProgress());
+    } catch (err) {
+      console.error('Error loading progress:', err);
+      setError('Failed to load your progress');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeGoal = async (minutes: number) => {
+    if (!progress || minutes === progress.weekly_goal_minutes) return;
+
+    try {
+      setSavingGoal(true);
+      await progressAPI.setWeeklyGoal(minutes);
+      setProgress(await progressAPI.getProgress());
+    } catch (err) {
+      console.error('Error updating goal:', err);
+      Alert.alert('Error', 'Failed to update your weekly goal');
+    } finally {
+      setSavingGoal(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>My Progress</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : error || !progress ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error ?? 'Failed to load your progress'}</Text>
+        </View>
+      ) : (
+        <ProgressDashboard progress={progress} savingGoal={savingGoal} onChangeGoal={changeGoal} />
+      )}
+    </SafeAreaView>
+  );
+}
+
+function ProgressDashboard({
+  progress,
+  savingGoal,
+  onChangeGoal,
+}: {
+  progress: NatureTimeProgress;
+  savingGoal: boolean;
+  onChangeGoal: (minutes: number) => void;
+}) {
+  const goal = progress.weekly_goal_minutes;
+  const thisWeek = getCurrentWeek(progress);
+  const fraction = Math.min(thisWeek.minutes / goal, 1);
+  const remaining = goal - thisWeek.minutes;
+  const topActivityMinutes = progress.activities[0]?.minutes ?? 0;
+
+  return (
+    <ScrollView contentContainerStyle={styles.content}>
+      <View style={styles.section}>
+        <Text style={styles.weekLabel}>This week</Text>
+        <Text style={styles.weekMinutes}>
+          {thisWeek.minutes} <Text style={styles.weekGoal}>of {goal} min</Text>
+        </Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${fraction * 100}%` }]} />
+        </View>
+        <Text style={styles.value}>
+          {remaining > 0
+            ? `${formatDuration(remaining)} to go to reach your goal.`
+            : 'Goal reached. Every extra minute outside still counts!'}
+        </Text>
+
+        <View style={styles.streaks}>
+          <View style={styles.streak}>
+            <Flame size={20} color={colors.warning} />
+            <Text style={styles.streakValue}>{progress.current_streak_weeks}</Text>
+            <Text style={styles.streakLabel}>Week streak</Text>
+          </View>
+          <View style={styles.streak}>
+            <Target size={20} color={colors.primary} />
+            <Text style={styles.streakValue}>{progress.longest_streak_weeks}</Text>
+            <Text style={styles.streakLabel}>Longest streak</Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Target size={18} color={colors.primary} />
+          <Text style={styles.sectionTitle}>Weekly Goal</Text>
+        </View>
+        <View style={styles.chipContainer}>
+          {WEEKLY_GOAL_OPTIONS.map(minutes => (
+            <TouchableOpacity
+              key={minutes}
+              style={[styles.chip, minutes === goal && styles.chipSelected]}
+              onPress={() => onChangeGoal(minutes)}
+              disabled={savingGoal}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.chipText, minutes === goal && styles.chipTextSelected]}>
+                {formatDuration(minutes)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <BarChart3 size={18} color={colors.primary} />
+          <Text style={styles.sectionTitle}>Last {progress.weeks.length} Weeks</Text>
+        </View>
+        <WeeklyMinutesChart weeks={progress.weeks} goalMinutes={goal} />
+        <Text style={[styles.value, styles.summaryText]}>
+          {progress.total_excursions > 0
+            ? `${formatDuration(progress.total_minutes)} outside across ${progress.total_excursions} ` +
+              `${progress.total_excursions === 1 ? 'excursion' : 'excursions'}.`
+            : 'Complete an excursion to start filling in your history.'}
+        </Text>
+      </View>
+
+      {progress.activities.length > 0 && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Activity size={18} color={colors.primary} />
+            <Text style={styles.sectionTitle}>By Activity</Text>
+          </View>
+          {progress.activities.map(activity => (
+            <View key={activity.activity} style={styles.activityRow}>
+              <View style={styles.activityHeader}>
+                <Text style={styles.activityName}>{activity.activity}</Text>
+                <Text style={styles.value}>{formatDuration(activity.minutes)}</Text>
+              </View>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[styles.progressFill, { width: `${(activity.minutes / topActivityMinutes) * 100}%` }]}
+                />
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 24,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  weekLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textTransform: 'uppercase',
+  },
+  weekMinutes: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: colors.text.primary,
+    marginVertical: 4,
+  },
+  weekGoal: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  progressTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: colors.border.light,
+    overflow: 'hidden',
+    marginVertical: 8,
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 5,
+    backgroundColor: colors.primary,
+  },
+  value: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  summaryText: {
+    marginTop: 12,
+  },
+  streaks: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+  streak: {
+    alignItems: 'center',
+    gap: 2,
+  },
+  streakValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  streakLabel: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  activityRow: {
+    marginBottom: 4,
+  },
+  activityHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  activityName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,281 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Check } from 'lucide-react-native';
+import { Button } from '@/components/Button';
+import { Input } from '@/components/Input';
+import { StarRating } from '@/components/StarRating';
+import { excursionsAPI, type Excursion } from '@/lib/excursions-api';
+import { colors } from '@/lib/colors';
+
+const RATING_LABELS = ['', 'Not for me', 'It was okay', 'Good', 'Really enjoyed it', 'Loved it'];
+
+export default function CompleteExcursionScreen() {
+  const { id, completedAt } = useLocalSearchParams<{ id: string; completedAt?: string }>();
+  const [excursion, setExcursion] = useState<Excursion | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [reflection, setReflection] = useState('');
+  const [completedActivities, setCompletedActivities] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadExcursion(id);
+    }
+  }, [id]);
+
+  const loadExcursion = async (excursionId: string) => {
+    try {
+      setLoading(true);
+      const data = await excursionsAPI.getExcursion(excursionId);
+
+      if (!data) {
+        setError('Excursion not found');
+        return;
+      }
+
+      // Editing an earlier completion starts from what was saved; a first
+      // completion assumes every planned activity was done.
+      setExcursion(data);
+      setRating(data.rating);
+      setReflection(data.reflection ?? '');
+      setCompletedActivities(data.completed_activities ?? data.activities ?? []);
+    } catch (err) {
+      console.error('Error loading excursion:', err);
+      setError('Failed to load excursion');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleActivity = (activity: string) => {
+    setCompletedActivities(prev =>
+      prev.includes(activity) ? prev.filter(a => a !== activity) : [...prev, activity]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!excursion) return;
+
+    try {
+      setSaving(true);
+      await excursionsAPI.completeExcursion(excursion.id, {
+        completedAt: completedAt ?? excursion.completed_at ?? undefined,
+        rating,
+        reflection,
+        completedActivities,
+      });
+      router.replace({ pathname: '/excursions/[id]', params: { id: excursion.id } });
+    } catch (err) {
+      console.error('Error completing excursion:', err);
+      Alert.alert('Error', 'Failed to save your reflection');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else if (id) {
+      router.replace({ pathname: '/excursions/[id]', params: { id } });
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !excursion) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <Text style={styles.errorText}>{error ?? 'Excursion not found'}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const plannedActivities = excursion.activities ?? [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {excursion.completed_at ? 'Edit reflection' : 'Mark as done'}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+          <Text style={styles.title}>{excursion.title}</Text>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>How was it?</Text>
+            <StarRating rating={rating} onChange={setRating} size={32} />
+            <Text style={styles.sectionSubtitle}>
+              {rating ? RATING_LABELS[rating] : 'Tap a star to rate this excursion'}
+            </Text>
+          </View>
+
+          {plannedActivities.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>What did you do?</Text>
+              {plannedActivities.map(activity => {
+                const done = completedActivities.includes(activity);
+                return (
+                  <TouchableOpacity
+                    key={activity}
+                    style={styles.activityRow}
+                    onPress={() => toggleActivity(activity)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: done }}
+                    activeOpacity={0.7}
+                  >
+                    <View style={[styles.checkbox, done && styles.checkboxChecked]}>
+                      {done && <Check size={16} color={colors.surface} />}
+                    </View>
+                    <Text style={styles.activityText}>{activity}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+
+          <Input
+            label="Reflection"
+            placeholder="What stood out? What would you change next time?"
+            value={reflection}
+            onChangeText={setReflection}
+            multiline
+            maxLength={1000}
+            style={styles.reflectionInput}
+          />
+
+          <Button title="Save" onPress={handleSave} loading={saving} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: colors.background,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  content: {
+    padding: 24,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.text.primary,
+    marginBottom: 20,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    gap: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  sectionSubtitle: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: colors.border.medium,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  activityText: {
+    flexShrink: 1,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  reflectionInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+});
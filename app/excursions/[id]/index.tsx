@@ -0,0 +1,580 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  Accessibility,
+  Activity,
+  ArrowLeft,
+  CalendarClock,
+  CheckCircle,
+  Clock,
+  Cloud,
+  Footprints,
+  Heart,
+  MapPin,
+  Mountain,
+  Route,
+  ShieldAlert,
+  Smile,
+  TriangleAlert,
+} from 'lucide-react-native';
+import { Button } from '@/components/Button';
+import { ForecastSummary } from '@/components/ForecastSummary';
+import { RouteMap } from '@/components/RouteMap';
+import { StarRating } from '@/components/StarRating';
+import { WellbeingChange } from '@/components/WellbeingChange';
+import { getDifficultyColor } from '@/components/ExcursionCard';
+import {
+  describeWaypointFeatures,
+  excursionsAPI,
+  formatDuration,
+  getAccessibilityLabels,
+  type Excursion,
+} from '@/lib/excursions-api';
+import { formatDistance, formatElevation } from '@/lib/geo';
+import { pairCheckIns, type CheckInPair } from '@/lib/wellbeing';
+import { wellbeingAPI } from '@/lib/wellbeing-api';
+import { isWeatherSnapshot } from '@/lib/weather-api';
+import { colors } from '@/lib/colors';
+
+export default function ExcursionDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [excursion, setExcursion] = useState<Excursion | null>(null);
+  const [isFavorite, setIsFavorite] = useState(false);
+  const [checkInPairs, setCheckInPairs] = useState<CheckInPair[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id) {
+      loadExcursion(id);
+    }
+  }, [id]);
+
+  const loadExcursion = async (excursionId: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [data, favoriteIds, checkIns] = await Promise.all([
+        excursionsAPI.getExcursion(excursionId),
+        excursionsAPI.getFavoriteIds(),
+        wellbeingAPI.getExcursionCheckIns(excursionId),
+      ]);
+
+      if (!data) {
+        setError('Excursion not found');
+        return;
+      }
+
+      setExcursion(data);
+      setIsFavorite(favoriteIds.has(excursionId));
+      setCheckInPairs(pairCheckIns(checkIns));
+    } catch (err) {
+      console.error('Error loading excursion:', err);
+      setError('Failed to load excursion');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleFavorite = async () => {
+    if (!excursion) return;
+
+    try {
+      if (isFavorite) {
+        await excursionsAPI.removeFavorite(excursion.id);
+      } else {
+        await excursionsAPI.addFavorite(excursion.id);
+      }
+      setIsFavorite(!isFavorite);
+    } catch (err) {
+      console.error('Error toggling favorite:', err);
+      Alert.alert('Error', 'Failed to update favorite status');
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/excursions');
+    }
+  };
+
+  const latestCheckInPair = checkInPairs[checkInPairs.length - 1];
+  const weatherConditions = excursion?.weather_conditions ?? null;
+  const weatherSnapshot = isWeatherSnapshot(weatherConditions) ? weatherConditions : null;
+  const weather = weatherSnapshot ? [] : formatWeatherConditions(weatherConditions);
+  const waypoints = excursion?.route_data ?? [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {excursion?.title ?? 'Excursion'}
+        </Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={toggleFavorite}
+          disabled={!excursion}
+          activeOpacity={0.7}
+        >
+          <Heart
+            size={22}
+            color={isFavorite ? colors.primary : colors.text.secondary}
+            fill={isFavorite ? colors.primary : 'transparent'}
+          />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : error || !excursion ? (
+        <View style={styles.centerContainer}>
+          <Text style={styles.errorText}>{error ?? 'Excursion not found'}</Text>
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <RouteMap location={excursion.location} route={excursion.route_data} />
+
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>{excursion.title}</Text>
+            {!!excursion.difficulty_level && (
+              <View style={[styles.badge, getDifficultyColor(excursion.difficulty_level)]}>
+                <Text style={styles.badgeText}>{excursion.difficulty_level}</Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.metadata}>
+            {!!excursion.scheduled_at && (
+              <View style={styles.metadataItem}>
+                <CalendarClock size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>
+                  {new Date(excursion.scheduled_at).toLocaleString([], {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                </Text>
+              </View>
+            )}
+            {!!excursion.location.address && (
+              <View style={styles.metadataItem}>
+                <MapPin size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>{excursion.location.address}</Text>
+              </View>
+            )}
+            {!!excursion.duration_minutes && (
+              <View style={styles.metadataItem}>
+                <Clock size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>{formatDuration(excursion.duration_minutes)}</Text>
+              </View>
+            )}
+            {excursion.distance_meters !== null && (
+              <View style={styles.metadataItem}>
+                <Route size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>{formatDistance(excursion.distance_meters)} route</Text>
+              </View>
+            )}
+            {excursion.elevation_gain_meters !== null && excursion.elevation_loss_meters !== null && (
+              <View style={styles.metadataItem}>
+                <Mountain size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>
+                  ↑ {formatElevation(excursion.elevation_gain_meters)} · ↓ {formatElevation(excursion.elevation_loss_meters)}
+                </Text>
+              </View>
+            )}
+            {!!excursion.estimated_walking_minutes && (
+              <View style={styles.metadataItem}>
+                <Footprints size={16} color={colors.text.secondary} />
+                <Text style={styles.metadataText}>
+                  About {formatDuration(excursion.estimated_walking_minutes)} of walking at your pace
+                </Text>
+              </View>
+            )}
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              title="Start excursion"
+              onPress={() => router.push({ pathname: '/excursions/[id]/track', params: { id: excursion.id } })}
+            />
+            {!excursion.completed_at && (
+              <Button
+                title="Mark as done"
+                variant="secondary"
+                onPress={() => router.push({ pathname: '/excursions/[id]/complete', params: { id: excursion.id } })}
+              />
+            )}
+          </View>
+
+          {!!excursion.description && (
+            <Text style={styles.description}>{excursion.description}</Text>
+          )}
+
+          {excursion.safety_warnings.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <ShieldAlert size={18} color={colors.warning} />
+                <Text style={styles.sectionTitle}>Safety</Text>
+              </View>
+              {excursion.safety_warnings.map(warning => (
+                <View key={warning.type} style={styles.safetyWarning}>
+                  <View style={styles.safetyHeader}>
+                    <TriangleAlert size={16} color={colors.warning} />
+                    <Text style={styles.safetyMessage}>
+                      {warning.message.replace(/^\w/, letter => letter.toUpperCase())}
+                    </Text>
+                  </View>
+                  <Text style={styles.value}>{warning.advice}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {!!excursion.completed_at && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <CheckCircle size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>Completed</Text>
+                <TouchableOpacity
+                  style={styles.sectionAction}
+                  onPress={() => router.push({ pathname: '/excursions/[id]/complete', params: { id: excursion.id } })}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.sectionActionText}>Edit</Text>
+                </TouchableOpacity>
+              </View>
+              <Text style={styles.value}>
+                {new Date(excursion.completed_at).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
+              </Text>
+              {excursion.rating !== null && (
+                <View style={styles.completionRow}>
+                  <StarRating rating={excursion.rating} />
+                </View>
+              )}
+              {!!excursion.completed_activities?.length && (
+                <Text style={[styles.value, styles.completionRow]}>
+                  Did: {excursion.completed_activities.join(', ')}
+                </Text>
+              )}
+              {!!excursion.reflection && (
+                <Text style={[styles.reflection, styles.completionRow]}>{excursion.reflection}</Text>
+              )}
+            </View>
+          )}
+
+          {latestCheckInPair && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Smile size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>How you felt</Text>
+              </View>
+              <WellbeingChange pair={latestCheckInPair} />
+              {checkInPairs.length > 1 && (
+                <Text style={[styles.value, styles.completionRow]}>
+                  Latest of {checkInPairs.length} check-ins on this excursion
+                </Text>
+              )}
+            </View>
+          )}
+
+          {excursion.activities && excursion.activities.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Activity size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>Activities</Text>
+              </View>
+              <View style={styles.chipContainer}>
+                {excursion.activities.map((activity, index) => (
+                  <View key={index} style={styles.chip}>
+                    <Text style={styles.chipText}>{activity}</Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
+
+          {excursion.accessibility && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Accessibility size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>Accessibility</Text>
+              </View>
+              {getAccessibilityLabels(excursion.accessibility).map(label => (
+                <Text key={label} style={styles.value}>{label}</Text>
+              ))}
+            </View>
+          )}
+
+          {waypoints.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Route size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>Route</Text>
+              </View>
+              {waypoints.map(point => (
+                <View key={point.order} style={styles.waypoint}>
+                  <View style={styles.waypointOrder}>
+                    <Text style={styles.waypointOrderText}>{point.order}</Text>
+                  </View>
+                  <Text style={styles.value}>
+                    {point.name ?? `${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`}
+                    {!!describeWaypointFeatures(point) && ` · ${describeWaypointFeatures(point)}`}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {(weatherSnapshot || weather.length > 0) && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Cloud size={18} color={colors.primary} />
+                <Text style={styles.sectionTitle}>Weather</Text>
+              </View>
+              {weatherSnapshot && <ForecastSummary snapshot={weatherSnapshot} />}
+              {weather.map(({ label, value }) => (
+                <View key={label} style={styles.weatherRow}>
+                  <Text style={styles.weatherLabel}>{label}</Text>
+                  <Text style={styles.value}>{value}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
+
+/**
+ * Excursions created before forecast snapshots hold free-form weather JSON, so
+ * it is shown as label/value rows rather than assuming particular fields.
+ */
+function formatWeatherConditions(
+  conditions: Record<string, unknown> | null
+): { label: string; value: string }[] {
+  if (!conditions) return [];
+
+  return Object.entries(conditions)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => ({
+      label: key
+        .replace(/[_-]+/g, ' ')
+        .replace(/([a-z])([A-Z])/g, '$1 $2')
+        .replace(/^\w/, letter => letter.toUpperCase()),
+      value: Array.isArray(value)
+        ? value.join(', ')
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value),
+    }));
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 4,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 24,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 24,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  badge: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  metadata: {
+    gap: 6,
+    marginBottom: 16,
+  },
+  metadataItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  metadataText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  actions: {
+    gap: 12,
+    marginBottom: 20,
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 24,
+    color: colors.text.primary,
+    marginBottom: 16,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  sectionAction: {
+    marginLeft: 'auto',
+    padding: 4,
+  },
+  sectionActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  completionRow: {
+    marginTop: 8,
+  },
+  safetyWarning: {
+    gap: 4,
+    paddingVertical: 6,
+  },
+  safetyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  safetyMessage: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  reflection: {
+    fontSize: 15,
+    lineHeight: 22,
+    fontStyle: 'italic',
+    color: colors.text.primary,
+  },
+  value: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: colors.primary,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  waypoint: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  waypointOrder: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: colors.primaryLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  waypointOrderText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.surface,
+  },
+  weatherRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  weatherLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+});
@@ -0,0 +1,268 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { CheckCircle } from 'lucide-react-native';
+import { Button } from '@/components/Button';
+import { CheckInForm } from '@/components/CheckInForm';
+import { RouteMap } from '@/components/RouteMap';
+import { WellbeingChange } from '@/components/WellbeingChange';
+import { excursionsAPI, type Excursion } from '@/lib/excursions-api';
+import { excursionSessionsAPI, type ExcursionSession } from '@/lib/excursion-sessions-api';
+import { formatElapsed, toTrailSegments } from '@/lib/excursion-tracker';
+import { formatDistance } from '@/lib/geo';
+import { pairCheckIns } from '@/lib/wellbeing';
+import { wellbeingAPI, type WellbeingCheckIn, type WellbeingScores } from '@/lib/wellbeing-api';
+import { colors } from '@/lib/colors';
+
+export default function ExcursionSummaryScreen() {
+  const { id, sessionId } = useLocalSearchParams<{ id: string; sessionId: string }>();
+  const [excursion, setExcursion] = useState<Excursion | null>(null);
+  const [session, setSession] = useState<ExcursionSession | null>(null);
+  const [checkIns, setCheckIns] = useState<WellbeingCheckIn[]>([]);
+  const [checkInSkipped, setCheckInSkipped] = useState(false);
+  const [savingCheckIn, setSavingCheckIn] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (id && sessionId) {
+      loadSummary(id, sessionId);
+    }
+  }, [id, sessionId]);
+
+  const loadSummary = async (excursionId: string, summarySessionId: string) => {
+    try {
+      setLoading(true);
+      const [excursionData, sessionData, checkInData] = await Promise.all([
+        excursionsAPI.getExcursion(excursionId),
+        excursionSessionsAPI.getSession(summarySessionId),
+        wellbeingAPI.getExcursionCheckIns(excursionId),
+      ]);
+
+      if (!excursionData || !sessionData) {
+        setError('Excursion not found');
+        return;
+      }
+
+      setExcursion(excursionData);
+      setSession(sessionData);
+      setCheckIns(checkInData.filter(checkIn => checkIn.session_id === summarySessionId));
+    } catch (err) {
+      console.error('Error loading summary:', err);
+      setError('Failed to load summary');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const trail = useMemo(() => toTrailSegments(session?.breadcrumbs ?? []), [session]);
+  const checkInPair = useMemo(() => pairCheckIns(checkIns)[0] ?? null, [checkIns]);
+  const hasAfterCheckIn = checkIns.some(checkIn => checkIn.phase === 'after');
+
+  const saveAfterCheckIn = async (scores: WellbeingScores, notes: string) => {
+    if (!excursion || !session) return;
+
+    try {
+      setSavingCheckIn(true);
+      const checkIn = await wellbeingAPI.saveCheckIn({
+        excursionId: excursion.id,
+        sessionId: session.id,
+        phase: 'after',
+        notes,
+        ...scores,
+      });
+      setCheckIns(prev => [...prev, checkIn]);
+    } catch (err) {
+      console.error('Error saving check-in:', err);
+      Alert.alert('Error', 'Failed to save your check-in');
+    } finally {
+      setSavingCheckIn(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !excursion || !session) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <Text style={styles.errorText}>{error ?? 'Excursion not found'}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const pace = formatPace(session.elapsed_seconds, session.distance_meters);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.hero}>
+          <CheckCircle size={48} color={colors.success} />
+          <Text style={styles.title}>Excursion complete</Text>
+          <Text style={styles.subtitle}>{excursion.title}</Text>
+        </View>
+
+        <View style={styles.stats}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatElapsed(session.elapsed_seconds)}</Text>
+            <Text style={styles.statLabel}>Time</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatDistance(session.distance_meters)}</Text>
+            <Text style={styles.statLabel}>Distance</Text>
+          </View>
+          {pace && (
+            <View style={styles.stat}>
+              <Text style={styles.statValue}>{pace}</Text>
+              <Text style={styles.statLabel}>Pace</Text>
+            </View>
+          )}
+        </View>
+
+        <RouteMap location={excursion.location} route={excursion.route_data} trail={trail} />
+
+        {!hasAfterCheckIn && !checkInSkipped && (
+          <View style={styles.card}>
+            <CheckInForm
+              title="How do you feel now?"
+              submitTitle="Save check-in"
+              submitting={savingCheckIn}
+              onSubmit={saveAfterCheckIn}
+              onSkip={() => setCheckInSkipped(true)}
+            />
+          </View>
+        )}
+
+        {checkInPair && (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>How you changed</Text>
+            <WellbeingChange pair={checkInPair} />
+          </View>
+        )}
+
+        <Text style={styles.timeRange}>
+          {formatTime(session.started_at)}
+          {session.ended_at ? ` – ${formatTime(session.ended_at)}` : ''}
+        </Text>
+
+        <Button
+          title="Rate this excursion"
+          onPress={() =>
+            router.replace({
+              pathname: '/excursions/[id]/complete',
+              params: { id: excursion.id, completedAt: session.ended_at ?? undefined },
+            })
+          }
+        />
+        <Button
+          title="Done"
+          variant="secondary"
+          onPress={() => router.replace({ pathname: '/excursions/[id]', params: { id: excursion.id } })}
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+/** Minutes per kilometre; null when too little distance was recorded to be meaningful. */
+function formatPace(elapsedSeconds: number, distanceMeters: number): string | null {
+  if (distanceMeters < 100) return null;
+
+  const secondsPerKm = Math.round(elapsedSeconds / (distanceMeters / 1000));
+  const minutes = Math.floor(secondsPerKm / 60);
+  const seconds = secondsPerKm % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}/km`;
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: colors.background,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 24,
+    gap: 20,
+  },
+  hero: {
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingVertical: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  statLabel: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  timeRange: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+});
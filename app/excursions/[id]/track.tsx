@@ -0,0 +1,325 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity, Alert, Platform, Modal, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft, Flag, Pause, Play } from 'lucide-react-native';
+import { CheckInForm } from '@/components/CheckInForm';
+import { RouteMap } from '@/components/RouteMap';
+import { useExcursionTracker } from '@/hooks/useExcursionTracker';
+import { excursionsAPI, type Excursion } from '@/lib/excursions-api';
+import { formatElapsed, toTrailSegments } from '@/lib/excursion-tracker';
+import { createSimulatedLocationSource, deviceLocationSource } from '@/lib/location-source';
+import { formatDistance } from '@/lib/geo';
+import { wellbeingAPI, type WellbeingScores } from '@/lib/wellbeing-api';
+import { colors } from '@/lib/colors';
+
+export default function TrackExcursionScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [excursion, setExcursion] = useState<Excursion | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [showCheckIn, setShowCheckIn] = useState(false);
+  const [savingCheckIn, setSavingCheckIn] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    excursionsAPI
+      .getExcursion(id)
+      .then(data => (data ? setExcursion(data) : setLoadError('Excursion not found')))
+      .catch(err => {
+        console.error('Error loading excursion:', err);
+        setLoadError('Failed to load excursion');
+      });
+  }, [id]);
+
+  const source = useMemo(() => {
+    if (!excursion) return null;
+
+    return process.env.EXPO_PUBLIC_SIMULATE_LOCATION === 'true'
+      ? createSimulatedLocationSource(excursion.route_data ?? [excursion.location])
+      : deviceLocationSource;
+  }, [excursion]);
+
+  const { snapshot, loading, error, start, pause, finish } = useExcursionTracker(excursion?.id, source);
+  const trail = useMemo(() => toTrailSegments(snapshot.breadcrumbs), [snapshot.breadcrumbs]);
+
+  const handleStart = () => {
+    // A brand-new session starts with a before check-in; resuming does not.
+    if (snapshot.status === 'idle') {
+      setShowCheckIn(true);
+    } else {
+      start();
+    }
+  };
+
+  const startWithCheckIn = async (scores: WellbeingScores, notes: string) => {
+    if (!excursion) return;
+
+    try {
+      setSavingCheckIn(true);
+      const sessionId = await start();
+      if (sessionId) {
+        await wellbeingAPI.saveCheckIn({
+          excursionId: excursion.id,
+          sessionId,
+          phase: 'before',
+          notes,
+          ...scores,
+        });
+      }
+    } catch (err) {
+      console.error('Error saving check-in:', err);
+    } finally {
+      setSavingCheckIn(false);
+      setShowCheckIn(false);
+    }
+  };
+
+  const skipCheckIn = () => {
+    setShowCheckIn(false);
+    start();
+  };
+
+  const completeExcursion = async () => {
+    try {
+      const sessionId = await finish();
+      if (sessionId && excursion) {
+        router.replace({
+          pathname: '/excursions/[id]/summary',
+          params: { id: excursion.id, sessionId },
+        });
+      }
+    } catch (err) {
+      console.error('Error finishing excursion:', err);
+      Alert.alert('Error', 'Failed to save your excursion');
+    }
+  };
+
+  const handleFinish = () => {
+    // Alert buttons are not supported by react-native-web.
+    if (Platform.OS === 'web') {
+      if (window.confirm('Finish excursion? Your time and distance will be saved.')) {
+        completeExcursion();
+      }
+      return;
+    }
+
+    Alert.alert('Finish excursion?', 'Your time and distance will be saved.', [
+      { text: 'Keep going', style: 'cancel' },
+      { text: 'Finish', onPress: completeExcursion },
+    ]);
+  };
+
+  if (loadError) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <Text style={styles.errorText}>{loadError}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  if (!excursion || loading) {
+    return (
+      <SafeAreaView style={styles.centerContainer}>
+        <ActivityIndicator size="large" color={colors.primary} />
+      </SafeAreaView>
+    );
+  }
+
+  const { status } = snapshot;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={() => router.back()} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {excursion.title}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <RouteMap
+        location={excursion.location}
+        route={excursion.route_data}
+        trail={trail}
+        showsUserLocation={status === 'active'}
+        style={styles.map}
+      />
+
+      <View style={styles.panel}>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.stats}>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatElapsed(snapshot.elapsedSeconds)}</Text>
+            <Text style={styles.statLabel}>Elapsed</Text>
+          </View>
+          <View style={styles.stat}>
+            <Text style={styles.statValue}>{formatDistance(snapshot.distanceMeters)}</Text>
+            <Text style={styles.statLabel}>Distance</Text>
+          </View>
+        </View>
+
+        {status === 'paused' && <Text style={styles.pausedText}>Paused</Text>}
+
+        <View style={styles.controls}>
+          {status === 'active' ? (
+            <TouchableOpacity style={[styles.control, styles.secondaryControl]} onPress={pause} activeOpacity={0.7}>
+              <Pause size={20} color={colors.primary} />
+              <Text style={styles.secondaryControlText}>Pause</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={[styles.control, styles.primaryControl]} onPress={handleStart} activeOpacity={0.7}>
+              <Play size={20} color="#FFFFFF" />
+              <Text style={styles.primaryControlText}>{status === 'paused' ? 'Resume' : 'Start excursion'}</Text>
+            </TouchableOpacity>
+          )}
+          {status !== 'idle' && (
+            <TouchableOpacity style={[styles.control, styles.finishControl]} onPress={handleFinish} activeOpacity={0.7}>
+              <Flag size={20} color="#FFFFFF" />
+              <Text style={styles.primaryControlText}>Finish</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+
+      <Modal
+        visible={showCheckIn}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowCheckIn(false)}
+      >
+        <SafeAreaView style={styles.checkInContainer}>
+          <ScrollView contentContainerStyle={styles.checkInContent} keyboardShouldPersistTaps="handled">
+            <CheckInForm
+              title="How are you feeling?"
+              subtitle="A quick check-in before you set off. You'll do another at the end to see what changed."
+              submitTitle="Start excursion"
+              submitting={savingCheckIn}
+              onSubmit={startWithCheckIn}
+              onSkip={skipCheckIn}
+            />
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  checkInContainer: {
+    flex: 1,
+    backgroundColor: colors.surface,
+  },
+  checkInContent: {
+    padding: 24,
+  },
+  map: {
+    flex: 1,
+    height: undefined,
+    borderRadius: 0,
+  },
+  panel: {
+    backgroundColor: colors.surface,
+    padding: 24,
+    gap: 16,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.error,
+    textAlign: 'center',
+  },
+  stats: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  stat: {
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 32,
+    fontWeight: '700',
+    color: colors.text.primary,
+    fontVariant: ['tabular-nums'],
+  },
+  statLabel: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  pausedText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.warning,
+    textAlign: 'center',
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  control: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    minHeight: 56,
+    borderRadius: 12,
+  },
+  primaryControl: {
+    backgroundColor: colors.primary,
+  },
+  secondaryControl: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+  },
+  finishControl: {
+    backgroundColor: colors.primaryDark,
+  },
+  primaryControlText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryControlText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router, useLocalSearchParams } from 'expo-router';
+import { ArrowLeft } from 'lucide-react-native';
+import { ChatInterface } from '@/components/ChatInterface';
+import { LocationStatusBar } from '@/components/LocationStatusBar';
+import { useDeviceLocation } from '@/hooks/useDeviceLocation';
+import { formatWindowTime } from '@/lib/outdoor-windows';
+import { locationPreferencesAPI, type SavedPlace } from '@/lib/location-preferences-api';
+import type { UserContext } from '@/lib/assistants-api';
+import { colors } from '@/lib/colors';
+
+type CreateParams = {
+  /** ISO start and end of a time window picked on the home screen. */
+  windowStart?: string;
+  windowEnd?: string;
+  lat?: string;
+  lng?: string;
+  /** Name of the catalog place at lat/lng, when one was picked. */
+  placeName?: string;
+};
+
+/**
+ * Chat with the excursion creator, optionally starting from a chosen time window
+ * and place. Otherwise the device location is sent with every message once
+ * access is granted; the assistant falls back to the profile's home base.
+ */
+export default function CreateExcursionScreen() {
+  const { windowStart, windowEnd, lat, lng, placeName } = useLocalSearchParams<CreateParams>();
+  const device = useDeviceLocation();
+  const [homeBase, setHomeBase] = useState<SavedPlace | null>(null);
+
+  useEffect(() => {
+    locationPreferencesAPI.get()
+      .then(preferences => setHomeBase(preferences.homeBase))
+      .catch(err => console.error('Error loading location preferences:', err));
+  }, []);
+
+  const pickedLocation = useMemo(() => {
+    const latitude = Number(lat);
+    const longitude = Number(lng);
+    return lat && lng && Number.isFinite(latitude) && Number.isFinite(longitude)
+      ? { lat: latitude, lng: longitude, address: placeName || undefined }
+      : null;
+  }, [lat, lng, placeName]);
+
+  const userContext = useMemo<UserContext>(() => ({
+    location: pickedLocation ?? device.location ?? undefined,
+    timeWindow: windowStart && windowEnd ? { start: windowStart, end: windowEnd } : undefined,
+  }), [windowStart, windowEnd, pickedLocation, device.location]);
+
+  const draft = userContext.timeWindow
+    ? `Plan an excursion for today between ${formatWindowTime(userContext.timeWindow).replace(' – ', ' and ')}.`
+    : placeName
+      ? `Plan an excursion at ${placeName}.`
+      : undefined;
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/excursions');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Plan an Excursion</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {!pickedLocation && (
+        <LocationStatusBar
+          permission={device.permission}
+          location={device.location}
+          loading={device.loading}
+          error={device.error}
+          homeBase={homeBase}
+          onRequestLocation={device.requestLocation}
+        />
+      )}
+
+      <ChatInterface
+        assistantType="excursion_creator"
+        userContext={userContext}
+        initialDraft={draft}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+});
@@ -0,0 +1,400 @@
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { ArrowLeft, Accessibility, MapPin } from 'lucide-react-native';
+import { LocationStatusBar } from '@/components/LocationStatusBar';
+import { useDeviceLocation } from '@/hooks/useDeviceLocation';
+import { locationPreferencesAPI, type SavedPlace } from '@/lib/location-preferences-api';
+import {
+  ACCESSIBILITY_LABELS,
+  AMENITY_LABELS,
+  DEFAULT_NATURE_PLACE_FILTERS,
+  naturePlacesAPI,
+  SURFACE_LABELS,
+  type AccessibilityFeature,
+  type Amenity,
+  type NaturePlace,
+  type NaturePlaceFilters,
+  type Surface,
+} from '@/lib/nature-places-api';
+import { formatDistance } from '@/lib/geo';
+import { colors } from '@/lib/colors';
+
+const RADIUS_OPTIONS_KM = [2, 5, 10, 25];
+const DEFAULT_RADIUS_KM = 5;
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Browses the curated nature places catalog around the device location (or the
+ * home base), filtered by amenities, accessibility and surface. A place can be
+ * handed to the excursion creator as the starting point.
+ */
+export default function NaturePlacesScreen() {
+  const device = useDeviceLocation();
+  const [homeBase, setHomeBase] = useState<SavedPlace | null>(null);
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_RADIUS_KM);
+  const [filters, setFilters] = useState<NaturePlaceFilters>(DEFAULT_NATURE_PLACE_FILTERS);
+  const [places, setPlaces] = useState<NaturePlace[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses to superseded searches (e.g. an older radius) are ignored.
+  const queryIdRef = useRef(0);
+
+  useEffect(() => {
+    locationPreferencesAPI.get()
+      .then(preferences => setHomeBase(preferences.homeBase))
+      .catch(err => console.error('Error loading location preferences:', err));
+  }, []);
+
+  const center = device.location ?? homeBase;
+  const centerLat = center?.lat;
+  const centerLng = center?.lng;
+
+  const loadPlaces = useCallback(async () => {
+    if (centerLat === undefined || centerLng === undefined) return;
+
+    const queryId = ++queryIdRef.current;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const results = await naturePlacesAPI.search(
+        { lat: centerLat, lng: centerLng, radiusMeters: radiusKm * 1000 },
+        filters
+      );
+      if (queryId !== queryIdRef.current) return;
+
+      setPlaces(results);
+    } catch (err) {
+      if (queryId !== queryIdRef.current) return;
+      console.error('Error loading nature places:', err);
+      setError('Failed to load nature places');
+    } finally {
+      if (queryId === queryIdRef.current) setLoading(false);
+    }
+  }, [centerLat, centerLng, radiusKm, filters]);
+
+  useEffect(() => {
+    loadPlaces();
+  }, [loadPlaces]);
+
+  const update = (changes: Partial<NaturePlaceFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+  const planHere = (place: NaturePlace) => {
+    router.push({
+      pathname: '/excursions/create',
+      params: { lat: String(place.lat), lng: String(place.lng), placeName: place.name },
+    });
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/excursions');
+    }
+  };
+
+  const header = (
+    <View style={styles.filters}>
+      <FilterGroup label="Within">
+        {RADIUS_OPTIONS_KM.map(km => (
+          <Chip key={km} label={`${km} km`} selected={radiusKm === km} onPress={() => setRadiusKm(km)} />
+        ))}
+      </FilterGroup>
+
+      <FilterGroup label="Amenities">
+        {(Object.keys(AMENITY_LABELS) as Amenity[]).map(amenity => (
+          <Chip
+            key={amenity}
+            label={AMENITY_LABELS[amenity]}
+            selected={filters.amenities.includes(amenity)}
+            onPress={() => update({ amenities: toggle(filters.amenities, amenity) })}
+          />
+        ))}
+      </FilterGroup>
+
+      <FilterGroup label="Accessibility">
+        {(Object.keys(ACCESSIBILITY_LABELS) as AccessibilityFeature[]).map(feature => (
+          <Chip
+            key={feature}
+            label={ACCESSIBILITY_LABELS[feature]}
+            selected={filters.accessibility.includes(feature)}
+            onPress={() => update({ accessibility: toggle(filters.accessibility, feature) })}
+          />
+        ))}
+      </FilterGroup>
+
+      <FilterGroup label="Surface">
+        {(Object.keys(SURFACE_LABELS) as Surface[]).map(surface => (
+          <Chip
+            key={surface}
+            label={SURFACE_LABELS[surface]}
+            selected={filters.surfaces.includes(surface)}
+            onPress={() => update({ surfaces: toggle(filters.surfaces, surface) })}
+          />
+        ))}
+      </FilterGroup>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+    </View>
+  );
+
+  const emptyState = loading ? (
+    <ActivityIndicator style={styles.loader} size="large" color={colors.primary} />
+  ) : error ? null : (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyTitle}>{center ? 'No places found' : 'Where should we look?'}</Text>
+      <Text style={styles.emptyText}>
+        {center
+          ? 'Try a larger distance or fewer filters'
+          : 'Share your location or set a home base in your profile to see nature places nearby'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.headerButton} onPress={handleBack} activeOpacity={0.7}>
+          <ArrowLeft size={22} color={colors.text.primary} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Nature Places</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <LocationStatusBar
+        permission={device.permission}
+        location={device.location}
+        loading={device.loading}
+        error={device.error}
+        homeBase={homeBase}
+        onRequestLocation={device.requestLocation}
+      />
+
+      <FlatList
+        contentContainerStyle={styles.content}
+        data={loading ? [] : places}
+        keyExtractor={place => place.id}
+        renderItem={({ item: place }) => <PlaceCard place={place} onPlan={() => planHere(place)} />}
+        ListHeaderComponent={header}
+        ListEmptyComponent={emptyState}
+      />
+    </SafeAreaView>
+  );
+}
+
+function PlaceCard({ place, onPlan }: { place: NaturePlace; onPlan: () => void }) {
+  const details = [
+    place.surface && `${SURFACE_LABELS[place.surface]} surface`,
+    place.max_grade_percent !== null && `Grade up to ${place.max_grade_percent}%`,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{place.name}</Text>
+      <Text style={styles.cardMeta}>
+        {capitalize(place.category)}
+        {place.distance_meters !== null && ` · ${formatDistance(place.distance_meters)} away`}
+      </Text>
+
+      {!!place.address && (
+        <View style={styles.cardRow}>
+          <MapPin size={14} color={colors.text.secondary} />
+          <Text style={styles.cardText} numberOfLines={1}>{place.address}</Text>
+        </View>
+      )}
+
+      {!!place.description && <Text style={styles.cardText} numberOfLines={3}>{place.description}</Text>}
+
+      {place.amenities.length > 0 && (
+        <Text style={styles.cardText}>{place.amenities.map(amenity => AMENITY_LABELS[amenity]).join(' · ')}</Text>
+      )}
+
+      {details.length > 0 && <Text style={styles.cardText}>{details.join(' · ')}</Text>}
+
+      {place.accessibility.length > 0 && (
+        <View style={styles.cardRow}>
+          <Accessibility size={14} color={colors.primary} />
+          <Text style={styles.cardText}>
+            {place.accessibility.map(feature => ACCESSIBILITY_LABELS[feature]).join(' · ')}
+          </Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.planButton} onPress={onPlan} activeOpacity={0.7}>
+        <Text style={styles.planButtonText}>Plan an excursion here</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function FilterGroup({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <View style={styles.group}>
+      <Text style={styles.groupLabel}>{label}</Text>
+      <View style={styles.chipContainer}>{children}</View>
+    </View>
+  );
+}
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 30,
+  },
+  content: {
+    padding: 24,
+  },
+  filters: {
+    gap: 16,
+    marginBottom: 24,
+  },
+  group: {
+    gap: 8,
+  },
+  groupLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textTransform: 'uppercase',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  errorContainer: {
+    padding: 16,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+  },
+  errorText: {
+    color: '#DC2626',
+    fontSize: 14,
+  },
+  loader: {
+    paddingVertical: 48,
+  },
+  emptyState: {
+    padding: 32,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 6,
+  },
+  cardTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  cardMeta: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  cardRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  cardText: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  planButton: {
+    alignSelf: 'flex-start',
+    marginTop: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+  },
+  planButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,197 @@
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { ChevronRight, LocateFixed, Sun, TriangleAlert } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import { formatWindowTime, type OutdoorWindow } from '@/lib/outdoor-windows';
+
+interface BestTimeWidgetProps {
+  windows: OutdoorWindow[];
+  loading: boolean;
+  error: string | null;
+  needsLocation: boolean;
+  onSelect: (window: OutdoorWindow) => void;
+  onRequestLocation: () => void;
+  onRetry: () => void;
+}
+
+const RATING_COLORS: Record<OutdoorWindow['rating'], string> = {
+  Great: colors.success,
+  Good: colors.primary,
+  Fair: colors.warning,
+};
+
+/** Home-screen card with today's best outdoor windows; tapping one starts planning an excursion for it. */
+export function BestTimeWidget({
+  windows,
+  loading,
+  error,
+  needsLocation,
+  onSelect,
+  onRequestLocation,
+  onRetry,
+}: BestTimeWidgetProps) {
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Sun size={20} color={colors.primary} />
+        <Text style={styles.title}>Best time to go outside today</Text>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loader} color={colors.primary} />
+      ) : error ? (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>{error}</Text>
+          <TouchableOpacity onPress={needsLocation ? onRequestLocation : onRetry} activeOpacity={0.7}>
+            <Text style={styles.link}>{needsLocation ? 'Use my location' : 'Try again'}</Text>
+          </TouchableOpacity>
+        </View>
+      ) : needsLocation ? (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>Share your location to see when the weather is best near you.</Text>
+          <TouchableOpacity style={styles.locationButton} onPress={onRequestLocation} activeOpacity={0.7}>
+            <LocateFixed size={16} color={colors.surface} />
+            <Text style={styles.locationButtonText}>Use my location</Text>
+          </TouchableOpacity>
+        </View>
+      ) : windows.length === 0 ? (
+        <Text style={styles.messageText}>
+          No good times left today. Check back tomorrow morning for a fresh forecast.
+        </Text>
+      ) : (
+        windows.map((window, index) => (
+          <TouchableOpacity
+            key={window.start}
+            style={[styles.window, index > 0 && styles.windowDivider]}
+            onPress={() => onSelect(window)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.windowBody}>
+              <View style={styles.windowHeader}>
+                <Text style={[styles.windowTime, index === 0 && styles.windowTimeBest]}>
+                  {formatWindowTime(window)}
+                </Text>
+                <View style={[styles.rating, { backgroundColor: RATING_COLORS[window.rating] }]}>
+                  <Text style={styles.ratingText}>{window.rating}</Text>
+                </View>
+              </View>
+              <Text style={styles.highlights}>{window.highlights.join(' · ')}</Text>
+              {window.cautions.map(caution => (
+                <View key={caution} style={styles.caution}>
+                  <TriangleAlert size={12} color={colors.warning} />
+                  <Text style={styles.cautionText}>{caution}</Text>
+                </View>
+              ))}
+            </View>
+            <ChevronRight size={20} color={colors.text.light} />
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 32,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  loader: {
+    paddingVertical: 16,
+  },
+  message: {
+    gap: 12,
+  },
+  messageText: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: colors.text.secondary,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  locationButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    backgroundColor: colors.primary,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  locationButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  window: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 8,
+  },
+  windowDivider: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+  },
+  windowBody: {
+    flex: 1,
+    gap: 4,
+  },
+  windowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  windowTime: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  windowTimeBest: {
+    fontWeight: '700',
+  },
+  rating: {
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 10,
+  },
+  ratingText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  highlights: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  caution: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  cautionText: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+});
@@ -7,10 +7,16 @@ interface ChatInputProps {
   onSend: (message: string) => Promise<void>;
   disabled?: boolean;
   placeholder?: string;
+  initialValue?: string;
 }
 
-export function ChatInput({ onSend, disabled = false, placeholder = 'Type a message...' }: ChatInputProps) {
-  const [message, setMessage] = useState('');
+export function ChatInput({
+  onSend,
+  disabled = false,
+  placeholder = 'Type a message...',
+  initialValue = '',
+}: ChatInputProps) {
+  const [message, setMessage] = useState(initialValue);
   const [isSending, setIsSending] = useState(false);
 
   const handleSend = async () => {
@@ -1,30 +1,55 @@
 import { useState, useEffect, useRef } from 'react';
-import { View, FlatList, StyleSheet, Text, ActivityIndicator } from 'react-native';
+import { View, FlatList, StyleSheet, Text, ActivityIndicator, Alert } from 'react-native';
+import { useRouter } from 'expo-router';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { TypingIndicator } from './TypingIndicator';
 import { assistantsAPI, type AssistantType, type UserContext, type ChatMessage as ChatMessageType } from '@/lib/assistants-api';
+import { excursionsAPI, type Excursion } from '@/lib/excursions-api';
 import { colors } from '@/lib/colors';
 
 interface ChatInterfaceProps {
   assistantType: AssistantType;
   conversationId?: string;
   userContext?: UserContext;
+  /** Text placed in the message box for the user to edit or send. */
+  initialDraft?: string;
   onConversationCreated?: (conversationId: string) => void;
 }
 
+/**
+ * Stored history plus the messages that only exist locally because they failed
+ * to send, kept so they can still be retried and placed where they were written.
+ */
+function withFailedMessages(history: ChatMessageType[], current: ChatMessageType[]): ChatMessageType[] {
+  const failed = current.filter(msg => msg.status === 'failed');
+  return [...history, ...failed].sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
 export function ChatInterface({
   assistantType,
   conversationId: initialConversationId,
   userContext,
+  initialDraft,
   onConversationCreated
 }: ChatInterfaceProps) {
+  const router = useRouter();
   const [messages, setMessages] = useState<ChatMessageType[]>([]);
   const [conversationId, setConversationId] = useState<string | undefined>(initialConversationId);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const flatListRef = useRef<FlatList>(null);
+  // The conversation this component started itself; its messages are already loaded when the parent passes it back.
+  const createdConversationIdRef = useRef<string | null>(null);
 
   useEffect(() => {
+    if (initialConversationId && initialConversationId === createdConversationIdRef.current) {
+      return;
+    }
+
     if (initialConversationId) {
       loadMessages(initialConversationId);
     } else {
@@ -37,7 +62,10 @@ export function ChatInterface({
       setIsLoading(true);
       setError(null);
       const msgs = await assistantsAPI.getMessages(convId);
-      setMessages(msgs);
+      setMessages(prev => withFailedMessages(msgs, prev));
+      if (msgs.some(msg => msg.excursion)) {
+        loadFavorites();
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load messages');
     } finally {
@@ -45,44 +73,178 @@ export function ChatInterface({
     }
   };
 
-  const handleSendMessage = async (message: string) => {
-    setError(null);
+  const loadFavorites = async () => {
+    try {
+      setFavorites(await excursionsAPI.getFavoriteIds());
+    } catch (err) {
+      console.error('Error loading favorites:', err);
+    }
+  };
+
+  /**
+   * Sends a new message, or re-sends `retryMessage` in place after a failure.
+   * Failed messages keep their text so nothing the user typed is lost.
+   */
+  const sendMessage = async (message: string, retryMessage?: ChatMessageType) => {
+    setIsSending(true);
+
+    const pendingMessage: ChatMessageType = retryMessage
+      ? { ...retryMessage, status: 'sending' }
+      : {
+          id: `temp-${Date.now()}`,
+          conversation_id: conversationId || 'pending',
+          role: 'user',
+          content: message,
+          created_at: new Date().toISOString(),
+          status: 'sending',
+        };
 
-    const optimisticMessage: ChatMessageType = {
-      id: `temp-${Date.now()}`,
-      conversation_id: conversationId || 'pending',
-      role: 'user',
-      content: message,
-      created_at: new Date().toISOString(),
-    };
+    const replyMessageId = `streaming-${Date.now()}`;
 
-    setMessages(prev => [...prev, optimisticMessage]);
+    setMessages(prev =>
+      retryMessage
+        ? prev.map(msg => (msg.id === retryMessage.id ? pendingMessage : msg))
+        : [...prev, pendingMessage]
+    );
+
+    let responseConversationId = conversationId;
+    // Once `start` arrives the server has stored the message and added it to the thread.
+    let started = false;
 
     try {
-      const response = await assistantsAPI.sendMessage(
+      for await (const event of assistantsAPI.sendMessageStream(
         assistantType,
         message,
         conversationId,
         userContext
-      );
+      )) {
+        if (event.type === 'start') {
+          started = true;
+          responseConversationId = event.conversationId;
+          setStreamingMessageId(replyMessageId);
+          setMessages(prev => [
+            ...prev.map(msg => (msg.id === pendingMessage.id ? { ...msg, status: 'sent' as const } : msg)),
+            {
+              id: replyMessageId,
+              conversation_id: event.conversationId,
+              role: 'assistant',
+              content: '',
+              created_at: new Date().toISOString(),
+            },
+          ]);
+        } else if (event.type === 'delta') {
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === replyMessageId ? { ...msg, content: msg.content + event.text } : msg
+            )
+          );
+        } else if (event.type === 'done' && event.response.excursionData) {
+          const excursion = event.response.excursionData;
+          setMessages(prev =>
+            prev.map(msg =>
+              msg.id === replyMessageId ? { ...msg, excursion_id: excursion.id, excursion } : msg
+            )
+          );
+        }
+      }
 
-      if (!conversationId) {
-        setConversationId(response.conversationId);
-        onConversationCreated?.(response.conversationId);
+      if (!responseConversationId) {
+        throw new Error('Failed to send message');
       }
 
-      const updatedMessages = await assistantsAPI.getMessages(response.conversationId);
-      setMessages(updatedMessages);
+      setConversationId(responseConversationId);
+      if (responseConversationId !== initialConversationId) {
+        createdConversationIdRef.current = responseConversationId;
+        onConversationCreated?.(responseConversationId);
+      }
+
+      const updatedMessages = await assistantsAPI.getMessages(responseConversationId);
+      setMessages(prev => withFailedMessages(updatedMessages, prev));
+      setError(null);
 
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send message');
-      setMessages(prev => prev.filter(msg => msg.id !== optimisticMessage.id));
+      const reason = err instanceof Error ? err.message : 'Failed to send message';
+
+      if (!started) {
+        setError(reason);
+        setMessages(prev =>
+          prev
+            .filter(msg => msg.id !== replyMessageId)
+            .map(msg => (msg.id === pendingMessage.id ? { ...msg, status: 'failed' as const } : msg))
+        );
+        return;
+      }
+
+      // The message was delivered, so retrying would send it twice; only the reply failed.
+      setError(`The assistant could not finish its reply: ${reason}`);
+      setMessages(prev => prev.filter(msg => msg.id !== replyMessageId));
+
+      if (responseConversationId) {
+        setConversationId(responseConversationId);
+        if (responseConversationId !== initialConversationId) {
+          createdConversationIdRef.current = responseConversationId;
+          onConversationCreated?.(responseConversationId);
+        }
+
+        try {
+          const storedMessages = await assistantsAPI.getMessages(responseConversationId);
+          setMessages(prev => withFailedMessages(storedMessages, prev));
+        } catch (loadError) {
+          console.error('Error reloading messages:', loadError);
+        }
+      }
+    } finally {
+      setStreamingMessageId(null);
+      setIsSending(false);
+    }
+  };
+
+  const handleSendMessage = (message: string) => sendMessage(message);
+
+  const handleRetry = (message: ChatMessageType) => {
+    if (!isSending) {
+      sendMessage(message.content, message);
+    }
+  };
+
+  const handleViewExcursion = (excursion: Excursion) => {
+    router.push({ pathname: '/excursions/[id]', params: { id: excursion.id } });
+  };
+
+  const handleToggleFavorite = async (excursion: Excursion) => {
+    const isFavorite = favorites.has(excursion.id);
+
+    try {
+      if (isFavorite) {
+        await excursionsAPI.removeFavorite(excursion.id);
+        setFavorites(prev => {
+          const next = new Set(prev);
+          next.delete(excursion.id);
+          return next;
+        });
+      } else {
+        await excursionsAPI.addFavorite(excursion.id);
+        setFavorites(prev => new Set([...prev, excursion.id]));
+      }
+    } catch (err) {
+      console.error('Error toggling favorite:', err);
+      Alert.alert('Error', 'Failed to update favorite status');
     }
   };
 
+  const handleRegenerateExcursion = (excursion: Excursion) => {
+    sendMessage(
+      `Please create a different excursion instead of "${excursion.title}", keeping the same preferences.`
+    );
+  };
+
+  const streamingReply = messages.find(msg => msg.id === streamingMessageId);
+  // Shown until reply text arrives, including while tools (e.g. saving an excursion) run.
+  const isThinking = isSending && !streamingReply?.content.trim();
+
   if (isLoading) {
     return (
       <View style={styles.centerContainer}>
@@ -104,8 +266,27 @@ export function ChatInterface({
         ref={flatListRef}
         data={messages}
         keyExtractor={(item) => item.id}
-        renderItem={({ item }) => <ChatMessage message={item} />}
+        extraData={[streamingMessageId, isSending, favorites]}
+        renderItem={({ item }) => (
+          <ChatMessage
+            message={item}
+            isStreaming={item.id === streamingMessageId}
+            isFavorite={item.excursion ? favorites.has(item.excursion.id) : false}
+            actionsDisabled={isSending}
+            onViewExcursion={handleViewExcursion}
+            onToggleFavorite={handleToggleFavorite}
+            onRegenerateExcursion={handleRegenerateExcursion}
+            onRetry={handleRetry}
+          />
+        )}
         contentContainerStyle={styles.messagesList}
+        ListFooterComponent={
+          isThinking ? (
+            <TypingIndicator
+              label={assistantType === 'health_coach' ? 'Coach is thinking' : 'Planning your excursion'}
+            />
+          ) : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>
@@ -118,7 +299,7 @@ export function ChatInterface({
         onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
       />
 
-      <ChatInput onSend={handleSendMessage} />
+      <ChatInput onSend={handleSendMessage} disabled={isSending} initialValue={initialDraft} />
     </View>
   );
 }
@@ -1,24 +1,126 @@
-import { View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AlertCircle, Eye, Heart, RefreshCw } from 'lucide-react-native';
+import { ExcursionCard } from './ExcursionCard';
+import { Markdown, hasVisibleMarkdown } from './Markdown';
 import { colors } from '@/lib/colors';
+import { formatDuration, getRouteLabels, type Excursion } from '@/lib/excursions-api';
 import type { ChatMessage as ChatMessageType } from '@/lib/assistants-api';
 
 interface ChatMessageProps {
   message: ChatMessageType;
+  isStreaming?: boolean;
+  isFavorite?: boolean;
+  /** Disables actions that would send another message, e.g. while a reply is streaming. */
+  actionsDisabled?: boolean;
+  onViewExcursion?: (excursion: Excursion) => void;
+  onToggleFavorite?: (excursion: Excursion) => void;
+  onRegenerateExcursion?: (excursion: Excursion) => void;
+  /** Called when the user taps a message whose delivery failed. */
+  onRetry?: (message: ChatMessageType) => void;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  isStreaming = false,
+  isFavorite = false,
+  actionsDisabled = false,
+  onViewExcursion,
+  onToggleFavorite,
+  onRegenerateExcursion,
+  onRetry,
+}: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const excursion = message.excursion;
+  const cursor = isStreaming ? <Text style={styles.cursor}>▍</Text> : undefined;
+  const showBubble = isUser || hasVisibleMarkdown(message.content);
+  const isFailed = message.status === 'failed';
 
   return (
     <View style={[styles.container, isUser ? styles.userContainer : styles.assistantContainer]}>
-      <View style={[styles.bubble, isUser ? styles.userBubble : styles.assistantBubble]}>
-        <Text style={[styles.text, isUser ? styles.userText : styles.assistantText]}>
-          {message.content}
-        </Text>
-        <Text style={[styles.timestamp, isUser ? styles.userTimestamp : styles.assistantTimestamp]}>
-          {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-        </Text>
-      </View>
+      {showBubble && (
+        <TouchableOpacity
+          style={[
+            styles.bubble,
+            isUser ? styles.userBubble : styles.assistantBubble,
+            message.status === 'sending' && styles.sendingBubble,
+            isFailed && styles.failedBubble,
+          ]}
+          onPress={() => onRetry?.(message)}
+          disabled={!isFailed}
+          activeOpacity={0.7}
+          accessibilityHint={isFailed ? 'Sends the message again' : undefined}
+        >
+          {isUser ? (
+            <Text style={[styles.text, styles.userText, isFailed && styles.failedText]}>{message.content}</Text>
+          ) : (
+            <Markdown content={message.content} trailing={cursor} />
+          )}
+          {!isStreaming && !isFailed && (
+            <Text style={[styles.timestamp, isUser ? styles.userTimestamp : styles.assistantTimestamp]}>
+              {message.status === 'sending'
+                ? 'Sending…'
+                : new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {isFailed && (
+        <TouchableOpacity
+          style={styles.failedStatus}
+          onPress={() => onRetry?.(message)}
+          activeOpacity={0.7}
+        >
+          <AlertCircle size={14} color={colors.error} />
+          <Text style={styles.failedStatusText}>Not delivered. Tap to retry</Text>
+        </TouchableOpacity>
+      )}
+
+      {excursion && (
+        <View style={styles.excursion}>
+          <ExcursionCard
+            title={excursion.title}
+            description={excursion.description || ''}
+            duration={formatDuration(excursion.duration_minutes || 0)}
+            {...getRouteLabels(excursion)}
+            difficulty={excursion.difficulty_level || undefined}
+            warnings={excursion.safety_warnings}
+            isFavorite={isFavorite}
+            onPress={() => onViewExcursion?.(excursion)}
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => onViewExcursion?.(excursion)}
+              activeOpacity={0.7}
+            >
+              <Eye size={16} color={colors.primary} />
+              <Text style={styles.actionText}>View</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => onToggleFavorite?.(excursion)}
+              activeOpacity={0.7}
+            >
+              <Heart
+                size={16}
+                color={colors.primary}
+                fill={isFavorite ? colors.primary : 'transparent'}
+              />
+              <Text style={styles.actionText}>{isFavorite ? 'Saved' : 'Save to favorites'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, actionsDisabled && styles.actionButtonDisabled]}
+              onPress={() => onRegenerateExcursion?.(excursion)}
+              disabled={actionsDisabled}
+              activeOpacity={0.7}
+            >
+              <RefreshCw size={16} color={colors.primary} />
+              <Text style={styles.actionText}>Regenerate</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
     </View>
   );
 }
@@ -50,6 +152,27 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E5E5E5',
   },
+  sendingBubble: {
+    opacity: 0.7,
+  },
+  failedBubble: {
+    backgroundColor: colors.errorBackground,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  failedText: {
+    color: colors.text.primary,
+  },
+  failedStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  failedStatusText: {
+    fontSize: 12,
+    color: colors.error,
+  },
   text: {
     fontSize: 16,
     lineHeight: 22,
@@ -57,8 +180,37 @@ const styles = StyleSheet.create({
   userText: {
     color: '#FFFFFF',
   },
-  assistantText: {
-    color: '#1F2937',
+  excursion: {
+    width: '90%',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: -8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  actionButtonDisabled: {
+    opacity: 0.5,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  cursor: {
+    color: colors.primary,
   },
   timestamp: {
     fontSize: 12,
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { Button } from './Button';
+import { Input } from './Input';
+import { colors } from '@/lib/colors';
+import { DEFAULT_SCORES, MAX_SCORE, METRICS, MIN_SCORE } from '@/lib/wellbeing';
+import type { WellbeingScores } from '@/lib/wellbeing-api';
+
+interface CheckInFormProps {
+  title: string;
+  subtitle?: string;
+  submitTitle: string;
+  submitting?: boolean;
+  onSubmit: (scores: WellbeingScores, notes: string) => void;
+  onSkip?: () => void;
+}
+
+export function CheckInForm({ title, subtitle, submitTitle, submitting = false, onSubmit, onSkip }: CheckInFormProps) {
+  const [scores, setScores] = useState<WellbeingScores>(DEFAULT_SCORES);
+  const [notes, setNotes] = useState('');
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+      {METRICS.map(metric => (
+        <View key={metric.key} style={styles.metric}>
+          <View style={styles.metricHeader}>
+            <Text style={styles.metricLabel}>{metric.label}</Text>
+            <Text style={[styles.metricValue, { color: metric.color }]}>{scores[metric.key]}</Text>
+          </View>
+          <Slider
+            minimumValue={MIN_SCORE}
+            maximumValue={MAX_SCORE}
+            step={1}
+            value={scores[metric.key]}
+            onValueChange={value => setScores(prev => ({ ...prev, [metric.key]: value }))}
+            minimumTrackTintColor={metric.color}
+            maximumTrackTintColor={colors.border.medium}
+            thumbTintColor={metric.color}
+            accessibilityLabel={metric.label}
+          />
+          <View style={styles.scaleLabels}>
+            <Text style={styles.scaleLabel}>{metric.lowLabel}</Text>
+            <Text style={styles.scaleLabel}>{metric.highLabel}</Text>
+          </View>
+        </View>
+      ))}
+
+      <Input
+        label="Notes (optional)"
+        placeholder="Anything on your mind?"
+        value={notes}
+        onChangeText={setNotes}
+        multiline
+        maxLength={500}
+        style={styles.notesInput}
+      />
+
+      <View style={styles.actions}>
+        <Button title={submitTitle} onPress={() => onSubmit(scores, notes)} loading={submitting} />
+        {onSkip && <Button title="Skip" variant="secondary" onPress={onSkip} disabled={submitting} />}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+  },
+  metric: {
+    gap: 4,
+  },
+  metricHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  metricLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  metricValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  scaleLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  scaleLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  notesInput: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  actions: {
+    gap: 12,
+  },
+});
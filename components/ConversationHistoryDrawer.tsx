@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import ReanimatedSwipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Plus, Trash2, X } from 'lucide-react-native';
+import { assistantsAPI, type AssistantType, type ConversationPreview } from '@/lib/assistants-api';
+import { colors } from '@/lib/colors';
+
+interface ConversationHistoryDrawerProps {
+  visible: boolean;
+  assistantType: AssistantType;
+  activeConversationId?: string;
+  onClose: () => void;
+  onSelect: (conversationId: string) => void;
+  onNewChat: () => void;
+  onDeleted: (conversationId: string) => void;
+}
+
+export function ConversationHistoryDrawer({
+  visible,
+  assistantType,
+  activeConversationId,
+  onClose,
+  onSelect,
+  onNewChat,
+  onDeleted,
+}: ConversationHistoryDrawerProps) {
+  const [conversations, setConversations] = useState<ConversationPreview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      loadConversations();
+    }
+  }, [visible]);
+
+  const loadConversations = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setConversations(await assistantsAPI.getConversationPreviews(assistantType));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    try {
+      await assistantsAPI.deleteConversation(conversationId);
+      setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+      onDeleted(conversationId);
+    } catch (err) {
+      console.error('Error deleting conversation:', err);
+      Alert.alert('Error', 'Failed to delete conversation');
+    }
+  };
+
+  const renderDeleteAction = (conversationId: string) => (
+    <TouchableOpacity
+      style={styles.deleteAction}
+      onPress={() => handleDelete(conversationId)}
+      activeOpacity={0.7}
+    >
+      <Trash2 size={20} color="#FFFFFF" />
+      <Text style={styles.deleteActionText}>Delete</Text>
+    </TouchableOpacity>
+  );
+
+  const renderConversation = ({ item }: { item: ConversationPreview }) => {
+    const isActive = item.id === activeConversationId;
+
+    return (
+      <ReanimatedSwipeable
+        friction={2}
+        rightThreshold={40}
+        renderRightActions={() => renderDeleteAction(item.id)}
+      >
+        <TouchableOpacity
+          style={[styles.item, isActive && styles.itemActive]}
+          onPress={() => onSelect(item.id)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.itemHeader}>
+            <Text style={styles.itemTitle} numberOfLines={1}>
+              {item.title}
+            </Text>
+            <Text style={styles.itemDate}>{formatDate(item.updated_at)}</Text>
+          </View>
+          {item.lastMessage && (
+            <Text style={styles.itemPreview} numberOfLines={2}>
+              {item.lastMessage.role === 'user' ? 'You: ' : ''}
+              {item.lastMessage.content}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </ReanimatedSwipeable>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" transparent onRequestClose={onClose}>
+      <GestureHandlerRootView style={styles.overlay}>
+        <SafeAreaView style={styles.panel} edges={['top', 'bottom', 'left']}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Conversations</Text>
+            <TouchableOpacity onPress={onClose} style={styles.iconButton} activeOpacity={0.7}>
+              <X size={22} color={colors.text.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <TouchableOpacity style={styles.newChatButton} onPress={onNewChat} activeOpacity={0.7}>
+            <Plus size={18} color="#FFFFFF" />
+            <Text style={styles.newChatText}>New chat</Text>
+          </TouchableOpacity>
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {loading ? (
+            <View style={styles.centerContainer}>
+              <ActivityIndicator size="large" color={colors.primary} />
+            </View>
+          ) : (
+            <FlatList
+              data={conversations}
+              keyExtractor={(item) => item.id}
+              renderItem={renderConversation}
+              ListEmptyComponent={
+                <Text style={styles.emptyText}>No past conversations yet</Text>
+              }
+            />
+          )}
+        </SafeAreaView>
+
+        <TouchableOpacity style={styles.backdrop} onPress={onClose} activeOpacity={1} />
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+function formatDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  panel: {
+    width: '85%',
+    maxWidth: 360,
+    backgroundColor: colors.background,
+    shadowColor: '#000',
+    shadowOffset: { width: 2, height: 0 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  newChatButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: colors.primary,
+  },
+  newChatText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  centerContainer: {
+    paddingVertical: 32,
+    alignItems: 'center',
+  },
+  errorContainer: {
+    backgroundColor: colors.errorBackground,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 8,
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: 14,
+  },
+  item: {
+    backgroundColor: colors.surface,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  itemActive: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  itemDate: {
+    fontSize: 12,
+    color: colors.text.light,
+  },
+  itemPreview: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    lineHeight: 18,
+  },
+  deleteAction: {
+    width: 88,
+    backgroundColor: colors.error,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+  deleteActionText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+});
@@ -1,13 +1,21 @@
 import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
-import { MapPin, Clock, Heart } from 'lucide-react-native';
+import { Clock, Heart, Mountain, Route, Star, TriangleAlert } from 'lucide-react-native';
 import { colors } from '@/lib/colors';
+import type { SafetyWarning } from '@/lib/excursions-api';
 
 interface ExcursionCardProps {
   title: string;
   description: string;
   duration: string;
+  /** Route length, already formatted. */
   distance?: string;
+  /** Elevation gain, already formatted. */
+  elevationGain?: string;
   difficulty?: string;
+  /** The user's 1–5 rating after completing the excursion. */
+  rating?: number | null;
+  /** Air quality, UV, heat or pollen warnings saved with the excursion, or that none could be checked. */
+  warnings?: SafetyWarning[];
   isFavorite?: boolean;
   onPress?: () => void;
   onFavoriteToggle?: () => void;
@@ -18,7 +26,10 @@ export function ExcursionCard({
   description,
   duration,
   distance,
+  elevationGain,
   difficulty,
+  rating,
+  warnings = [],
   isFavorite = false,
   onPress,
   onFavoriteToggle,
@@ -63,20 +74,46 @@ export function ExcursionCard({
       <View style={styles.metadata}>
         {distance && (
           <View style={styles.metadataItem}>
-            <MapPin size={16} color={colors.text.secondary} />
+            <Route size={16} color={colors.text.secondary} />
             <Text style={styles.metadataText}>{distance}</Text>
           </View>
         )}
+        {elevationGain && (
+          <View style={styles.metadataItem}>
+            <Mountain size={16} color={colors.text.secondary} />
+            <Text style={styles.metadataText}>{elevationGain}</Text>
+          </View>
+        )}
         <View style={styles.metadataItem}>
           <Clock size={16} color={colors.text.secondary} />
           <Text style={styles.metadataText}>{duration}</Text>
         </View>
+        {!!rating && (
+          <View style={styles.metadataItem}>
+            <Star size={16} color={colors.warning} fill={colors.warning} />
+            <Text style={styles.metadataText}>{rating}/5</Text>
+          </View>
+        )}
       </View>
+
+      {warnings.length > 0 && (
+        <View style={styles.warning}>
+          <TriangleAlert size={14} color={colors.warning} />
+          <Text style={styles.warningText} numberOfLines={1}>
+            {capitalize(warnings[0].message)}
+            {warnings.length > 1 ? ` +${warnings.length - 1} more` : ''}
+          </Text>
+        </View>
+      )}
     </TouchableOpacity>
   );
 }
 
-function getDifficultyColor(difficulty: string) {
+function capitalize(text: string): string {
+  return text.replace(/^\w/, letter => letter.toUpperCase());
+}
+
+export function getDifficultyColor(difficulty: string) {
   switch (difficulty.toLowerCase()) {
     case 'easy':
       return { backgroundColor: '#DCFCE7' };
@@ -140,7 +177,9 @@ const styles = StyleSheet.create({
   },
   metadata: {
     flexDirection: 'row',
-    gap: 16,
+    flexWrap: 'wrap',
+    columnGap: 16,
+    rowGap: 4,
   },
   metadataItem: {
     flexDirection: 'row',
@@ -151,4 +190,20 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.text.secondary,
   },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#FEF3C7',
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
 });
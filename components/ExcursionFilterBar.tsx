@@ -0,0 +1,276 @@
+import { useState, type ReactNode } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { Search, SlidersHorizontal, X } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import {
+  DEFAULT_EXCURSION_FILTERS,
+  DURATION_RANGES,
+  type CompletionFilter,
+  type DifficultyLevel,
+  type ExcursionFilters,
+  type ExcursionSort,
+} from '@/lib/excursions-api';
+
+interface ExcursionFilterBarProps {
+  searchText: string;
+  onSearchTextChange: (text: string) => void;
+  filters: ExcursionFilters;
+  onFiltersChange: (filters: ExcursionFilters) => void;
+  sort: ExcursionSort;
+  onSortChange: (sort: ExcursionSort) => void;
+  activityOptions: string[];
+}
+
+const SORT_OPTIONS: { value: ExcursionSort; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'shortest', label: 'Shortest' },
+  { value: 'highest_rated', label: 'Highest rated' },
+];
+
+const COMPLETION_OPTIONS: { value: CompletionFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'not_completed', label: 'Not completed' },
+];
+
+const DIFFICULTY_OPTIONS: DifficultyLevel[] = ['Easy', 'Moderate', 'Challenging'];
+
+/** Number of filters that differ from the defaults; search is shown separately. */
+export function countActiveFilters(filters: ExcursionFilters): number {
+  return [
+    filters.favoritesOnly,
+    filters.completion !== 'all',
+    filters.difficulty !== null,
+    filters.duration !== null,
+    filters.activity !== null,
+  ].filter(Boolean).length;
+}
+
+export function ExcursionFilterBar({
+  searchText,
+  onSearchTextChange,
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  activityOptions,
+}: ExcursionFilterBarProps) {
+  const [expanded, setExpanded] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<ExcursionFilters>) => onFiltersChange({ ...filters, ...changes });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Search size={18} color={colors.text.secondary} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search excursions"
+          placeholderTextColor={colors.text.light}
+          value={searchText}
+          onChangeText={onSearchTextChange}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        {!!searchText && (
+          <TouchableOpacity onPress={() => onSearchTextChange('')} accessibilityLabel="Clear search">
+            <X size={18} color={colors.text.secondary} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        <TouchableOpacity
+          style={[styles.chip, (expanded || activeCount > 0) && styles.chipSelected]}
+          onPress={() => setExpanded(prev => !prev)}
+          activeOpacity={0.7}
+        >
+          <SlidersHorizontal size={14} color={expanded || activeCount > 0 ? colors.surface : colors.text.secondary} />
+          <Text style={[styles.chipText, (expanded || activeCount > 0) && styles.chipTextSelected]}>
+            {activeCount > 0 ? `Filters (${activeCount})` : 'Filters'}
+          </Text>
+        </TouchableOpacity>
+        <View style={styles.divider} />
+        {SORT_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={option.label}
+            selected={sort === option.value}
+            onPress={() => onSortChange(option.value)}
+          />
+        ))}
+      </ScrollView>
+
+      {expanded && (
+        <View style={styles.panel}>
+          <FilterGroup label="Show">
+            <Chip
+              label="Favorites only"
+              selected={filters.favoritesOnly}
+              onPress={() => update({ favoritesOnly: !filters.favoritesOnly })}
+            />
+            {COMPLETION_OPTIONS.map(option => (
+              <Chip
+                key={option.value}
+                label={option.label}
+                selected={filters.completion === option.value}
+                onPress={() => update({ completion: option.value })}
+              />
+            ))}
+          </FilterGroup>
+
+          <FilterGroup label="Difficulty">
+            {DIFFICULTY_OPTIONS.map(difficulty => (
+              <Chip
+                key={difficulty}
+                label={difficulty}
+                selected={filters.difficulty === difficulty}
+                onPress={() => update({ difficulty: filters.difficulty === difficulty ? null : difficulty })}
+              />
+            ))}
+          </FilterGroup>
+
+          <FilterGroup label="Duration">
+            {DURATION_RANGES.map(range => (
+              <Chip
+                key={range.label}
+                label={range.label}
+                selected={filters.duration?.label === range.label}
+                onPress={() => update({ duration: filters.duration?.label === range.label ? null : range })}
+              />
+            ))}
+          </FilterGroup>
+
+          {activityOptions.length > 0 && (
+            <FilterGroup label="Activity">
+              {activityOptions.map(activity => (
+                <Chip
+                  key={activity}
+                  label={activity}
+                  selected={filters.activity === activity}
+                  onPress={() => update({ activity: filters.activity === activity ? null : activity })}
+                />
+              ))}
+            </FilterGroup>
+          )}
+
+          {activeCount > 0 && (
+            <TouchableOpacity
+              style={styles.clearButton}
+              onPress={() => onFiltersChange({ ...DEFAULT_EXCURSION_FILTERS, search: filters.search })}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.clearButtonText}>Clear filters</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+function FilterGroup({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <View style={styles.group}>
+      <Text style={styles.groupLabel}>{label}</Text>
+      <View style={styles.chipContainer}>{children}</View>
+    </View>
+  );
+}
+
+function Chip({ label, selected, onPress }: { label: string; selected: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      accessibilityState={{ selected }}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+    marginBottom: 16,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  row: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  divider: {
+    width: 1,
+    height: 24,
+    backgroundColor: colors.border.medium,
+  },
+  panel: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    gap: 16,
+  },
+  group: {
+    gap: 8,
+  },
+  groupLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textTransform: 'uppercase',
+  },
+  chipContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border.medium,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.surface,
+    fontWeight: '600',
+  },
+  clearButton: {
+    alignSelf: 'flex-start',
+  },
+  clearButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
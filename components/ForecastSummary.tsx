@@ -0,0 +1,139 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { TriangleAlert } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import type { PollenDay, WeatherSnapshot } from '@/lib/weather-api';
+
+const POLLEN_LEVELS = ['None', 'Very low', 'Low', 'Moderate', 'High', 'Very high'];
+
+function capitalize(text: string): string {
+  return text.replace(/^\w/, letter => letter.toUpperCase());
+}
+
+/** The worst plant type decides the level shown. */
+function describePollen(pollen: PollenDay): string | null {
+  const levels = (['grass', 'tree', 'weed'] as const)
+    .filter(type => pollen[type] !== null)
+    .map(type => ({ type, level: pollen[type]! }));
+  if (levels.length === 0) return null;
+
+  const worst = levels.reduce((highest, entry) => (entry.level > highest.level ? entry : highest));
+  return worst.level > 0 ? `${POLLEN_LEVELS[worst.level] ?? worst.level} (${worst.type})` : POLLEN_LEVELS[0];
+}
+
+function describeRows(snapshot: WeatherSnapshot): { label: string; value: string }[] {
+  const { summary } = snapshot;
+  const minTemperature = Math.round(summary.temperature_min_c);
+  const maxTemperature = Math.round(summary.temperature_max_c);
+  const pollen = snapshot.pollen ? describePollen(snapshot.pollen) : null;
+  const gusts = summary.wind_gust_max_ms !== null ? `, gusts ${Math.round(summary.wind_gust_max_ms)} m/s` : '';
+
+  return [
+    { label: 'Conditions', value: capitalize(summary.condition) },
+    {
+      label: 'Temperature',
+      value: `${minTemperature === maxTemperature ? minTemperature : `${minTemperature}–${maxTemperature}`}°C` +
+        ` (feels like up to ${Math.round(summary.feels_like_max_c)}°C)`,
+    },
+    {
+      label: 'Chance of rain',
+      value: `${summary.precipitation_probability}%` +
+        (summary.precipitation_mm > 0 ? ` · ${summary.precipitation_mm} mm` : ''),
+    },
+    { label: 'Wind', value: `${Math.round(summary.wind_speed_max_ms)} m/s${gusts}` },
+    { label: 'UV index', value: String(Math.round(summary.uv_index_max)) },
+    ...(snapshot.air_quality ? [{ label: 'Air quality', value: snapshot.air_quality.label }] : []),
+    ...(pollen ? [{ label: 'Pollen', value: pollen }] : []),
+  ];
+}
+
+function formatWindow(snapshot: WeatherSnapshot): string {
+  const start = new Date(snapshot.window_start);
+  const end = new Date(snapshot.window_end);
+  const day = start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return snapshot.resolution === 'hourly'
+    ? `Forecast for ${day}, ${time(start)}–${time(end)}`
+    : `Daily forecast for ${day}`;
+}
+
+/** The forecast saved with an excursion, with flagged rain, heat or wind highlighted. */
+export function ForecastSummary({ snapshot }: { snapshot: WeatherSnapshot }) {
+  return (
+    <View style={styles.container}>
+      <Text style={styles.window}>{formatWindow(snapshot)}</Text>
+      {describeRows(snapshot).map(({ label, value }) => (
+        <View key={label} style={styles.row}>
+          <Text style={styles.label}>{label}</Text>
+          <Text style={styles.value}>{value}</Text>
+        </View>
+      ))}
+      {[...snapshot.hazards.map(hazard => capitalize(hazard.message)), ...snapshot.alerts.map(alert => alert.event)]
+        .map(warning => (
+          <View key={warning} style={styles.warning}>
+            <TriangleAlert size={16} color={colors.warning} />
+            <Text style={styles.warningText}>{warning}</Text>
+          </View>
+        ))}
+      {!!snapshot.note && <Text style={styles.note}>{snapshot.note}</Text>}
+      <Text style={styles.fetchedAt}>
+        Forecast from {new Date(snapshot.fetched_at).toLocaleString([], {
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  window: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: 2,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  value: {
+    flexShrink: 1,
+    fontSize: 14,
+    color: colors.text.primary,
+    textAlign: 'right',
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  note: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: 'italic',
+    color: colors.text.secondary,
+  },
+  fetchedAt: {
+    fontSize: 12,
+    color: colors.text.light,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,83 @@
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { LocateFixed, MapPin } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import type { LocationPermission } from '@/lib/device-location';
+import type { SavedPlace } from '@/lib/location-preferences-api';
+import type { DeviceLocation } from '@/hooks/useDeviceLocation';
+
+interface LocationStatusBarProps {
+  permission: LocationPermission | null;
+  location: DeviceLocation | null;
+  loading: boolean;
+  error: string | null;
+  /** Used by the assistant when the device location is not shared. */
+  homeBase: SavedPlace | null;
+  onRequestLocation: () => void;
+}
+
+/** Tells the user which location the plan is based on, with a one-tap switch to the device location. */
+export function LocationStatusBar({
+  permission,
+  location,
+  loading,
+  error,
+  homeBase,
+  onRequestLocation,
+}: LocationStatusBarProps) {
+  if (loading && !location) {
+    return (
+      <View style={styles.bar}>
+        <ActivityIndicator size="small" color={colors.primary} />
+        <Text style={styles.text}>Finding your location…</Text>
+      </View>
+    );
+  }
+
+  if (location) {
+    return (
+      <View style={styles.bar}>
+        <LocateFixed size={16} color={colors.primary} />
+        <Text style={styles.text} numberOfLines={1}>
+          Planning near {location.address ?? 'your current location'}
+        </Text>
+      </View>
+    );
+  }
+
+  const fallback = homeBase ? `Planning from your home base, ${homeBase.name}.` : 'No location set.';
+  const status = error
+    ?? (permission === 'blocked' ? `Location access is off. ${fallback}` : fallback);
+
+  return (
+    <View style={styles.bar}>
+      <MapPin size={16} color={colors.text.secondary} />
+      <Text style={styles.text} numberOfLines={2}>{status}</Text>
+      <TouchableOpacity onPress={onRequestLocation} activeOpacity={0.7}>
+        <Text style={styles.action}>{permission === 'blocked' ? 'Open Settings' : 'Use my current location'}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  action: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+});
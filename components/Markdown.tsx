@@ -0,0 +1,255 @@
+import { Fragment, useMemo, useState, type ReactNode } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Platform, type StyleProp, type ViewStyle } from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { ChevronDown, ChevronRight, Code } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import { parseMarkdown, type InlineNode, type MarkdownBlock } from '@/lib/markdown';
+
+interface MarkdownProps {
+  content: string;
+  /** Rendered inline at the end of the last text block, e.g. a streaming cursor. */
+  trailing?: ReactNode;
+}
+
+const MONOSPACE_FONT = Platform.select({ ios: 'Menlo', default: 'monospace' });
+
+export function Markdown({ content, trailing }: MarkdownProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  const lastBlock = blocks[blocks.length - 1];
+  const trailingInBlock = lastBlock !== undefined && lastBlock.type !== 'code' && lastBlock.type !== 'rule';
+
+  return (
+    <View>
+      {blocks.map((block, index) => (
+        <MarkdownBlockView
+          key={index}
+          block={block}
+          isFirst={index === 0}
+          trailing={index === blocks.length - 1 ? trailing : undefined}
+        />
+      ))}
+      {!trailingInBlock && trailing && <Text style={styles.text}>{trailing}</Text>}
+    </View>
+  );
+}
+
+/** True when the content has something to show once structured (JSON) blocks are removed. */
+export function hasVisibleMarkdown(content: string): boolean {
+  return parseMarkdown(content).length > 0;
+}
+
+function MarkdownBlockView({
+  block,
+  isFirst,
+  trailing,
+}: {
+  block: MarkdownBlock;
+  isFirst: boolean;
+  trailing?: ReactNode;
+}) {
+  const spacing = isFirst ? null : styles.blockSpacing;
+
+  switch (block.type) {
+    case 'heading':
+      return (
+        <Text style={[styles.text, styles.heading, block.level <= 2 && styles.headingLarge, spacing]}>
+          <InlineNodes nodes={block.children} />
+          {trailing}
+        </Text>
+      );
+    case 'paragraph':
+      return (
+        <Text style={[styles.text, spacing]}>
+          <InlineNodes nodes={block.children} />
+          {trailing}
+        </Text>
+      );
+    case 'quote':
+      return (
+        <View style={[styles.quote, spacing]}>
+          <Text style={[styles.text, styles.quoteText]}>
+            <InlineNodes nodes={block.children} />
+            {trailing}
+          </Text>
+        </View>
+      );
+    case 'list':
+      return (
+        <View style={spacing}>
+          {block.items.map((item, index) => (
+            <View key={index} style={[styles.listItem, { paddingLeft: item.depth * 16 }]}>
+              <Text style={[styles.text, styles.listMarker]}>{item.marker}</Text>
+              <Text style={[styles.text, styles.listText]}>
+                <InlineNodes nodes={item.children} />
+                {index === block.items.length - 1 && trailing}
+              </Text>
+            </View>
+          ))}
+        </View>
+      );
+    case 'code':
+      return <CodeBlock language={block.language} text={block.text} style={spacing} />;
+    case 'rule':
+      return <View style={[styles.rule, spacing]} />;
+  }
+}
+
+function InlineNodes({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <Fragment key={index}>{node.text}</Fragment>;
+          case 'strong':
+            return (
+              <Text key={index} style={styles.strong}>
+                <InlineNodes nodes={node.children} />
+              </Text>
+            );
+          case 'emphasis':
+            return (
+              <Text key={index} style={styles.emphasis}>
+                <InlineNodes nodes={node.children} />
+              </Text>
+            );
+          case 'code':
+            return (
+              <Text key={index} style={styles.inlineCode}>
+                {node.text}
+              </Text>
+            );
+          case 'link':
+            // Links come from the model, so only web URLs are opened; anything else is shown as text.
+            return isWebUrl(node.url) ? (
+              <Text key={index} style={styles.link} accessibilityRole="link" onPress={() => openLink(node.url)}>
+                <InlineNodes nodes={node.children} />
+              </Text>
+            ) : (
+              <Fragment key={index}>
+                <InlineNodes nodes={node.children} />
+              </Fragment>
+            );
+        }
+      })}
+    </>
+  );
+}
+
+function isWebUrl(url: string): boolean {
+  return /^https?:\/\/[^\s]+$/i.test(url.trim());
+}
+
+function openLink(url: string) {
+  WebBrowser.openBrowserAsync(url.trim()).catch(err => console.error('Error opening link:', err));
+}
+
+/** Code is collapsed by default; replies are read on small screens. */
+function CodeBlock({ language, text, style }: { language: string; text: string; style: StyleProp<ViewStyle> }) {
+  const [expanded, setExpanded] = useState(false);
+  const Chevron = expanded ? ChevronDown : ChevronRight;
+
+  return (
+    <View style={[styles.codeBlock, style]}>
+      <TouchableOpacity
+        style={styles.codeHeader}
+        onPress={() => setExpanded(prev => !prev)}
+        activeOpacity={0.7}
+      >
+        <Chevron size={16} color={colors.text.secondary} />
+        <Code size={16} color={colors.text.secondary} />
+        <Text style={styles.codeLabel}>{language || 'Code'}</Text>
+      </TouchableOpacity>
+      {expanded && (
+        <ScrollView horizontal style={styles.codeBody}>
+          <Text style={styles.codeText}>{text}</Text>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 16,
+    lineHeight: 22,
+    color: colors.text.primary,
+  },
+  blockSpacing: {
+    marginTop: 8,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  headingLarge: {
+    fontSize: 18,
+    lineHeight: 24,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  emphasis: {
+    fontStyle: 'italic',
+  },
+  inlineCode: {
+    fontFamily: MONOSPACE_FONT,
+    fontSize: 14,
+    backgroundColor: colors.background,
+  },
+  link: {
+    color: colors.primary,
+    textDecorationLine: 'underline',
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primaryLight,
+    paddingLeft: 10,
+  },
+  quoteText: {
+    color: colors.text.secondary,
+  },
+  listItem: {
+    flexDirection: 'row',
+    marginTop: 2,
+  },
+  listMarker: {
+    minWidth: 20,
+    color: colors.text.secondary,
+  },
+  listText: {
+    flexShrink: 1,
+  },
+  rule: {
+    height: 1,
+    backgroundColor: colors.border.light,
+  },
+  codeBlock: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    backgroundColor: colors.background,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  codeLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  codeBody: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border.light,
+    padding: 10,
+  },
+  codeText: {
+    fontFamily: MONOSPACE_FONT,
+    fontSize: 13,
+    lineHeight: 18,
+    color: colors.text.primary,
+  },
+});
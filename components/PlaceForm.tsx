@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { LocateFixed, Search } from 'lucide-react-native';
+import { Input } from '@/components/Input';
+import { colors } from '@/lib/colors';
+import { placesAPI } from '@/lib/places-api';
+import type { SavedPlace } from '@/lib/location-preferences-api';
+import type { DeviceLocation } from '@/hooks/useDeviceLocation';
+
+interface PlaceFormProps {
+  initialPlace?: SavedPlace | null;
+  defaultName: string;
+  submitLabel: string;
+  onSubmit: (place: SavedPlace) => void;
+  onCancel?: () => void;
+  /** Asks for location access if needed and resolves with the device location. */
+  onRequestLocation: () => Promise<DeviceLocation | null>;
+}
+
+/** Names a place and pins it to coordinates, from the device location or a typed address. */
+export function PlaceForm({
+  initialPlace,
+  defaultName,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  onRequestLocation,
+}: PlaceFormProps) {
+  const [name, setName] = useState(initialPlace?.name ?? '');
+  const [address, setAddress] = useState(initialPlace?.address ?? '');
+  const [coordinate, setCoordinate] = useState(
+    initialPlace ? { lat: initialPlace.lat, lng: initialPlace.lng } : null
+  );
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pinCurrentLocation = async () => {
+    setBusy(true);
+    setError(null);
+
+    const location = await onRequestLocation();
+    if (location) {
+      setCoordinate({ lat: location.lat, lng: location.lng });
+      setAddress(location.address ?? '');
+    } else {
+      setError('Your location is not available. Enter an address instead.');
+    }
+    setBusy(false);
+  };
+
+  const lookUpAddress = async () => {
+    if (!address.trim()) {
+      setError('Enter an address to look up');
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const { results: [found] } = await placesAPI.geocode(address.trim());
+      if (found) {
+        setCoordinate({ lat: found.lat, lng: found.lng });
+        setAddress(found.address);
+      } else {
+        setError('That address could not be found');
+      }
+    } catch (err) {
+      console.error('Error looking up address:', err);
+      setError('Address lookup is not available right now');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!coordinate) {
+      setError('Use your current location or look up an address first');
+      return;
+    }
+
+    onSubmit({
+      name: name.trim() || defaultName,
+      ...(address.trim() && { address: address.trim() }),
+      ...coordinate,
+    });
+  };
+
+  return (
+    <View>
+      <Input label="Name" placeholder={defaultName} value={name} onChangeText={setName} autoCapitalize="words" />
+      <Input
+        label="Address"
+        placeholder="Street, town or postcode"
+        value={address}
+        onChangeText={text => {
+          setAddress(text);
+          setCoordinate(null);
+        }}
+        onSubmitEditing={lookUpAddress}
+        returnKeyType="search"
+      />
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.action} onPress={pinCurrentLocation} disabled={busy} activeOpacity={0.7}>
+          <LocateFixed size={16} color={colors.primary} />
+          <Text style={styles.actionText}>Use my current location</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={lookUpAddress} disabled={busy} activeOpacity={0.7}>
+          <Search size={16} color={colors.primary} />
+          <Text style={styles.actionText}>Find address</Text>
+        </TouchableOpacity>
+      </View>
+
+      {busy ? (
+        <ActivityIndicator style={styles.status} color={colors.primary} />
+      ) : error ? (
+        <Text style={[styles.status, styles.error]}>{error}</Text>
+      ) : coordinate ? (
+        <Text style={styles.status}>
+          Pinned at {coordinate.lat.toFixed(4)}, {coordinate.lng.toFixed(4)}
+        </Text>
+      ) : null}
+
+      <View style={styles.buttons}>
+        {onCancel && (
+          <TouchableOpacity style={styles.button} onPress={onCancel} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[styles.button, styles.submitButton, !coordinate && styles.submitDisabled]}
+          onPress={handleSubmit}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.submitText}>{submitLabel}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+  },
+  status: {
+    marginTop: 12,
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+  error: {
+    color: colors.error,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+  },
+  submitButton: {
+    backgroundColor: colors.primary,
+  },
+  submitDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.surface,
+  },
+  cancelText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+});
@@ -0,0 +1,74 @@
+import { StyleSheet, View, Platform, type StyleProp, type ViewStyle } from 'react-native';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
+import { colors } from '@/lib/colors';
+import { getMapRegion } from '@/lib/map-region';
+import type { Coordinate } from '@/lib/geo';
+import type { ExcursionLocation, ExcursionWaypoint } from '@/lib/excursions-api';
+
+export interface RouteMapProps {
+  location: ExcursionLocation;
+  route: ExcursionWaypoint[] | null;
+  /** Recorded breadcrumbs, one array per stretch walked between pauses. */
+  trail?: Coordinate[][];
+  showsUserLocation?: boolean;
+  style?: StyleProp<ViewStyle>;
+}
+
+export function RouteMap({ location, route, trail = [], showsUserLocation = false, style }: RouteMapProps) {
+  const waypoints = route ?? [];
+  const region = getMapRegion([location, ...waypoints]);
+
+  return (
+    <View style={[styles.container, style]}>
+      <MapView
+        style={StyleSheet.absoluteFill}
+        provider={Platform.OS === 'android' ? PROVIDER_GOOGLE : undefined}
+        initialRegion={region}
+        showsUserLocation={showsUserLocation}
+        toolbarEnabled={false}
+      >
+        <Marker
+          coordinate={{ latitude: location.lat, longitude: location.lng }}
+          title={location.address}
+          pinColor={colors.primary}
+        />
+        {waypoints.length > 1 && (
+          <Polyline
+            coordinates={waypoints.map(point => ({ latitude: point.lat, longitude: point.lng }))}
+            strokeColor={colors.primary}
+            strokeWidth={4}
+          />
+        )}
+        {trail.map((segment, index) =>
+          segment.length > 1 ? (
+            <Polyline
+              key={`trail-${index}`}
+              coordinates={segment.map(point => ({ latitude: point.lat, longitude: point.lng }))}
+              strokeColor={colors.warning}
+              strokeWidth={5}
+            />
+          ) : null
+        )}
+        {waypoints.map(point =>
+          point.name ? (
+            <Marker
+              key={point.order}
+              coordinate={{ latitude: point.lat, longitude: point.lng }}
+              title={point.name}
+              pinColor={colors.primaryLight}
+            />
+          ) : null
+        )}
+      </MapView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 260,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: colors.border.light,
+  },
+});
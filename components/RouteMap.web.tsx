@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import { StyleSheet, View, Text } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+import type { RouteMapProps } from './RouteMap';
+
+// The parts of the Google Maps JavaScript API this map uses.
+interface LatLngLiteral {
+  lat: number;
+  lng: number;
+}
+
+interface GoogleMap {
+  fitBounds(bounds: LatLngBounds, padding?: number): void;
+}
+
+interface MapOverlay {
+  setMap(map: GoogleMap | null): void;
+}
+
+interface LatLngBounds {
+  extend(point: LatLngLiteral): void;
+}
+
+interface GoogleMapsApi {
+  Map: new (
+    element: HTMLElement,
+    options: { center: LatLngLiteral; zoom: number; disableDefaultUI?: boolean; zoomControl?: boolean }
+  ) => GoogleMap;
+  Marker: new (options: { map: GoogleMap; position: LatLngLiteral; title?: string }) => MapOverlay;
+  Polyline: new (options: {
+    map: GoogleMap;
+    path: LatLngLiteral[];
+    strokeColor: string;
+    strokeWeight: number;
+  }) => MapOverlay;
+  LatLngBounds: new () => LatLngBounds;
+}
+
+declare global {
+  interface Window {
+    google?: { maps?: GoogleMapsApi };
+  }
+}
+
+// react-native-maps has no web implementation, so the web build draws the same
+// map with the Google Maps JavaScript API.
+let googleMapsPromise: Promise<GoogleMapsApi> | null = null;
+
+function loadGoogleMaps(apiKey: string): Promise<GoogleMapsApi> {
+  const existing = window.google?.maps;
+  if (existing) {
+    return Promise.resolve(existing);
+  }
+
+  if (!googleMapsPromise) {
+    googleMapsPromise = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = `https://maps.googleapis.com/maps/api/js?key=${encodeURIComponent(apiKey)}`;
+      script.async = true;
+      script.onload = () => {
+        const maps = window.google?.maps;
+        if (maps) {
+          resolve(maps);
+        } else {
+          googleMapsPromise = null;
+          reject(new Error('Google Maps loaded without its API'));
+        }
+      };
+      script.onerror = () => {
+        googleMapsPromise = null;
+        reject(new Error('Failed to load Google Maps'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+
+  return googleMapsPromise;
+}
+
+export function RouteMap({ location, route, trail = [], style }: RouteMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [map, setMap] = useState<{ maps: GoogleMapsApi; routeMap: GoogleMap } | null>(null);
+  const [failed, setFailed] = useState(false);
+  const apiKey = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
+
+  useEffect(() => {
+    if (!apiKey || !containerRef.current) return;
+
+    let cancelled = false;
+    const waypoints = route ?? [];
+
+    loadGoogleMaps(apiKey)
+      .then(maps => {
+        if (cancelled || !containerRef.current) return;
+
+        const center = { lat: location.lat, lng: location.lng };
+        const routeMap = new maps.Map(containerRef.current, {
+          center,
+          zoom: 14,
+          disableDefaultUI: true,
+          zoomControl: true,
+        });
+
+        new maps.Marker({ map: routeMap, position: center, title: location.address });
+
+        if (waypoints.length > 1) {
+          const path = waypoints.map(point => ({ lat: point.lat, lng: point.lng }));
+          new maps.Polyline({
+            map: routeMap,
+            path,
+            strokeColor: colors.primary,
+            strokeWeight: 4,
+          });
+
+          const bounds = new maps.LatLngBounds();
+          [center, ...path].forEach(point => bounds.extend(point));
+          routeMap.fitBounds(bounds, 32);
+        }
+
+        setMap({ maps, routeMap });
+      })
+      .catch(error => {
+        console.error('Error loading map:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiKey, location, route]);
+
+  // Drawn separately so a growing trail does not rebuild the whole map.
+  useEffect(() => {
+    if (!map) return;
+
+    const polylines = trail.map(segment => new map.maps.Polyline({
+      map: map.routeMap,
+      path: segment,
+      strokeColor: colors.warning,
+      strokeWeight: 5,
+    }));
+
+    return () => polylines.forEach(polyline => polyline.setMap(null));
+  }, [map, trail]);
+
+  if (!apiKey || failed) {
+    return (
+      <View style={[styles.container, styles.fallback, style]}>
+        <MapPin size={24} color={colors.text.secondary} />
+        <Text style={styles.fallbackText}>{location.address || `${location.lat}, ${location.lng}`}</Text>
+        <Text style={styles.fallbackHint}>Map preview unavailable</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, style]}>
+      <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 260,
+    borderRadius: 16,
+    overflow: 'hidden',
+    backgroundColor: colors.border.light,
+  },
+  fallback: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 4,
+    padding: 16,
+  },
+  fallbackText: {
+    fontSize: 14,
+    color: colors.text.primary,
+    textAlign: 'center',
+  },
+  fallbackHint: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+});
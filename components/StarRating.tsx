@@ -0,0 +1,58 @@
+import { View, TouchableOpacity, StyleSheet } from 'react-native';
+import { Star } from 'lucide-react-native';
+import { colors } from '@/lib/colors';
+
+interface StarRatingProps {
+  rating: number | null;
+  /** Makes the stars tappable; tapping the current rating clears it. */
+  onChange?: (rating: number | null) => void;
+  size?: number;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+export function StarRating({ rating, onChange, size = 20 }: StarRatingProps) {
+  return (
+    <View style={styles.container}>
+      {STARS.map(star => {
+        const filled = rating !== null && star <= rating;
+        const icon = (
+          <Star
+            size={size}
+            color={filled ? colors.warning : colors.border.medium}
+            fill={filled ? colors.warning : 'transparent'}
+          />
+        );
+
+        if (!onChange) {
+          return <View key={star}>{icon}</View>;
+        }
+
+        return (
+          <TouchableOpacity
+            key={star}
+            style={styles.button}
+            onPress={() => onChange(star === rating ? null : star)}
+            accessibilityRole="button"
+            accessibilityLabel={`${star} star${star > 1 ? 's' : ''}`}
+            accessibilityState={{ selected: filled }}
+            activeOpacity={0.7}
+          >
+            {icon}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  button: {
+    padding: 4,
+  },
+});
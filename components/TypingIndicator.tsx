@@ -0,0 +1,79 @@
+import { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Animated } from 'react-native';
+import { colors } from '@/lib/colors';
+
+interface TypingIndicatorProps {
+  label: string;
+}
+
+const DOT_COUNT = 3;
+const DOT_STAGGER_MS = 160;
+const DOT_FADE_MS = 320;
+
+export function TypingIndicator({ label }: TypingIndicatorProps) {
+  const dots = useRef(Array.from({ length: DOT_COUNT }, () => new Animated.Value(0.3))).current;
+
+  useEffect(() => {
+    const animation = Animated.loop(
+      Animated.stagger(
+        DOT_STAGGER_MS,
+        dots.map(dot =>
+          Animated.sequence([
+            Animated.timing(dot, { toValue: 1, duration: DOT_FADE_MS, useNativeDriver: true }),
+            Animated.timing(dot, { toValue: 0.3, duration: DOT_FADE_MS, useNativeDriver: true }),
+          ])
+        )
+      )
+    );
+
+    animation.start();
+    return () => animation.stop();
+  }, [dots]);
+
+  return (
+    <View style={styles.container} accessibilityRole="progressbar" accessibilityLabel={`${label}…`}>
+      <View style={styles.bubble}>
+        <Text style={styles.label}>{label}</Text>
+        <View style={styles.dots}>
+          {dots.map((opacity, index) => (
+            <Animated.View key={index} style={[styles.dot, { opacity }]} />
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 4,
+    paddingHorizontal: 16,
+    alignItems: 'flex-start',
+  },
+  bubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 20,
+    borderBottomLeftRadius: 4,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  label: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+});
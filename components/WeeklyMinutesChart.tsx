@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, type LayoutChangeEvent } from 'react-native';
+import Svg, { Line, Rect } from 'react-native-svg';
+import { colors } from '@/lib/colors';
+import type { WeeklyNatureTime } from '@/lib/progress-api';
+
+interface WeeklyMinutesChartProps {
+  weeks: WeeklyNatureTime[];
+  goalMinutes: number;
+  height?: number;
+}
+
+const BAR_GAP = 6;
+const TOP_PADDING = 8;
+
+/** One bar per week, oldest on the left; bars that reach the dashed goal line are filled in. */
+export function WeeklyMinutesChart({ weeks, goalMinutes, height = 140 }: WeeklyMinutesChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const maxMinutes = Math.max(goalMinutes, ...weeks.map(week => week.minutes));
+  const plotHeight = height - TOP_PADDING;
+  const barWidth = weeks.length > 0 ? (width - BAR_GAP * (weeks.length - 1)) / weeks.length : 0;
+  const y = (minutes: number) => TOP_PADDING + plotHeight - (minutes / maxMinutes) * plotHeight;
+
+  return (
+    <View>
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            {weeks.map((week, index) => (
+              <Rect
+                key={week.week_start}
+                x={index * (barWidth + BAR_GAP)}
+                y={y(week.minutes)}
+                width={barWidth}
+                height={Math.max(height - y(week.minutes), 0)}
+                rx={4}
+                fill={week.minutes >= goalMinutes ? colors.primary : colors.primaryLight}
+                opacity={week.minutes >= goalMinutes ? 1 : 0.45}
+              />
+            ))}
+            <Line
+              x1={0}
+              x2={width}
+              y1={y(goalMinutes)}
+              y2={y(goalMinutes)}
+              stroke={colors.warning}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          </Svg>
+        )}
+      </View>
+      <View style={styles.axisLabels}>
+        <Text style={styles.axisLabel}>{formatWeek(weeks[0]?.week_start)}</Text>
+        <Text style={styles.axisLabel}>This week</Text>
+      </View>
+    </View>
+  );
+}
+
+function formatWeek(weekStart: string | undefined): string {
+  if (!weekStart) return '';
+  // Parse as a local date; `new Date('YYYY-MM-DD')` would be midnight UTC.
+  const [year, month, day] = weekStart.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+const styles = StyleSheet.create({
+  axisLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  axisLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+});
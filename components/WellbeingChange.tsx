@@ -0,0 +1,63 @@
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '@/lib/colors';
+import { METRICS, formatChange, isImprovement, type CheckInPair } from '@/lib/wellbeing';
+
+/** Before → after scores for one excursion, with improvements in green. */
+export function WellbeingChange({ pair }: { pair: CheckInPair }) {
+  return (
+    <View style={styles.container}>
+      {METRICS.map(metric => {
+        const change = pair.change[metric.key];
+        const changeColor = change === 0
+          ? colors.text.secondary
+          : isImprovement(metric, change) ? colors.success : colors.error;
+
+        return (
+          <View key={metric.key} style={styles.row}>
+            <Text style={styles.label}>{metric.label}</Text>
+            <Text style={styles.scores}>
+              {pair.before[metric.key]} → {pair.after[metric.key]}
+            </Text>
+            <Text style={[styles.change, { color: changeColor }]}>{formatChange(change)}</Text>
+          </View>
+        );
+      })}
+      {!!pair.after.notes && <Text style={styles.notes}>{pair.after.notes}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  scores: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    fontVariant: ['tabular-nums'],
+  },
+  change: {
+    minWidth: 44,
+    fontSize: 14,
+    fontWeight: '700',
+    textAlign: 'right',
+    fontVariant: ['tabular-nums'],
+  },
+  notes: {
+    marginTop: 4,
+    fontSize: 14,
+    lineHeight: 20,
+    fontStyle: 'italic',
+    color: colors.text.secondary,
+  },
+});
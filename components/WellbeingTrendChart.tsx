@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { View, Text, StyleSheet, type LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { colors } from '@/lib/colors';
+import { METRICS, type CheckInPair } from '@/lib/wellbeing';
+
+interface WellbeingTrendChartProps {
+  pairs: CheckInPair[];
+  height?: number;
+}
+
+const PADDING = 8;
+const MIN_RANGE = 3;
+
+/**
+ * Plots the before → after change of each metric across excursions, oldest on
+ * the left. Points above the middle line mean the score went up.
+ */
+export function WellbeingTrendChart({ pairs, height = 160 }: WellbeingTrendChartProps) {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width);
+
+  const range = Math.max(
+    MIN_RANGE,
+    ...pairs.flatMap(pair => METRICS.map(metric => Math.abs(pair.change[metric.key])))
+  );
+  const plotWidth = width - PADDING * 2;
+  const plotHeight = height - PADDING * 2;
+  const x = (index: number) =>
+    PADDING + (pairs.length === 1 ? plotWidth / 2 : (index / (pairs.length - 1)) * plotWidth);
+  const y = (change: number) => PADDING + ((range - change) / (range * 2)) * plotHeight;
+
+  return (
+    <View>
+      <View style={{ height }} onLayout={handleLayout}>
+        {width > 0 && (
+          <Svg width={width} height={height}>
+            <Line
+              x1={PADDING}
+              x2={width - PADDING}
+              y1={y(0)}
+              y2={y(0)}
+              stroke={colors.border.medium}
+              strokeDasharray="4 4"
+            />
+            {METRICS.map(metric => (
+              <Polyline
+                key={metric.key}
+                points={pairs.map((pair, index) => `${x(index)},${y(pair.change[metric.key])}`).join(' ')}
+                fill="none"
+                stroke={metric.color}
+                strokeWidth={2}
+              />
+            ))}
+            {METRICS.flatMap(metric =>
+              pairs.map((pair, index) => (
+                <Circle
+                  key={`${metric.key}-${pair.after.id}`}
+                  cx={x(index)}
+                  cy={y(pair.change[metric.key])}
+                  r={3}
+                  fill={metric.color}
+                />
+              ))
+            )}
+          </Svg>
+        )}
+      </View>
+
+      <View style={styles.axisLabels}>
+        <Text style={styles.axisLabel}>{formatDate(pairs[0]?.after.created_at)}</Text>
+        <Text style={styles.axisLabel}>{formatDate(pairs[pairs.length - 1]?.after.created_at)}</Text>
+      </View>
+
+      <View style={styles.legend}>
+        {METRICS.map(metric => (
+          <View key={metric.key} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: metric.color }]} />
+            <Text style={styles.legendText}>{metric.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+function formatDate(timestamp: string | undefined): string {
+  return timestamp ? new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' }) : '';
+}
+
+const styles = StyleSheet.create({
+  axisLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  axisLabel: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  legendText: {
+    fontSize: 12,
+    color: colors.text.secondary,
+  },
+});
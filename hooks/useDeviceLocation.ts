@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppState, Linking } from 'react-native';
+import {
+  describeLocation,
+  getGrantedLocation,
+  getLocationPermission,
+  requestLocationPermission,
+  type LocationPermission,
+} from '@/lib/device-location';
+import type { Coordinate } from '@/lib/geo';
+
+export interface DeviceLocation extends Coordinate {
+  address?: string;
+}
+
+export interface DeviceLocationState {
+  /** Null until the permission has been checked. */
+  permission: LocationPermission | null;
+  location: DeviceLocation | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * The device's location and permission state. The position is read on mount
+ * only when access was granted before; `requestLocation` prompts for access,
+ * or opens the system settings once the prompt is no longer available. Access
+ * granted in the settings is picked up when the app comes back to the foreground.
+ */
+export function useDeviceLocation() {
+  const [state, setState] = useState<DeviceLocationState>({
+    permission: null,
+    location: null,
+    loading: true,
+    error: null,
+  });
+  // Read by the foreground listener, which is only subscribed once.
+  const permissionRef = useRef<LocationPermission | null>(null);
+
+  const readPosition = useCallback(async (permission: LocationPermission) => {
+    permissionRef.current = permission;
+    if (permission !== 'granted') {
+      setState({ permission, location: null, loading: false, error: null });
+      return null;
+    }
+
+    try {
+      const position = await getGrantedLocation();
+      const location = position ? { ...position, address: await describeLocation(position) } : null;
+      setState({
+        permission,
+        location,
+        loading: false,
+        error: location ? null : 'Your location is not available right now',
+      });
+      return location;
+    } catch (err) {
+      console.error('Error reading device location:', err);
+      setState({ permission, location: null, loading: false, error: 'Your location is not available right now' });
+      return null;
+    }
+  }, []);
+
+  const checkPermission = useCallback(async () => {
+    try {
+      await readPosition(await getLocationPermission());
+    } catch (err) {
+      console.error('Error checking location permission:', err);
+      setState(prev => ({ ...prev, loading: false }));
+    }
+  }, [readPosition]);
+
+  useEffect(() => {
+    checkPermission();
+
+    const subscription = AppState.addEventListener('change', appState => {
+      if (appState === 'active' && permissionRef.current !== null && permissionRef.current !== 'granted') {
+        checkPermission();
+      }
+    });
+    return () => subscription.remove();
+  }, [checkPermission]);
+
+  const requestLocation = useCallback(async (): Promise<DeviceLocation | null> => {
+    if (state.permission === 'blocked') {
+      await Linking.openSettings();
+      return null;
+    }
+
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    try {
+      return await readPosition(await requestLocationPermission());
+    } catch (err) {
+      console.error('Error requesting location permission:', err);
+      setState(prev => ({ ...prev, loading: false, error: 'Could not request location access' }));
+      return null;
+    }
+  }, [state.permission, readPosition]);
+
+  return { ...state, requestLocation };
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ExcursionTracker, type TrackingSnapshot } from '@/lib/excursion-tracker';
+import { excursionSessionsAPI } from '@/lib/excursion-sessions-api';
+import { excursionsAPI } from '@/lib/excursions-api';
+import type { LocationSource } from '@/lib/location-source';
+
+const AUTOSAVE_INTERVAL_MS = 15_000;
+const CLOCK_TICK_MS = 1000;
+
+const EMPTY_SNAPSHOT: TrackingSnapshot = {
+  status: 'idle',
+  elapsedSeconds: 0,
+  distanceMeters: 0,
+  breadcrumbs: [],
+};
+
+/**
+ * Drives an ExcursionTracker for one excursion and keeps its session row in
+ * sync. An unfinished session is picked up paused; leaving the screen pauses
+ * and saves the current one.
+ */
+export function useExcursionTracker(excursionId: string | undefined, source: LocationSource | null) {
+  const trackerRef = useRef<ExcursionTracker | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const [snapshot, setSnapshot] = useState<TrackingSnapshot>(EMPTY_SNAPSHOT);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = useCallback(async () => {
+    const tracker = trackerRef.current;
+    const sessionId = sessionIdRef.current;
+    if (!tracker || !sessionId) return;
+
+    try {
+      await excursionSessionsAPI.saveProgress(sessionId, tracker.getSnapshot());
+    } catch (err) {
+      console.error('Error saving session:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!excursionId || !source) return;
+
+    let cancelled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const session = await excursionSessionsAPI.getUnfinishedSession(excursionId);
+        if (cancelled) return;
+
+        const tracker = new ExcursionTracker(source, {
+          initial: session
+            ? {
+                elapsedSeconds: session.elapsed_seconds,
+                distanceMeters: session.distance_meters,
+                breadcrumbs: session.breadcrumbs,
+              }
+            : undefined,
+        });
+
+        trackerRef.current = tracker;
+        sessionIdRef.current = session?.id ?? null;
+        unsubscribe = tracker.subscribe(setSnapshot);
+        setSnapshot(tracker.getSnapshot());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load session');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      const tracker = trackerRef.current;
+      if (tracker?.getSnapshot().status === 'active') {
+        tracker.pause();
+        save();
+      }
+      trackerRef.current = null;
+    };
+  }, [excursionId, source, save]);
+
+  const isActive = snapshot.status === 'active';
+
+  useEffect(() => {
+    if (!isActive) return;
+
+    const clock = setInterval(() => {
+      if (trackerRef.current) setSnapshot(trackerRef.current.getSnapshot());
+    }, CLOCK_TICK_MS);
+    const autosave = setInterval(save, AUTOSAVE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(clock);
+      clearInterval(autosave);
+    };
+  }, [isActive, save]);
+
+  /** Starts or resumes tracking and returns the session ID, or null if it failed. */
+  const start = useCallback(async (): Promise<string | null> => {
+    const tracker = trackerRef.current;
+    if (!tracker || !excursionId) return null;
+
+    try {
+      setError(null);
+      if (!sessionIdRef.current) {
+        sessionIdRef.current = (await excursionSessionsAPI.startSession(excursionId)).id;
+      }
+      await tracker.start();
+      await save();
+      return sessionIdRef.current;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start tracking');
+      return null;
+    }
+  }, [excursionId, save]);
+
+  const pause = useCallback(async () => {
+    trackerRef.current?.pause();
+    await save();
+  }, [save]);
+
+  /**
+   * Stops tracking, stores the session as completed and returns its ID. The
+   * excursion is marked done here too, so rating it afterwards is optional.
+   */
+  const finish = useCallback(async (): Promise<string | null> => {
+    const tracker = trackerRef.current;
+    const sessionId = sessionIdRef.current;
+    if (!tracker || !sessionId || !excursionId) return null;
+
+    // The tracker only completes once the session is stored; until then it stays
+    // paused, so a failed save leaves Resume and Finish available.
+    tracker.pause();
+    await excursionSessionsAPI.saveProgress(sessionId, { ...tracker.getSnapshot(), status: 'completed' });
+    await excursionsAPI.markCompleted(excursionId, new Date().toISOString());
+    tracker.finish();
+    return sessionId;
+  }, [excursionId]);
+
+  return { snapshot, loading, error, start, pause, finish };
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getGrantedLocation, requestCurrentLocation } from '@/lib/device-location';
+import { rankOutdoorWindows, type OutdoorWindow } from '@/lib/outdoor-windows';
+import { weatherAPI } from '@/lib/weather-api';
+import type { Coordinate } from '@/lib/geo';
+
+export interface OutdoorWindowsState {
+  windows: OutdoorWindow[];
+  /** Where the forecast is for; null until a location is known. */
+  location: Coordinate | null;
+  loading: boolean;
+  error: string | null;
+  /** True when neither the device location nor a home base is available. */
+  needsLocation: boolean;
+}
+
+/**
+ * Today's best times to be outside. Uses the device location when access has
+ * already been granted, otherwise the home base; `requestLocation` asks
+ * for access and reloads.
+ */
+export function useOutdoorWindows(preferredActivities: string[], homeBase: Coordinate | null, enabled = true) {
+  const [state, setState] = useState<OutdoorWindowsState>({
+    windows: [],
+    location: null,
+    loading: enabled,
+    error: null,
+    needsLocation: false,
+  });
+  const activitiesKey = preferredActivities.join('|');
+  const homeLat = homeBase?.lat;
+  const homeLng = homeBase?.lng;
+
+  const load = useCallback(async (location?: Coordinate | null) => {
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    try {
+      const home = homeLat !== undefined && homeLng !== undefined ? { lat: homeLat, lng: homeLng } : null;
+      const resolved = location ?? await getGrantedLocation().catch(() => null) ?? home;
+      if (!resolved) {
+        setState({ windows: [], location: null, loading: false, error: null, needsLocation: true });
+        return;
+      }
+
+      const forecast = await weatherAPI.getForecast(resolved.lat, resolved.lng);
+      setState({
+        windows: rankOutdoorWindows(forecast, activitiesKey ? activitiesKey.split('|') : []),
+        location: resolved,
+        loading: false,
+        error: null,
+        needsLocation: false,
+      });
+    } catch (err) {
+      console.error('Error loading outdoor windows:', err);
+      setState(prev => ({ ...prev, loading: false, error: 'Could not load the forecast' }));
+    }
+  }, [activitiesKey, homeLat, homeLng]);
+
+  useEffect(() => {
+    if (enabled) {
+      load();
+    }
+  }, [enabled, load]);
+
+  const requestLocation = useCallback(async () => {
+    const location = await requestCurrentLocation().catch(() => null);
+    if (location) {
+      await load(location);
+    } else {
+      setState(prev => ({ ...prev, error: 'Location access is needed to check the weather near you' }));
+    }
+  }, [load]);
+
+  return { ...state, reload: () => load(state.location), requestLocation };
+}
@@ -0,0 +1,117 @@
+import { supabase } from './supabase';
+
+/**
+ * What the user needs from a route. Stored in `user_profiles.accessibility_needs`;
+ * the migration `20261019230000_add_accessibility_needs.sql` enforces the same
+ * shape, and the excursion creator rejects routes that break these limits.
+ */
+export type MobilityAid = 'wheelchair' | 'walker';
+
+export interface AccessibilityNeeds {
+  mobilityAid: MobilityAid | null;
+  /** Longest distance the user can walk or wheel before resting, or null for no limit. */
+  maxContinuousWalkMeters: number | null;
+  /** Steepest slope the user manages, or null for no limit. */
+  maxGradePercent: number | null;
+  needsRestStops: boolean;
+  needsRestrooms: boolean;
+}
+
+export const MOBILITY_AID_LABELS: Record<MobilityAid, string> = {
+  wheelchair: 'Wheelchair',
+  walker: 'Walker or rollator',
+};
+
+export const CONTINUOUS_WALK_LIMITS_METERS = { min: 50, max: 20000 };
+export const GRADE_LIMITS_PERCENT = { min: 1, max: 20 };
+
+export const EMPTY_ACCESSIBILITY_NEEDS: AccessibilityNeeds = {
+  mobilityAid: null,
+  maxContinuousWalkMeters: null,
+  maxGradePercent: null,
+  needsRestStops: false,
+  needsRestrooms: false,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toLimit(value: unknown, limits: { min: number; max: number }): number | null {
+  return typeof value === 'number' && value >= limits.min && value <= limits.max ? value : null;
+}
+
+/** Reads the jsonb column, dropping anything that does not fit the schema. */
+export function parseAccessibilityNeeds(value: unknown): AccessibilityNeeds {
+  if (!isRecord(value)) {
+    return EMPTY_ACCESSIBILITY_NEEDS;
+  }
+
+  return {
+    mobilityAid: value.mobilityAid === 'wheelchair' || value.mobilityAid === 'walker' ? value.mobilityAid : null,
+    maxContinuousWalkMeters: toLimit(value.maxContinuousWalkMeters, CONTINUOUS_WALK_LIMITS_METERS),
+    maxGradePercent: toLimit(value.maxGradePercent, GRADE_LIMITS_PERCENT),
+    needsRestStops: value.needsRestStops === true,
+    needsRestrooms: value.needsRestrooms === true,
+  };
+}
+
+/** One-line summary for the profile; null when nothing is set. */
+export function describeAccessibilityNeeds(needs: AccessibilityNeeds): string | null {
+  const details = [
+    needs.mobilityAid && MOBILITY_AID_LABELS[needs.mobilityAid],
+    needs.maxContinuousWalkMeters !== null && `Rests every ${formatMeters(needs.maxContinuousWalkMeters)}`,
+    needs.maxGradePercent !== null && `Slopes up to ${needs.maxGradePercent}%`,
+    needs.needsRestStops && 'Needs seating',
+    needs.needsRestrooms && 'Needs restrooms',
+  ].filter(Boolean);
+
+  return details.length > 0 ? details.join(' · ') : null;
+}
+
+export function formatMeters(meters: number): string {
+  return meters >= 1000 ? `${meters / 1000} km` : `${meters} m`;
+}
+
+class AccessibilityNeedsAPI {
+  async get(): Promise<AccessibilityNeeds> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('accessibility_needs')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch accessibility needs: ${error.message}`);
+    }
+
+    return parseAccessibilityNeeds(data?.accessibility_needs);
+  }
+
+  async save(needs: AccessibilityNeeds): Promise<AccessibilityNeeds> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update({ accessibility_needs: needs })
+      .eq('id', user.id)
+      .select('accessibility_needs')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save accessibility needs: ${error.message}`);
+    }
+
+    return parseAccessibilityNeeds(data.accessibility_needs);
+  }
+}
+
+export const accessibilityNeedsAPI = new AccessibilityNeedsAPI();
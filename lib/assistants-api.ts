@@ -1,23 +1,39 @@
+import { fetch as streamingFetch } from 'expo/fetch';
 import { supabase } from './supabase';
+import { parseServerSentEvents } from './sse';
+import type { Excursion } from './excursions-api';
 
 export type AssistantType = 'health_coach' | 'excursion_creator';
 
+/**
+ * Client-side context sent along with a message. Profile details (goals,
+ * mobility, activities, history) are loaded by the edge functions themselves.
+ */
 export interface UserContext {
-  healthGoals?: string[];
-  mobilityLevel?: string;
-  preferredActivities?: string[];
   location?: {
     lat: number;
     lng: number;
     address?: string;
   };
+  /** A time the user picked to go out, e.g. from the home screen's best-time widget. */
+  timeWindow?: {
+    start: string;
+    end: string;
+  };
 }
 
+/** Client-side delivery state of a message the user sent; stored messages have none. */
+export type MessageStatus = 'sending' | 'sent' | 'failed';
+
 export interface ChatMessage {
   id: string;
   conversation_id: string;
   role: 'user' | 'assistant';
   content: string;
+  status?: MessageStatus;
+  /** Excursion the assistant saved while writing this reply, if any. */
+  excursion_id?: string | null;
+  excursion?: Excursion | null;
   created_at: string;
 }
 
@@ -26,16 +42,40 @@ export interface Conversation {
   user_id: string;
   assistant_type: AssistantType;
   thread_id: string;
+  /** Generated after the first exchange; null until then. */
+  title: string | null;
+  /** Rolling summary the assistant uses as context when the thread is resumed. */
+  summary: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface ConversationPreview extends Omit<Conversation, 'title'> {
+  title: string;
+  lastMessage: Pick<ChatMessage, 'role' | 'content' | 'created_at'> | null;
+}
+
+export interface ExcursionError {
+  code: 'invalid_excursion';
+  message: string;
+  attempts: number;
+  issues: { path: string; message: string }[];
+}
+
 export interface ChatResponse {
   response: string;
   conversationId: string;
   threadId: string;
+  /** Only sent by the excursion creator: the saved row, or null when nothing was saved. */
+  excursionData?: Excursion | null;
+  excursionError?: ExcursionError;
 }
 
+export type ChatStreamEvent =
+  | { type: 'start'; conversationId: string; threadId: string }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; response: ChatResponse };
+
 class AssistantsAPI {
   private getEdgeFunctionUrl(assistantType: AssistantType): string {
     const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
@@ -50,27 +90,32 @@ class AssistantsAPI {
     return `${supabaseUrl}/functions/v1/${functionName}`;
   }
 
-  async sendMessage(
-    assistantType: AssistantType,
-    message: string,
-    conversationId?: string,
-    userContext?: UserContext
-  ): Promise<ChatResponse> {
+  private async getAuthHeaders(): Promise<Record<string, string>> {
     const session = await supabase.auth.getSession();
     if (!session.data.session) {
       throw new Error('Not authenticated');
     }
 
-    const url = this.getEdgeFunctionUrl(assistantType);
-    const headers = {
+    return {
       'Authorization': `Bearer ${session.data.session.access_token}`,
       'Content-Type': 'application/json',
     };
+  }
+
+  async sendMessage(
+    assistantType: AssistantType,
+    message: string,
+    conversationId?: string,
+    userContext?: UserContext
+  ): Promise<ChatResponse> {
+    const url = this.getEdgeFunctionUrl(assistantType);
+    const headers = await this.getAuthHeaders();
 
     const body = JSON.stringify({
       message,
       conversationId,
-      userContext,
+      currentLocation: userContext?.location,
+      timeWindow: userContext?.timeWindow,
     });
 
     const response = await fetch(url, {
@@ -87,6 +132,64 @@ class AssistantsAPI {
     return response.json();
   }
 
+  /**
+   * Sends a message and yields the reply as it is generated. The final `done`
+   * event carries the same payload `sendMessage` resolves with.
+   */
+  async *sendMessageStream(
+    assistantType: AssistantType,
+    message: string,
+    conversationId?: string,
+    userContext?: UserContext
+  ): AsyncGenerator<ChatStreamEvent> {
+    const url = this.getEdgeFunctionUrl(assistantType);
+    const headers = await this.getAuthHeaders();
+
+    const response = await streamingFetch(url, {
+      method: 'POST',
+      headers: {
+        ...headers,
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({
+        message,
+        conversationId,
+        currentLocation: userContext?.location,
+        timeWindow: userContext?.timeWindow,
+        stream: true,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to send message');
+    }
+
+    if (!response.body) {
+      throw new Error('Streaming is not supported on this platform');
+    }
+
+    for await (const { event, data } of parseServerSentEvents(response.body)) {
+      const payload = JSON.parse(data);
+
+      switch (event) {
+        case 'start':
+          yield { type: 'start', conversationId: payload.conversationId, threadId: payload.threadId };
+          break;
+        case 'delta':
+          yield { type: 'delta', text: payload.text };
+          break;
+        case 'done':
+          yield { type: 'done', response: payload };
+          return;
+        case 'error':
+          throw new Error(payload.error || 'Failed to send message');
+      }
+    }
+
+    throw new Error('Stream ended before the reply was complete');
+  }
+
   async getConversations(assistantType?: AssistantType): Promise<Conversation[]> {
     let query = supabase
       .from('conversations')
@@ -106,10 +209,38 @@ class AssistantsAPI {
     return data || [];
   }
 
+  /**
+   * Lists conversations with a display title and the most recent message,
+   * newest activity first. Conversations without a generated title yet fall back
+   * to their opening message.
+   */
+  async getConversationPreviews(assistantType: AssistantType): Promise<ConversationPreview[]> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('*, latest:messages(role, content, created_at), opening:messages(content)')
+      .eq('assistant_type', assistantType)
+      .eq('opening.role', 'user')
+      .order('updated_at', { ascending: false })
+      .order('created_at', { referencedTable: 'latest', ascending: false })
+      .limit(1, { referencedTable: 'latest' })
+      .order('created_at', { referencedTable: 'opening', ascending: true })
+      .limit(1, { referencedTable: 'opening' });
+
+    if (error) {
+      throw new Error(`Failed to fetch conversations: ${error.message}`);
+    }
+
+    return (data || []).map(({ latest, opening, ...conversation }) => ({
+      ...conversation,
+      title: conversation.title ?? titleFromMessage(opening?.[0]?.content),
+      lastMessage: latest?.[0] ?? null,
+    }));
+  }
+
   async getMessages(conversationId: string): Promise<ChatMessage[]> {
     const { data, error } = await supabase
       .from('messages')
-      .select('*')
+      .select('*, excursion:excursions(*)')
       .eq('conversation_id', conversationId)
       .order('created_at', { ascending: true });
 
@@ -132,4 +263,15 @@ class AssistantsAPI {
   }
 }
 
+const MAX_TITLE_LENGTH = 40;
+
+function titleFromMessage(content?: string): string {
+  const text = content?.replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return 'New conversation';
+  }
+
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+}
+
 export const assistantsAPI = new AssistantsAPI();
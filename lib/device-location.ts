@@ -0,0 +1,67 @@
+import * as Location from 'expo-location';
+import type { Coordinate } from './geo';
+
+/**
+ * Where location access stands: `blocked` means it was denied and the system
+ * will not ask again, so only the device settings can turn it back on.
+ */
+export type LocationPermission = 'granted' | 'undetermined' | 'denied' | 'blocked';
+
+function toPermission({ status, canAskAgain }: Location.LocationPermissionResponse): LocationPermission {
+  if (status === Location.PermissionStatus.GRANTED) return 'granted';
+  if (!canAskAgain) return 'blocked';
+  return status === Location.PermissionStatus.DENIED ? 'denied' : 'undetermined';
+}
+
+export async function getLocationPermission(): Promise<LocationPermission> {
+  return toPermission(await Location.getForegroundPermissionsAsync());
+}
+
+/** Shows the system prompt when it still can; otherwise reports the current state. */
+export async function requestLocationPermission(): Promise<LocationPermission> {
+  return toPermission(await Location.requestForegroundPermissionsAsync());
+}
+
+/**
+ * The device's position when location access is already granted, without
+ * prompting. Null when permission has not been given or no fix is available.
+ */
+export async function getGrantedLocation(): Promise<Coordinate | null> {
+  const { status } = await Location.getForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  return getPosition();
+}
+
+/** Asks for location access if needed, then reads the device's position. */
+export async function requestCurrentLocation(): Promise<Coordinate | null> {
+  const { status } = await Location.requestForegroundPermissionsAsync();
+  if (status !== 'granted') {
+    return null;
+  }
+
+  return getPosition();
+}
+
+/** A short street address for a position, or undefined when the platform cannot tell. */
+export async function describeLocation(coordinate: Coordinate): Promise<string | undefined> {
+  try {
+    const [place] = await Location.reverseGeocodeAsync({ latitude: coordinate.lat, longitude: coordinate.lng });
+    if (!place) return undefined;
+
+    const street = [place.streetNumber, place.street].filter(Boolean).join(' ');
+    return [street || place.name, place.city].filter(Boolean).join(', ') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function getPosition(): Promise<Coordinate | null> {
+  // A recent cached fix is plenty for weather and avoids waiting on the GPS.
+  const position = await Location.getLastKnownPositionAsync({ maxAge: 15 * 60 * 1000 })
+    ?? await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+
+  return position ? { lat: position.coords.latitude, lng: position.coords.longitude } : null;
+}
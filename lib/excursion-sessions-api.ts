@@ -0,0 +1,94 @@
+import { supabase } from './supabase';
+import type { Breadcrumb, TrackingSnapshot } from './excursion-tracker';
+
+export type SessionStatus = 'active' | 'paused' | 'completed';
+
+export interface ExcursionSession {
+  id: string;
+  user_id: string;
+  excursion_id: string;
+  status: SessionStatus;
+  started_at: string;
+  ended_at: string | null;
+  elapsed_seconds: number;
+  distance_meters: number;
+  breadcrumbs: Breadcrumb[];
+  created_at: string;
+  updated_at: string;
+}
+
+class ExcursionSessionsAPI {
+  async getSession(sessionId: string): Promise<ExcursionSession | null> {
+    const { data, error } = await supabase
+      .from('excursion_sessions')
+      .select('*')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /** The most recent session for the excursion that was started but not finished. */
+  async getUnfinishedSession(excursionId: string): Promise<ExcursionSession | null> {
+    const { data, error } = await supabase
+      .from('excursion_sessions')
+      .select('*')
+      .eq('excursion_id', excursionId)
+      .in('status', ['active', 'paused'])
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async startSession(excursionId: string): Promise<ExcursionSession> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('excursion_sessions')
+      .insert({ user_id: user.id, excursion_id: excursionId })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to start session: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async saveProgress(sessionId: string, snapshot: TrackingSnapshot): Promise<void> {
+    const status: SessionStatus = snapshot.status === 'completed'
+      ? 'completed'
+      : snapshot.status === 'active' ? 'active' : 'paused';
+
+    const { error } = await supabase
+      .from('excursion_sessions')
+      .update({
+        status,
+        elapsed_seconds: snapshot.elapsedSeconds,
+        distance_meters: snapshot.distanceMeters,
+        breadcrumbs: snapshot.breadcrumbs,
+        ...(status === 'completed' && { ended_at: new Date().toISOString() }),
+      })
+      .eq('id', sessionId);
+
+    if (error) {
+      throw new Error(`Failed to save session: ${error.message}`);
+    }
+  }
+}
+
+export const excursionSessionsAPI = new ExcursionSessionsAPI();
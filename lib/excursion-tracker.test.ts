@@ -0,0 +1,79 @@
+import { ExcursionTracker } from './excursion-tracker';
+import { createSimulatedLocationSource, type LocationSource } from './location-source';
+
+// 0.0009° of latitude is about 100 m, walked as ten 10 m steps.
+const TRACK = [
+  { lat: 51.5, lng: -0.1 },
+  { lat: 51.5009, lng: -0.1 },
+];
+const STEP_METERS = 100.08 / 10;
+
+describe('ExcursionTracker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('records the time and distance walked, one segment per stretch between pauses', async () => {
+    const tracker = new ExcursionTracker(createSimulatedLocationSource(TRACK));
+
+    await tracker.start();
+    jest.advanceTimersByTime(3000);
+    tracker.pause();
+    jest.advanceTimersByTime(5000);
+    await tracker.resume();
+    jest.advanceTimersByTime(2000);
+
+    const snapshot = tracker.finish();
+
+    expect(snapshot.status).toBe('completed');
+    expect(snapshot.elapsedSeconds).toBe(5);
+    expect(snapshot.breadcrumbs.map(breadcrumb => breadcrumb.segment)).toEqual([0, 0, 0, 1, 1]);
+    // Two steps before the pause and one after; the step across the pause is not counted.
+    expect(snapshot.distanceMeters).toBeCloseTo(3 * STEP_METERS, 1);
+  });
+
+  it('drops movement too small to tell apart from GPS jitter', async () => {
+    const tracker = new ExcursionTracker(
+      createSimulatedLocationSource([TRACK[0], { lat: 51.50009, lng: -0.1 }], { stepMeters: 1 })
+    );
+
+    await tracker.start();
+    jest.advanceTimersByTime(11_000);
+
+    const { breadcrumbs, distanceMeters } = tracker.getSnapshot();
+    expect(breadcrumbs).toHaveLength(4);
+    expect(distanceMeters).toBeCloseTo(9 * (STEP_METERS / 10), 1);
+  });
+
+  it('skips fixes that are not accurate enough', async () => {
+    const simulated = createSimulatedLocationSource(TRACK);
+    let count = 0;
+    const source: LocationSource = {
+      watch: onFix => simulated.watch(fix => onFix(count++ % 2 === 1 ? { ...fix, accuracy: 80 } : fix)),
+    };
+    const tracker = new ExcursionTracker(source);
+
+    await tracker.start();
+    jest.advanceTimersByTime(5000);
+
+    const { breadcrumbs, distanceMeters } = tracker.getSnapshot();
+    expect(breadcrumbs.map(breadcrumb => breadcrumb.accuracy)).toEqual([5, 5, 5]);
+    expect(distanceMeters).toBeCloseTo(4 * STEP_METERS, 1);
+  });
+
+  it('ignores fixes while paused', async () => {
+    const tracker = new ExcursionTracker(createSimulatedLocationSource(TRACK));
+
+    await tracker.start();
+    jest.advanceTimersByTime(2000);
+    tracker.pause();
+    jest.advanceTimersByTime(5000);
+
+    expect(tracker.getSnapshot()).toMatchObject({ status: 'paused', elapsedSeconds: 2 });
+    expect(tracker.getSnapshot().breadcrumbs).toHaveLength(2);
+  });
+});
@@ -0,0 +1,153 @@
+import { haversineDistance, type Coordinate } from './geo';
+import type { LocationFix, LocationSource } from './location-source';
+
+export type TrackingStatus = 'idle' | 'active' | 'paused' | 'completed';
+
+export interface Breadcrumb {
+  lat: number;
+  lng: number;
+  altitude: number | null;
+  accuracy: number | null;
+  timestamp: number;
+  /** Increases after every pause; distance is never measured across segments. */
+  segment: number;
+}
+
+export interface TrackingSnapshot {
+  status: TrackingStatus;
+  elapsedSeconds: number;
+  distanceMeters: number;
+  breadcrumbs: Breadcrumb[];
+}
+
+interface TrackerOptions {
+  /** Restores an unfinished session; the tracker starts paused from this point. */
+  initial?: Omit<TrackingSnapshot, 'status'>;
+  now?: () => number;
+}
+
+// Fixes less accurate than this are too noisy to add to the trail.
+const MAX_ACCURACY_METERS = 50;
+// Movement below this is treated as GPS jitter while standing still.
+const MIN_STEP_METERS = 3;
+
+/**
+ * Records one run through an excursion: a breadcrumb trail, the distance along
+ * it and the time spent moving, with pause/resume. It knows nothing about where
+ * fixes come from or where snapshots are stored.
+ */
+export class ExcursionTracker {
+  private status: TrackingStatus = 'idle';
+  private breadcrumbs: Breadcrumb[];
+  private distanceMeters: number;
+  private accumulatedMs: number;
+  private activeSince: number | null = null;
+  private segment: number;
+  private stopWatching: (() => void) | null = null;
+  private listeners = new Set<(snapshot: TrackingSnapshot) => void>();
+  private now: () => number;
+
+  constructor(private source: LocationSource, { initial, now = Date.now }: TrackerOptions = {}) {
+    this.now = now;
+    this.breadcrumbs = initial?.breadcrumbs ?? [];
+    this.distanceMeters = initial?.distanceMeters ?? 0;
+    this.accumulatedMs = (initial?.elapsedSeconds ?? 0) * 1000;
+    this.segment = this.breadcrumbs.length > 0 ? this.breadcrumbs[this.breadcrumbs.length - 1].segment + 1 : 0;
+    if (initial) {
+      this.status = 'paused';
+    }
+  }
+
+  subscribe(listener: (snapshot: TrackingSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): TrackingSnapshot {
+    const runningMs = this.activeSince !== null ? this.now() - this.activeSince : 0;
+
+    return {
+      status: this.status,
+      elapsedSeconds: Math.floor((this.accumulatedMs + runningMs) / 1000),
+      distanceMeters: this.distanceMeters,
+      breadcrumbs: this.breadcrumbs,
+    };
+  }
+
+  async start(): Promise<void> {
+    if (this.status === 'active' || this.status === 'completed') return;
+
+    this.stopWatching = await this.source.watch(fix => this.addFix(fix));
+    this.status = 'active';
+    this.activeSince = this.now();
+    this.emit();
+  }
+
+  /** Resuming starts a new segment so the distance walked while paused is not counted. */
+  async resume(): Promise<void> {
+    if (this.status !== 'paused') return;
+    await this.start();
+  }
+
+  pause(): void {
+    if (this.status !== 'active') return;
+
+    this.stopWatching?.();
+    this.stopWatching = null;
+    this.accumulatedMs += this.now() - (this.activeSince ?? this.now());
+    this.activeSince = null;
+    this.segment++;
+    this.status = 'paused';
+    this.emit();
+  }
+
+  finish(): TrackingSnapshot {
+    this.pause();
+    this.status = 'completed';
+    this.emit();
+    return this.getSnapshot();
+  }
+
+  private addFix(fix: LocationFix): void {
+    if (this.status !== 'active') return;
+    if (fix.accuracy !== null && fix.accuracy > MAX_ACCURACY_METERS) return;
+
+    const last = this.breadcrumbs[this.breadcrumbs.length - 1];
+    if (last?.segment === this.segment) {
+      const step = haversineDistance(last, fix);
+      if (step < MIN_STEP_METERS) return;
+      this.distanceMeters += step;
+    }
+
+    this.breadcrumbs = [...this.breadcrumbs, { ...fix, segment: this.segment }];
+    this.emit();
+  }
+
+  private emit(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/** Splits a trail into the continuous stretches walked between pauses. */
+export function toTrailSegments(breadcrumbs: Breadcrumb[]): Coordinate[][] {
+  const segments = new Map<number, Coordinate[]>();
+
+  for (const { lat, lng, segment } of breadcrumbs) {
+    const points = segments.get(segment) ?? [];
+    points.push({ lat, lng });
+    segments.set(segment, points);
+  }
+
+  return [...segments.values()];
+}
+
+/** Formats elapsed seconds as mm:ss, or h:mm:ss from an hour up. */
+export function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
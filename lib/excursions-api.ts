@@ -0,0 +1,370 @@
+import { supabase } from './supabase';
+import { formatDistance, formatElevation } from './geo';
+import { SURFACE_LABELS, type Surface } from './nature-places-api';
+
+export type DifficultyLevel = 'Easy' | 'Moderate' | 'Challenging';
+
+export interface ExcursionLocation {
+  lat: number;
+  lng: number;
+  address?: string;
+}
+
+export interface ExcursionWaypoint {
+  order: number;
+  lat: number;
+  lng: number;
+  name?: string;
+  /** Meters above sea level, when known. */
+  altitude?: number;
+  /** Surface of the path from the previous waypoint. */
+  surface?: Surface;
+  /** The path from the previous waypoint includes steps. */
+  steps?: boolean;
+  rest_stop?: boolean;
+  restroom?: boolean;
+}
+
+/**
+ * Route accessibility computed from the waypoints when the excursion was saved,
+ * mirroring `supabase/functions/_shared/accessibility.ts`.
+ */
+export interface RouteAccessibility {
+  step_free: boolean;
+  wheelchair_accessible: boolean;
+  surfaces: Surface[];
+  /** Null when the waypoints carry no altitudes. */
+  max_grade_percent: number | null;
+  /** Longest distance between the start, rest stops, restrooms and the finish. */
+  longest_stretch_meters: number;
+  rest_stops: number;
+  restrooms: number;
+}
+
+/**
+ * An air quality, UV, heat or pollen concern for the planned time, mirroring
+ * `supabase/functions/_shared/excursion-safety.ts`. Saved excursions only carry
+ * "caution" warnings; the creator does not save plans that are unsafe.
+ * `unchecked` marks a plan saved while no forecast could be loaded.
+ */
+export interface SafetyWarning {
+  type: 'air_quality' | 'uv' | 'heat' | 'pollen' | 'unchecked';
+  severity: 'caution' | 'unsafe';
+  message: string;
+  advice: string;
+}
+
+export interface Excursion {
+  id: string;
+  user_id: string;
+  title: string;
+  description: string | null;
+  location: ExcursionLocation;
+  route_data: ExcursionWaypoint[] | null;
+  duration_minutes: number | null;
+  difficulty_level: DifficultyLevel | null;
+  activities: string[] | null;
+  /** A `WeatherSnapshot` for excursions planned with the forecast; free-form JSON on older ones. */
+  weather_conditions: Record<string, unknown> | null;
+  /** Planned start chosen by the excursion creator, if any. */
+  scheduled_at: string | null;
+  safety_warnings: SafetyWarning[];
+  /** Provider place id the excursion creator verified the start against; null on older excursions. */
+  place_id: string | null;
+  /** Catalog place the excursion starts at, when the creator picked one from `nature_places`. */
+  nature_place_id: string | null;
+  /** Null without a route and on excursions saved before accessibility was tracked. */
+  accessibility: RouteAccessibility | null;
+  created_at: string;
+  completed_at: string | null;
+  rating: number | null;
+  reflection: string | null;
+  completed_activities: string[] | null;
+  /** Route metrics computed when the excursion was saved; null without a route. */
+  distance_meters: number | null;
+  elevation_gain_meters: number | null;
+  elevation_loss_meters: number | null;
+  estimated_walking_minutes: number | null;
+}
+
+export interface ExcursionCompletion {
+  /** Defaults to now, e.g. for "Mark as done". */
+  completedAt?: string;
+  /** 1–5 stars, or null when the user skipped rating. */
+  rating: number | null;
+  reflection: string;
+  completedActivities: string[];
+}
+
+export type ExcursionSort = 'newest' | 'shortest' | 'highest_rated';
+
+export type CompletionFilter = 'all' | 'completed' | 'not_completed';
+
+export interface DurationRange {
+  label: string;
+  min?: number;
+  max?: number;
+}
+
+export interface ExcursionFilters {
+  search: string;
+  favoritesOnly: boolean;
+  completion: CompletionFilter;
+  difficulty: DifficultyLevel | null;
+  duration: DurationRange | null;
+  activity: string | null;
+}
+
+export interface ExcursionPage {
+  excursions: Excursion[];
+  hasMore: boolean;
+}
+
+export const DEFAULT_EXCURSION_FILTERS: ExcursionFilters = {
+  search: '',
+  favoritesOnly: false,
+  completion: 'all',
+  difficulty: null,
+  duration: null,
+  activity: null,
+};
+
+export const DURATION_RANGES: DurationRange[] = [
+  { label: 'Under 30 min', max: 29 },
+  { label: '30–60 min', min: 30, max: 60 },
+  { label: '1–2 hours', min: 61, max: 120 },
+  { label: 'Over 2 hours', min: 121 },
+];
+
+export const EXCURSION_PAGE_SIZE = 20;
+
+/**
+ * Builds a quoted PostgREST `ilike` value matching the term anywhere. LIKE
+ * wildcards in the term are escaped first, then the value is quoted so commas
+ * and parentheses cannot break the surrounding `or` filter.
+ */
+function containsPattern(term: string): string {
+  const likePattern = `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  return `"${likePattern.replace(/[\\"]/g, match => `\\${match}`)}"`;
+}
+
+class ExcursionsAPI {
+  /** One page of excursions matching the filters, in the given order. */
+  async searchExcursions(
+    filters: ExcursionFilters,
+    sort: ExcursionSort,
+    offset = 0,
+    limit = EXCURSION_PAGE_SIZE
+  ): Promise<ExcursionPage> {
+    // The inner join drops excursions without a favorite row.
+    let query = supabase
+      .from('excursions')
+      .select(filters.favoritesOnly ? '*, favorite_excursions!inner(excursion_id)' : '*');
+
+    const search = filters.search.trim();
+    if (search) {
+      const pattern = containsPattern(search);
+      query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`);
+    }
+    if (filters.completion === 'completed') {
+      query = query.not('completed_at', 'is', null);
+    } else if (filters.completion === 'not_completed') {
+      query = query.is('completed_at', null);
+    }
+    if (filters.difficulty) {
+      query = query.eq('difficulty_level', filters.difficulty);
+    }
+    if (filters.duration?.min !== undefined) {
+      query = query.gte('duration_minutes', filters.duration.min);
+    }
+    if (filters.duration?.max !== undefined) {
+      query = query.lte('duration_minutes', filters.duration.max);
+    }
+    if (filters.activity) {
+      query = query.contains('activities', [filters.activity]);
+    }
+
+    if (sort === 'shortest') {
+      query = query.order('duration_minutes', { ascending: true, nullsFirst: false });
+    } else if (sort === 'highest_rated') {
+      query = query.order('rating', { ascending: false, nullsFirst: false });
+    }
+
+    // created_at and id break ties so pages do not overlap.
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .range(offset, offset + limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch excursions: ${error.message}`);
+    }
+
+    const rows = ((data || []) as unknown as (Excursion & { favorite_excursions?: unknown })[])
+      .map(({ favorite_excursions: _favorite, ...excursion }) => excursion);
+
+    return {
+      excursions: rows.slice(0, limit),
+      hasMore: rows.length > limit,
+    };
+  }
+
+  /** Every activity that appears on one of the user's excursions, for the activity filter. */
+  async getActivityOptions(): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('excursions')
+      .select('activities');
+
+    if (error) {
+      throw new Error(`Failed to fetch activities: ${error.message}`);
+    }
+
+    const activities = new Set<string>();
+    for (const row of data || []) {
+      for (const activity of row.activities ?? []) {
+        activities.add(activity);
+      }
+    }
+
+    return [...activities].sort((a, b) => a.localeCompare(b));
+  }
+
+  async getExcursion(excursionId: string): Promise<Excursion | null> {
+    const { data, error } = await supabase
+      .from('excursions')
+      .select('*')
+      .eq('id', excursionId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch excursion: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  async completeExcursion(excursionId: string, completion: ExcursionCompletion): Promise<Excursion> {
+    const { data, error } = await supabase
+      .from('excursions')
+      .update({
+        completed_at: completion.completedAt ?? new Date().toISOString(),
+        rating: completion.rating,
+        reflection: completion.reflection.trim() || null,
+        completed_activities: completion.completedActivities,
+      })
+      .eq('id', excursionId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to complete excursion: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /** Marks the excursion done without touching its rating or reflection, e.g. when a tracked session finishes. */
+  async markCompleted(excursionId: string, completedAt: string): Promise<void> {
+    const { error } = await supabase
+      .from('excursions')
+      .update({ completed_at: completedAt })
+      .eq('id', excursionId);
+
+    if (error) {
+      throw new Error(`Failed to complete excursion: ${error.message}`);
+    }
+  }
+
+  async getFavoriteIds(): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from('favorite_excursions')
+      .select('excursion_id');
+
+    if (error) {
+      throw new Error(`Failed to fetch favorites: ${error.message}`);
+    }
+
+    return new Set(data?.map(favorite => favorite.excursion_id) || []);
+  }
+
+  async addFavorite(excursionId: string): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('favorite_excursions')
+      .upsert(
+        { user_id: user.id, excursion_id: excursionId },
+        { onConflict: 'user_id,excursion_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to save favorite: ${error.message}`);
+    }
+  }
+
+  async removeFavorite(excursionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('favorite_excursions')
+      .delete()
+      .eq('excursion_id', excursionId);
+
+    if (error) {
+      throw new Error(`Failed to remove favorite: ${error.message}`);
+    }
+  }
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours} hour${hours > 1 ? 's' : ''}`;
+}
+
+/** Card labels for the stored route metrics; fields are omitted when unknown. */
+export function getRouteLabels(excursion: Excursion): { distance?: string; elevationGain?: string } {
+  return {
+    distance: typeof excursion.distance_meters === 'number' ? formatDistance(excursion.distance_meters) : undefined,
+    elevationGain: excursion.elevation_gain_meters
+      ? `↑ ${formatElevation(excursion.elevation_gain_meters)}`
+      : undefined,
+  };
+}
+
+/** Detail-screen lines for the stored route accessibility. */
+export function getAccessibilityLabels(accessibility: RouteAccessibility): string[] {
+  return [
+    accessibility.wheelchair_accessible
+      ? 'Wheelchair accessible'
+      : accessibility.step_free
+        ? 'Step-free'
+        : 'Includes steps',
+    accessibility.surfaces.length > 0
+      ? `Surface: ${accessibility.surfaces.map(surface => SURFACE_LABELS[surface]).join(', ')}`
+      : null,
+    accessibility.max_grade_percent !== null ? `Steepest grade ${accessibility.max_grade_percent}%` : null,
+    `Longest stretch without a rest ${formatDistance(accessibility.longest_stretch_meters)}`,
+    accessibility.rest_stops > 0
+      ? `${accessibility.rest_stops} rest stop${accessibility.rest_stops > 1 ? 's' : ''}`
+      : null,
+    accessibility.restrooms > 0
+      ? `${accessibility.restrooms} restroom${accessibility.restrooms > 1 ? 's' : ''}`
+      : null,
+  ].filter((label): label is string => label !== null);
+}
+
+/** What a waypoint offers, e.g. "Bench · Restroom", for the route list. */
+export function describeWaypointFeatures(waypoint: ExcursionWaypoint): string | null {
+  const features = [
+    waypoint.rest_stop && 'Bench',
+    waypoint.restroom && 'Restroom',
+    waypoint.steps && 'Steps',
+    waypoint.surface && SURFACE_LABELS[waypoint.surface],
+  ].filter(Boolean);
+  return features.length > 0 ? features.join(' · ') : null;
+}
+
+export const excursionsAPI = new ExcursionsAPI();
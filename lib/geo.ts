@@ -0,0 +1,30 @@
+export interface Coordinate {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points in meters. */
+export function haversineDistance(from: Coordinate, to: Coordinate): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatElevation(meters: number): string {
+  return `${Math.round(meters)} m`;
+}
+
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)} m`;
+  return `${(meters / 1000).toFixed(meters < 10_000 ? 2 : 1)} km`;
+}
@@ -0,0 +1,113 @@
+import { supabase } from './supabase';
+
+/**
+ * A named place the user plans excursions from. Stored in
+ * `user_profiles.location_preferences`; the migration
+ * `20261019200000_add_location_preferences_shape.sql` enforces the same shape.
+ */
+export interface SavedPlace {
+  name: string;
+  address?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface LocationPreferences {
+  homeBase: SavedPlace | null;
+  savedPlaces: SavedPlace[];
+  /** How far the user is willing to travel to an excursion's start, or null for no limit. */
+  maxTravelDistanceKm: number | null;
+  maxTravelMinutes: number | null;
+}
+
+export const MAX_SAVED_PLACES = 20;
+export const TRAVEL_DISTANCE_LIMITS_KM = { min: 1, max: 500 };
+export const TRAVEL_TIME_LIMITS_MINUTES = { min: 5, max: 480 };
+
+export const EMPTY_LOCATION_PREFERENCES: LocationPreferences = {
+  homeBase: null,
+  savedPlaces: [],
+  maxTravelDistanceKm: null,
+  maxTravelMinutes: null,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toSavedPlace(value: unknown): SavedPlace | null {
+  if (!isRecord(value) || typeof value.lat !== 'number' || typeof value.lng !== 'number') {
+    return null;
+  }
+
+  const address = typeof value.address === 'string' && value.address ? value.address : undefined;
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name : address ?? 'Saved place';
+  return { name, lat: value.lat, lng: value.lng, ...(address && { address }) };
+}
+
+function toLimit(value: unknown, limits: { min: number; max: number }): number | null {
+  return typeof value === 'number' && value >= limits.min && value <= limits.max ? value : null;
+}
+
+/** Reads the jsonb column, dropping anything that does not fit the schema. */
+export function parseLocationPreferences(value: unknown): LocationPreferences {
+  if (!isRecord(value)) {
+    return EMPTY_LOCATION_PREFERENCES;
+  }
+
+  const savedPlaces = Array.isArray(value.savedPlaces) ? value.savedPlaces : [];
+
+  return {
+    homeBase: toSavedPlace(value.homeBase),
+    savedPlaces: savedPlaces.map(toSavedPlace).filter((place): place is SavedPlace => place !== null),
+    maxTravelDistanceKm: toLimit(value.maxTravelDistanceKm, TRAVEL_DISTANCE_LIMITS_KM),
+    maxTravelMinutes: toLimit(value.maxTravelMinutes, TRAVEL_TIME_LIMITS_MINUTES),
+  };
+}
+
+class LocationPreferencesAPI {
+  async get(): Promise<LocationPreferences> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('location_preferences')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch location preferences: ${error.message}`);
+    }
+
+    return parseLocationPreferences(data?.location_preferences);
+  }
+
+  async save(preferences: LocationPreferences): Promise<LocationPreferences> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    if (preferences.savedPlaces.length > MAX_SAVED_PLACES) {
+      throw new Error(`You can save up to ${MAX_SAVED_PLACES} places`);
+    }
+
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .update({ location_preferences: preferences })
+      .eq('id', user.id)
+      .select('location_preferences')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save location preferences: ${error.message}`);
+    }
+
+    return parseLocationPreferences(data.location_preferences);
+  }
+}
+
+export const locationPreferencesAPI = new LocationPreferencesAPI();
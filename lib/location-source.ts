@@ -0,0 +1,103 @@
+import * as Location from 'expo-location';
+import { haversineDistance, type Coordinate } from './geo';
+
+export interface LocationFix extends Coordinate {
+  altitude: number | null;
+  /** Horizontal accuracy radius in meters, when the platform reports it. */
+  accuracy: number | null;
+  timestamp: number;
+}
+
+/**
+ * Where tracking gets positions from. `watch` starts delivering fixes and
+ * resolves with a function that stops them.
+ */
+export interface LocationSource {
+  watch(onFix: (fix: LocationFix) => void): Promise<() => void>;
+}
+
+export class LocationPermissionError extends Error {
+  constructor() {
+    super('Location permission is required to track an excursion');
+    this.name = 'LocationPermissionError';
+  }
+}
+
+const DEVICE_UPDATE_INTERVAL_MS = 5000;
+const DEVICE_DISTANCE_INTERVAL_METERS = 5;
+
+export const deviceLocationSource: LocationSource = {
+  async watch(onFix) {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      throw new LocationPermissionError();
+    }
+
+    const subscription = await Location.watchPositionAsync(
+      {
+        accuracy: Location.Accuracy.High,
+        timeInterval: DEVICE_UPDATE_INTERVAL_MS,
+        distanceInterval: DEVICE_DISTANCE_INTERVAL_METERS,
+      },
+      ({ coords, timestamp }) => {
+        onFix({
+          lat: coords.latitude,
+          lng: coords.longitude,
+          altitude: coords.altitude,
+          accuracy: coords.accuracy,
+          timestamp,
+        });
+      }
+    );
+
+    return () => subscription.remove();
+  },
+};
+
+/**
+ * Replays a track at a fixed pace, interpolating between its points so fixes
+ * arrive every `intervalMs` like a real walk. Stops at the last point.
+ */
+export function createSimulatedLocationSource(
+  track: Coordinate[],
+  { intervalMs = 1000, stepMeters = 10 }: { intervalMs?: number; stepMeters?: number } = {}
+): LocationSource {
+  const points = interpolateTrack(track, stepMeters);
+  let position = 0;
+
+  return {
+    async watch(onFix) {
+      const timer = setInterval(() => {
+        const point = points[position];
+        if (!point) {
+          clearInterval(timer);
+          return;
+        }
+
+        onFix({ ...point, altitude: null, accuracy: 5, timestamp: Date.now() });
+        position++;
+      }, intervalMs);
+
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+function interpolateTrack(track: Coordinate[], stepMeters: number): Coordinate[] {
+  const points: Coordinate[] = track.slice(0, 1);
+
+  for (let i = 1; i < track.length; i++) {
+    const from = track[i - 1];
+    const to = track[i];
+    const steps = Math.max(1, Math.round(haversineDistance(from, to) / stepMeters));
+
+    for (let step = 1; step <= steps; step++) {
+      points.push({
+        lat: from.lat + ((to.lat - from.lat) * step) / steps,
+        lng: from.lng + ((to.lng - from.lng) * step) / steps,
+      });
+    }
+  }
+
+  return points;
+}
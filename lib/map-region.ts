@@ -0,0 +1,29 @@
+import type { Coordinate } from './geo';
+
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+// Keeps a single pin (or a very short route) from zooming in to street level.
+const MIN_DELTA = 0.01;
+const PADDING_FACTOR = 1.4;
+
+/** Smallest region that shows every point with some padding around the edges. */
+export function getMapRegion(points: Coordinate[]): MapRegion {
+  const lats = points.map(point => point.lat);
+  const lngs = points.map(point => point.lng);
+  const minLat = Math.min(...lats);
+  const maxLat = Math.max(...lats);
+  const minLng = Math.min(...lngs);
+  const maxLng = Math.max(...lngs);
+
+  return {
+    latitude: (minLat + maxLat) / 2,
+    longitude: (minLng + maxLng) / 2,
+    latitudeDelta: Math.max((maxLat - minLat) * PADDING_FACTOR, MIN_DELTA),
+    longitudeDelta: Math.max((maxLng - minLng) * PADDING_FACTOR, MIN_DELTA),
+  };
+}
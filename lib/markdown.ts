@@ -0,0 +1,233 @@
+/**
+ * A small Markdown parser for assistant replies. It covers what the assistants
+ * actually produce (headings, lists, emphasis, links, quotes and fenced code)
+ * rather than the full CommonMark spec.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: InlineNode[] };
+
+export interface ListItem {
+  /** Nesting level, 0 for top-level items. */
+  depth: number;
+  /** `•` for bullets, `3.` for numbered items. */
+  marker: string;
+  children: InlineNode[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'list'; items: ListItem[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'rule' };
+
+type DraftBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'list'; items: { depth: number; marker: string; text: string }[] }
+  | { type: 'code'; language: string; lines: string[] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BULLET_ITEM = /^(\s*)[-*+]\s+(.*)$/;
+const NUMBERED_ITEM = /^(\s*)(\d+)[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+// Order matters: `***` must be tried before `**` and `*`.
+const INLINE = /\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|__(.+?)__|\*(?!\s)(.+?)\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s)]*[^\s).,;:!?])/;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const [whole, strongEmphasis, strong, underscoreStrong, emphasis, code, linkText, linkUrl, bareUrl] = match;
+
+    if (strongEmphasis !== undefined) {
+      nodes.push({ type: 'strong', children: [{ type: 'emphasis', children: parseInline(strongEmphasis) }] });
+    } else if (strong !== undefined || underscoreStrong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? underscoreStrong) });
+    } else if (emphasis !== undefined) {
+      nodes.push({ type: 'emphasis', children: parseInline(emphasis) });
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (linkText !== undefined) {
+      nodes.push({ type: 'link', url: linkUrl, children: parseInline(linkText) });
+    } else {
+      nodes.push({ type: 'link', url: bareUrl, children: [{ type: 'text', text: bareUrl }] });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+/** True for fenced blocks that carry data (JSON) rather than something to read. */
+function isStructuredData(language: string, text: string): boolean {
+  if (language.toLowerCase() === 'json') {
+    return true;
+  }
+
+  const trimmed = text.trim();
+  if (!language && (trimmed.startsWith('{') || trimmed.startsWith('['))) {
+    try {
+      JSON.parse(trimmed);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  return false;
+}
+
+function finalize(block: DraftBlock): MarkdownBlock | null {
+  switch (block.type) {
+    case 'heading':
+      return { type: 'heading', level: block.level, children: parseInline(block.text) };
+    case 'paragraph':
+      return { type: 'paragraph', children: parseInline(block.text) };
+    case 'quote':
+      return { type: 'quote', children: parseInline(block.text) };
+    case 'list':
+      return {
+        type: 'list',
+        items: block.items.map(item => ({
+          depth: item.depth,
+          marker: item.marker,
+          children: parseInline(item.text),
+        })),
+      };
+    case 'code': {
+      const text = block.lines.join('\n');
+      return isStructuredData(block.language, text) ? null : { type: 'code', language: block.language, text };
+    }
+    case 'rule':
+      return block;
+  }
+}
+
+/**
+ * Splits Markdown into blocks. JSON code blocks are dropped entirely, and a
+ * fence that is still open (a reply mid-stream) runs to the end of the text.
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const drafts: DraftBlock[] = [];
+  let current: DraftBlock | null = null;
+
+  const close = () => {
+    if (current) {
+      drafts.push(current);
+      current = null;
+    }
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const block = current as DraftBlock | null;
+
+    if (block?.type === 'code') {
+      if (FENCE.test(line) && !FENCE.exec(line)?.[1]) {
+        close();
+      } else {
+        block.lines.push(line);
+      }
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      close();
+      current = { type: 'code', language: fence[1], lines: [] };
+      continue;
+    }
+
+    if (!line.trim()) {
+      close();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      close();
+      drafts.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      close();
+      drafts.push({ type: 'rule' });
+      continue;
+    }
+
+    const bullet = BULLET_ITEM.exec(line);
+    const numbered = NUMBERED_ITEM.exec(line);
+    if (bullet || numbered) {
+      const indent = (bullet ?? numbered)![1].replace(/\t/g, '  ').length;
+      const item = {
+        depth: Math.floor(indent / 2),
+        marker: bullet ? '•' : `${numbered![2]}.`,
+        text: bullet ? bullet[2] : numbered![3],
+      };
+
+      if (block?.type === 'list') {
+        block.items.push(item);
+      } else {
+        close();
+        current = { type: 'list', items: [item] };
+      }
+      continue;
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      if (block?.type === 'quote') {
+        block.text += `\n${quote[1]}`;
+      } else {
+        close();
+        current = { type: 'quote', text: quote[1] };
+      }
+      continue;
+    }
+
+    if (block?.type === 'list') {
+      // An indented line continues the previous item; anything else starts a paragraph.
+      if (/^\s+/.test(line)) {
+        const lastItem = block.items[block.items.length - 1];
+        lastItem.text += ` ${line.trim()}`;
+        continue;
+      }
+      close();
+    }
+
+    if (block?.type === 'paragraph') {
+      block.text += `\n${line}`;
+    } else {
+      close();
+      current = { type: 'paragraph', text: line };
+    }
+  }
+
+  close();
+
+  return drafts.map(finalize).filter((block): block is MarkdownBlock => block !== null);
+}
@@ -0,0 +1,122 @@
+import { supabase } from './supabase';
+
+/**
+ * The curated `nature_places` catalog, mirroring
+ * `supabase/functions/_shared/nature-places.ts`.
+ */
+
+export type NaturePlaceCategory = 'park' | 'trail' | 'waterfront' | 'garden' | 'forest' | 'reserve';
+export type Amenity = 'restrooms' | 'benches' | 'shade' | 'water' | 'parking';
+export type Surface = 'paved' | 'gravel' | 'dirt' | 'grass' | 'boardwalk' | 'sand' | 'mixed';
+export type AccessibilityFeature =
+  | 'wheelchair_accessible'
+  | 'step_free'
+  | 'stroller_friendly'
+  | 'accessible_restrooms'
+  | 'accessible_parking';
+
+export const AMENITY_LABELS: Record<Amenity, string> = {
+  restrooms: 'Restrooms',
+  benches: 'Benches',
+  shade: 'Shade',
+  water: 'Drinking water',
+  parking: 'Parking',
+};
+
+export const ACCESSIBILITY_LABELS: Record<AccessibilityFeature, string> = {
+  wheelchair_accessible: 'Wheelchair accessible',
+  step_free: 'Step-free',
+  stroller_friendly: 'Stroller friendly',
+  accessible_restrooms: 'Accessible restrooms',
+  accessible_parking: 'Accessible parking',
+};
+
+export const SURFACE_LABELS: Record<Surface, string> = {
+  paved: 'Paved',
+  gravel: 'Gravel',
+  dirt: 'Dirt',
+  grass: 'Grass',
+  boardwalk: 'Boardwalk',
+  sand: 'Sand',
+  mixed: 'Mixed',
+};
+
+export interface NaturePlace {
+  id: string;
+  name: string;
+  description: string | null;
+  category: NaturePlaceCategory;
+  address: string | null;
+  lat: number;
+  lng: number;
+  amenities: Amenity[];
+  surface: Surface | null;
+  accessibility: AccessibilityFeature[];
+  max_grade_percent: number | null;
+  activities: string[];
+  /** Null for bounding-box searches. */
+  distance_meters: number | null;
+}
+
+export interface NaturePlaceFilters {
+  categories: NaturePlaceCategory[];
+  /** Places must have every selected amenity. */
+  amenities: Amenity[];
+  surfaces: Surface[];
+  /** Places must have every selected feature. */
+  accessibility: AccessibilityFeature[];
+  /** Places suiting any selected activity. */
+  activities: string[];
+  maxGradePercent: number | null;
+}
+
+export const DEFAULT_NATURE_PLACE_FILTERS: NaturePlaceFilters = {
+  categories: [],
+  amenities: [],
+  surfaces: [],
+  accessibility: [],
+  activities: [],
+  maxGradePercent: null,
+};
+
+export type NaturePlaceArea =
+  | { lat: number; lng: number; radiusMeters: number }
+  | { minLat: number; minLng: number; maxLat: number; maxLng: number };
+
+const SEARCH_LIMIT = 50;
+
+function nonEmpty<T>(values: T[]): T[] | undefined {
+  return values.length > 0 ? values : undefined;
+}
+
+class NaturePlacesAPI {
+  /** Places within a radius (nearest first) or a bounding box (by name) matching the filters. */
+  async search(
+    area: NaturePlaceArea,
+    filters: NaturePlaceFilters = DEFAULT_NATURE_PLACE_FILTERS
+  ): Promise<NaturePlace[]> {
+    const { data, error } = await supabase.rpc('search_nature_places', {
+      ...('radiusMeters' in area
+        ? { p_lat: area.lat, p_lng: area.lng, p_radius_meters: area.radiusMeters }
+        : { p_min_lat: area.minLat, p_min_lng: area.minLng, p_max_lat: area.maxLat, p_max_lng: area.maxLng }),
+      p_categories: nonEmpty(filters.categories),
+      p_amenities: nonEmpty(filters.amenities),
+      p_surfaces: nonEmpty(filters.surfaces),
+      p_accessibility: nonEmpty(filters.accessibility),
+      p_activities: nonEmpty(filters.activities),
+      p_max_grade_percent: filters.maxGradePercent ?? undefined,
+      p_limit: SEARCH_LIMIT,
+    });
+
+    if (error) {
+      throw new Error(`Failed to search nature places: ${error.message}`);
+    }
+
+    return (data ?? []).map((place: NaturePlace) => ({
+      ...place,
+      max_grade_percent: place.max_grade_percent === null ? null : Number(place.max_grade_percent),
+    }));
+  }
+}
+
+export const naturePlacesAPI = new NaturePlacesAPI();
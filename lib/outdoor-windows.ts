@@ -0,0 +1,201 @@
+import type { AirQuality, HourlyForecast, WeatherForecast } from './weather-api';
+
+/**
+ * Ranks the rest of today's daylight hours by how pleasant they are to be
+ * outside, from the hourly forecast, UV, air quality, sunrise/sunset and the
+ * user's preferred activities. Every hour starts at 100 and loses points for
+ * rain, discomfort, wind, UV and poor air; the best non-overlapping windows
+ * are returned.
+ */
+
+export interface OutdoorWindow {
+  start: string;
+  end: string;
+  /** 0–100, the average of the window's hourly scores. */
+  score: number;
+  rating: 'Great' | 'Good' | 'Fair';
+  /** Short reasons the window is good, e.g. "Dry", "18°C". */
+  highlights: string[];
+  /** Things to prepare for, e.g. "UV 7 — bring sun protection". */
+  cautions: string[];
+}
+
+export interface OutdoorWindowOptions {
+  now?: Date;
+  /** Length of each recommended window. Shorter windows are used near the end of the day. */
+  windowHours?: number;
+  limit?: number;
+}
+
+interface ComfortRange {
+  min: number;
+  max: number;
+}
+
+interface HourScore {
+  hour: HourlyForecast;
+  score: number;
+  goldenHour: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const MIN_WINDOW_SCORE = 40;
+const GOLDEN_HOUR_MS = 90 * 60 * 1000;
+
+const DEFAULT_COMFORT: ComfortRange = { min: 12, max: 24 };
+// Running and hiking warm you up, so cooler weather is more comfortable.
+const ACTIVE_COMFORT: ComfortRange = { min: 8, max: 20 };
+const ACTIVE_ACTIVITIES = ['Hiking', 'Jogging'];
+// Birds are most active, and light is softest, around sunrise and sunset.
+const GOLDEN_HOUR_ACTIVITIES = ['Bird Watching', 'Photography'];
+// Sitting still: wind and chill are felt more.
+const STILL_ACTIVITIES = ['Meditation'];
+
+const AIR_QUALITY_PENALTY: Record<number, number> = { 1: 0, 2: 0, 3: 10, 4: 25, 5: 40 };
+
+function scoreHour(
+  hour: HourlyForecast,
+  airQuality: AirQuality | null,
+  comfort: ComfortRange,
+  windWeight: number
+): number {
+  let score = 100;
+
+  score -= hour.precipitation_probability * 0.6;
+  if (hour.precipitation_mm >= 0.5) {
+    score -= 20;
+  }
+
+  const feelsLike = hour.feels_like_c;
+  if (feelsLike < comfort.min) {
+    score -= (comfort.min - feelsLike) * 3;
+  } else if (feelsLike > comfort.max) {
+    score -= (feelsLike - comfort.max) * (feelsLike > 30 ? 6 : 3);
+  }
+
+  if (hour.wind_speed_ms > 6) {
+    score -= (hour.wind_speed_ms - 6) * 4 * windWeight;
+  }
+
+  if (hour.uv_index > 5) {
+    score -= (hour.uv_index - 5) * 6;
+  }
+
+  score -= AIR_QUALITY_PENALTY[airQuality?.aqi ?? 1] ?? 0;
+
+  return Math.max(0, Math.min(100, score));
+}
+
+function describeWindow(hours: HourScore[], airQuality: AirQuality | null, activities: string[]) {
+  const highlights: string[] = [];
+  const cautions: string[] = [];
+
+  const maxRain = Math.max(...hours.map(({ hour }) => hour.precipitation_probability));
+  const temperatures = hours.map(({ hour }) => Math.round(hour.temperature_c));
+  const maxWind = Math.max(...hours.map(({ hour }) => hour.wind_speed_ms));
+  const maxUv = Math.max(...hours.map(({ hour }) => hour.uv_index));
+  const low = Math.min(...temperatures);
+  const high = Math.max(...temperatures);
+
+  highlights.push(low === high ? `${high}°C` : `${low}–${high}°C`);
+  if (maxRain < 20) {
+    highlights.push('Dry');
+  } else {
+    cautions.push(`${maxRain}% chance of rain`);
+  }
+  if (maxWind < 4) {
+    highlights.push('Calm');
+  } else if (maxWind >= 8) {
+    cautions.push(`Windy, up to ${Math.round(maxWind)} m/s`);
+  }
+  if (maxUv >= 6) {
+    cautions.push(`UV ${Math.round(maxUv)} — bring sun protection`);
+  }
+  if (airQuality && airQuality.aqi >= 3) {
+    cautions.push(`${airQuality.label} air quality`);
+  }
+  if (hours.some(({ goldenHour }) => goldenHour) && activities.some(activity => GOLDEN_HOUR_ACTIVITIES.includes(activity))) {
+    highlights.push('Golden hour');
+  }
+
+  return { highlights, cautions };
+}
+
+function toRating(score: number): OutdoorWindow['rating'] {
+  if (score >= 80) return 'Great';
+  if (score >= 60) return 'Good';
+  return 'Fair';
+}
+
+export function rankOutdoorWindows(
+  forecast: WeatherForecast,
+  preferredActivities: string[],
+  { now = new Date(), windowHours = 2, limit = 3 }: OutdoorWindowOptions = {}
+): OutdoorWindow[] {
+  const today = forecast.daily[0];
+  if (!today?.sunrise || !today.sunset) {
+    return [];
+  }
+
+  const sunrise = new Date(today.sunrise).getTime();
+  const sunset = new Date(today.sunset).getTime();
+  const comfort = preferredActivities.some(activity => ACTIVE_ACTIVITIES.includes(activity))
+    ? ACTIVE_COMFORT
+    : DEFAULT_COMFORT;
+  const windWeight = preferredActivities.some(activity => STILL_ACTIVITIES.includes(activity)) ? 2 : 1;
+  const goldenHourBonus = preferredActivities.some(activity => GOLDEN_HOUR_ACTIVITIES.includes(activity)) ? 10 : 0;
+
+  // Hours that are mostly in daylight and have not finished yet.
+  const hours: HourScore[] = forecast.hourly
+    .filter(hour => {
+      const start = new Date(hour.time).getTime();
+      const middle = start + HOUR_MS / 2;
+      return start + HOUR_MS > now.getTime() && middle >= sunrise && middle <= sunset;
+    })
+    .map(hour => {
+      const middle = new Date(hour.time).getTime() + HOUR_MS / 2;
+      const goldenHour = middle - sunrise <= GOLDEN_HOUR_MS || sunset - middle <= GOLDEN_HOUR_MS;
+      const score = scoreHour(hour, forecast.air_quality, comfort, windWeight) + (goldenHour ? goldenHourBonus : 0);
+      return { hour, score: Math.min(100, score), goldenHour };
+    });
+
+  const length = Math.min(windowHours, hours.length);
+  if (length === 0) {
+    return [];
+  }
+
+  const candidates = hours.slice(0, hours.length - length + 1).map((_, index) => {
+    const slice = hours.slice(index, index + length);
+    return {
+      index,
+      slice,
+      score: Math.round(slice.reduce((total, { score }) => total + score, 0) / slice.length),
+    };
+  });
+
+  const chosen: typeof candidates = [];
+  for (const candidate of [...candidates].sort((a, b) => b.score - a.score || a.index - b.index)) {
+    if (chosen.length >= limit || candidate.score < MIN_WINDOW_SCORE) break;
+    if (chosen.every(other => Math.abs(other.index - candidate.index) >= length)) {
+      chosen.push(candidate);
+    }
+  }
+
+  return chosen.map(({ slice, score }) => {
+    const start = new Date(Math.max(new Date(slice[0].hour.time).getTime(), now.getTime()));
+    const end = new Date(new Date(slice[slice.length - 1].hour.time).getTime() + HOUR_MS);
+
+    return {
+      start: start.toISOString(),
+      end: new Date(Math.min(end.getTime(), sunset)).toISOString(),
+      score,
+      rating: toRating(score),
+      ...describeWindow(slice, forecast.air_quality, preferredActivities),
+    };
+  });
+}
+
+export function formatWindowTime(window: Pick<OutdoorWindow, 'start' | 'end'>): string {
+  const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  return `${time(window.start)} – ${time(window.end)}`;
+}
@@ -0,0 +1,99 @@
+import { supabase } from './supabase';
+
+/**
+ * Place shapes returned by the places edge function; they mirror
+ * `supabase/functions/_shared/places-provider.ts`. Coordinates are decimal
+ * degrees and ids are the provider's place ids.
+ */
+
+export type PlaceCategory = 'park' | 'trail' | 'waterfront';
+
+export interface GeocodeResult {
+  id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  types: string[];
+}
+
+export interface NearbyPlace {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  category: PlaceCategory;
+  types: string[];
+  /** Average user rating, 1–5. */
+  rating: number | null;
+  /** Straight-line distance from the searched point. */
+  distance_meters: number;
+}
+
+export interface PlacesResponse<T> {
+  provider: string;
+  results: T[];
+  /** Served from the server-side cache. */
+  cached: boolean;
+  /** The provider was unreachable and expired results were served instead. */
+  stale: boolean;
+}
+
+export interface NearbySearchOptions {
+  /** Defaults to 5 km on the server; at most 50 km. */
+  radiusMeters?: number;
+  /** Defaults to every category. */
+  categories?: PlaceCategory[];
+}
+
+class PlacesAPI {
+  private async request<T>(endpoint: string, params: Record<string, string>): Promise<PlacesResponse<T>> {
+    const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+    if (!supabaseUrl) {
+      throw new Error('Supabase URL not configured');
+    }
+
+    const session = await supabase.auth.getSession();
+    if (!session.data.session) {
+      throw new Error('Not authenticated');
+    }
+
+    const query = new URLSearchParams(params).toString();
+    const response = await fetch(`${supabaseUrl}/functions/v1/places/${endpoint}?${query}`, {
+      headers: { 'Authorization': `Bearer ${session.data.session.access_token}` },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to look up places');
+    }
+
+    return response.json();
+  }
+
+  /** Addresses and places matching a typed query, best match first. */
+  async geocode(query: string): Promise<PlacesResponse<GeocodeResult>> {
+    return this.request('geocode', { query });
+  }
+
+  /** Addresses at a position, most specific first. */
+  async reverseGeocode(lat: number, lng: number): Promise<PlacesResponse<GeocodeResult>> {
+    return this.request('reverse', { lat: String(lat), lng: String(lng) });
+  }
+
+  /** Parks, trails and waterfronts around a position, nearest first. */
+  async searchNearby(
+    lat: number,
+    lng: number,
+    { radiusMeters, categories }: NearbySearchOptions = {}
+  ): Promise<PlacesResponse<NearbyPlace>> {
+    return this.request('nearby', {
+      lat: String(lat),
+      lng: String(lng),
+      ...(radiusMeters !== undefined && { radius: String(radiusMeters) }),
+      ...(categories && categories.length > 0 && { categories: categories.join(',') }),
+    });
+  }
+}
+
+export const placesAPI = new PlacesAPI();
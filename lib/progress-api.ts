@@ -0,0 +1,72 @@
+import { supabase } from './supabase';
+
+export interface WeeklyNatureTime {
+  /** Monday of the week, as YYYY-MM-DD. */
+  week_start: string;
+  minutes: number;
+  excursions: number;
+}
+
+export interface ActivityNatureTime {
+  activity: string;
+  minutes: number;
+  excursions: number;
+}
+
+export interface NatureTimeProgress {
+  weekly_goal_minutes: number;
+  current_week_start: string;
+  /** Oldest first, ending with the current week. */
+  weeks: WeeklyNatureTime[];
+  current_streak_weeks: number;
+  longest_streak_weeks: number;
+  activities: ActivityNatureTime[];
+  total_minutes: number;
+  total_excursions: number;
+}
+
+export const DEFAULT_WEEKLY_GOAL_MINUTES = 120;
+export const WEEKLY_GOAL_OPTIONS = [60, 90, 120, 150, 180, 240, 300];
+
+const HISTORY_WEEKS = 12;
+
+class ProgressAPI {
+  async getProgress(weeks = HISTORY_WEEKS): Promise<NatureTimeProgress> {
+    const { data, error } = await supabase.rpc('get_nature_time_progress', {
+      p_weeks: weeks,
+      p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch progress: ${error.message}`);
+    }
+
+    return data as NatureTimeProgress;
+  }
+
+  async setWeeklyGoal(minutes: number): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ weekly_goal_minutes: minutes })
+      .eq('id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to update weekly goal: ${error.message}`);
+    }
+  }
+}
+
+export function getCurrentWeek(progress: NatureTimeProgress): WeeklyNatureTime {
+  return progress.weeks[progress.weeks.length - 1] ?? {
+    week_start: progress.current_week_start,
+    minutes: 0,
+    excursions: 0,
+  };
+}
+
+export const progressAPI = new ProgressAPI();
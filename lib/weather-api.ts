@@ -0,0 +1,208 @@
+import { supabase } from './supabase';
+
+/**
+ * Forecast shapes returned by the weather-api edge function; they mirror
+ * `supabase/functions/_shared/weather-provider.ts`. Units are metric and times
+ * are ISO 8601 strings in UTC.
+ */
+
+export interface WeatherCondition {
+  code: number;
+  /** Condition group: Clear, Clouds, Rain, Snow, Thunderstorm... */
+  main: string;
+  description: string;
+  icon: string;
+}
+
+export interface CurrentWeather {
+  time: string;
+  temperature_c: number;
+  feels_like_c: number;
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  cloud_cover: number;
+  visibility_m: number | null;
+  precipitation_mm: number;
+  condition: WeatherCondition;
+  sunrise: string | null;
+  sunset: string | null;
+}
+
+export interface HourlyForecast {
+  time: string;
+  temperature_c: number;
+  feels_like_c: number;
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  cloud_cover: number;
+  /** Chance of precipitation, 0–100. */
+  precipitation_probability: number;
+  precipitation_mm: number;
+  condition: WeatherCondition;
+}
+
+export interface DailyForecast {
+  /** Local date at the forecast location, YYYY-MM-DD. */
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  summary: string | null;
+  temperature_min_c: number;
+  temperature_max_c: number;
+  feels_like_day_c: number;
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  precipitation_probability: number;
+  precipitation_mm: number;
+  condition: WeatherCondition;
+}
+
+export interface AirQuality {
+  /** 1 (good) to 5 (very poor). */
+  aqi: number;
+  label: 'Good' | 'Fair' | 'Moderate' | 'Poor' | 'Very Poor';
+  pm2_5: number | null;
+  pm10: number | null;
+  o3: number | null;
+  no2: number | null;
+}
+
+export interface WeatherAlert {
+  event: string;
+  sender: string | null;
+  start: string;
+  end: string;
+  description: string;
+}
+
+/** Universal Pollen Index per plant type, 0 (none) to 5 (very high). */
+export interface PollenDay {
+  date: string;
+  grass: number | null;
+  tree: number | null;
+  weed: number | null;
+}
+
+export interface WeatherMeta {
+  provider: string;
+  location: { lat: number; lng: number };
+  timezone: string;
+  timezone_offset_seconds: number;
+  fetched_at: string;
+  /** Served from the server-side cache. */
+  cached: boolean;
+  /** The provider was unreachable and an expired forecast was served instead. */
+  stale: boolean;
+}
+
+export interface WeatherForecast extends WeatherMeta {
+  current: CurrentWeather;
+  hourly: HourlyForecast[];
+  daily: DailyForecast[];
+  air_quality: AirQuality | null;
+  alerts: WeatherAlert[];
+  /** Empty when the server has no pollen source configured. */
+  pollen: PollenDay[];
+}
+
+export type CurrentWeatherResponse = WeatherMeta & Pick<WeatherForecast, 'current' | 'air_quality' | 'alerts'>;
+export type HourlyForecastResponse = WeatherMeta & Pick<WeatherForecast, 'hourly'>;
+export type DailyForecastResponse = WeatherMeta & Pick<WeatherForecast, 'daily'>;
+
+export interface WeatherHazard {
+  type: 'rain' | 'heat' | 'wind';
+  message: string;
+}
+
+/**
+ * Forecast saved in `excursions.weather_conditions` by the excursion creator,
+ * mirroring `supabase/functions/_shared/weather-context.ts`. Older excursions
+ * hold free-form JSON instead; use `isWeatherSnapshot` to tell them apart.
+ */
+export interface WeatherSnapshot {
+  source: 'forecast';
+  provider: string;
+  fetched_at: string;
+  timezone: string;
+  timezone_offset_seconds: number;
+  window_start: string;
+  window_end: string;
+  resolution: 'hourly' | 'daily';
+  summary: {
+    condition: string;
+    temperature_min_c: number;
+    temperature_max_c: number;
+    feels_like_max_c: number;
+    precipitation_probability: number;
+    precipitation_mm: number;
+    wind_speed_max_ms: number;
+    wind_gust_max_ms: number | null;
+    uv_index_max: number;
+    heat_index_max_c?: number;
+  };
+  air_quality: AirQuality | null;
+  /** Missing on snapshots saved before pollen was tracked. */
+  pollen?: PollenDay | null;
+  alerts: WeatherAlert[];
+  hazards: WeatherHazard[];
+  note: string | null;
+  hourly: HourlyForecast[];
+}
+
+export function isWeatherSnapshot(value: Record<string, unknown> | null): value is WeatherSnapshot & Record<string, unknown> {
+  return value?.source === 'forecast' && typeof value.summary === 'object' && value.summary !== null;
+}
+
+class WeatherAPI {
+  private async request<T>(endpoint: string, lat: number, lng: number): Promise<T> {
+    const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+    if (!supabaseUrl) {
+      throw new Error('Supabase URL not configured');
+    }
+
+    const session = await supabase.auth.getSession();
+    if (!session.data.session) {
+      throw new Error('Not authenticated');
+    }
+
+    const path = endpoint ? `weather-api/${endpoint}` : 'weather-api';
+    const response = await fetch(`${supabaseUrl}/functions/v1/${path}?lat=${lat}&lng=${lng}`, {
+      headers: { 'Authorization': `Bearer ${session.data.session.access_token}` },
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.error || 'Failed to fetch weather');
+    }
+
+    return response.json();
+  }
+
+  /** Current conditions, the next 48 hours and the next 7 days in one call. */
+  async getForecast(lat: number, lng: number): Promise<WeatherForecast> {
+    return this.request('', lat, lng);
+  }
+
+  async getCurrent(lat: number, lng: number): Promise<CurrentWeatherResponse> {
+    return this.request('current', lat, lng);
+  }
+
+  async getHourly(lat: number, lng: number): Promise<HourlyForecastResponse> {
+    return this.request('hourly', lat, lng);
+  }
+
+  async getDaily(lat: number, lng: number): Promise<DailyForecastResponse> {
+    return this.request('daily', lat, lng);
+  }
+}
+
+export const weatherAPI = new WeatherAPI();
@@ -0,0 +1,89 @@
+import { supabase } from './supabase';
+
+export type CheckInPhase = 'before' | 'after';
+
+export interface WellbeingScores {
+  mood: number;
+  stress: number;
+  energy: number;
+}
+
+export interface WellbeingCheckIn extends WellbeingScores {
+  id: string;
+  user_id: string;
+  excursion_id: string;
+  session_id: string | null;
+  phase: CheckInPhase;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface CheckInInput extends WellbeingScores {
+  excursionId: string;
+  sessionId?: string | null;
+  phase: CheckInPhase;
+  notes: string;
+}
+
+const TREND_CHECK_IN_LIMIT = 60;
+
+class WellbeingAPI {
+  async getExcursionCheckIns(excursionId: string): Promise<WellbeingCheckIn[]> {
+    const { data, error } = await supabase
+      .from('wellbeing_checkins')
+      .select('*')
+      .eq('excursion_id', excursionId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch check-ins: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /** The user's most recent check-ins across all excursions, oldest first. */
+  async getRecentCheckIns(limit = TREND_CHECK_IN_LIMIT): Promise<WellbeingCheckIn[]> {
+    const { data, error } = await supabase
+      .from('wellbeing_checkins')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch check-ins: ${error.message}`);
+    }
+
+    return (data || []).reverse();
+  }
+
+  async saveCheckIn(input: CheckInInput): Promise<WellbeingCheckIn> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('wellbeing_checkins')
+      .insert({
+        user_id: user.id,
+        excursion_id: input.excursionId,
+        session_id: input.sessionId ?? null,
+        phase: input.phase,
+        mood: input.mood,
+        stress: input.stress,
+        energy: input.energy,
+        notes: input.notes.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save check-in: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+export const wellbeingAPI = new WellbeingAPI();
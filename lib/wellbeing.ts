@@ -0,0 +1,97 @@
+import { colors } from './colors';
+import type { WellbeingCheckIn, WellbeingScores } from './wellbeing-api';
+
+export type WellbeingMetric = keyof WellbeingScores;
+
+export interface MetricDefinition {
+  key: WellbeingMetric;
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+  /** False for stress, where a lower score is the better outcome. */
+  higherIsBetter: boolean;
+  color: string;
+}
+
+export const METRICS: MetricDefinition[] = [
+  { key: 'mood', label: 'Mood', lowLabel: 'Low', highLabel: 'Great', higherIsBetter: true, color: colors.primary },
+  { key: 'stress', label: 'Stress', lowLabel: 'Calm', highLabel: 'Very stressed', higherIsBetter: false, color: colors.error },
+  { key: 'energy', label: 'Energy', lowLabel: 'Drained', highLabel: 'Energized', higherIsBetter: true, color: colors.warning },
+];
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+export const DEFAULT_SCORES: WellbeingScores = { mood: 5, stress: 5, energy: 5 };
+
+export interface CheckInPair {
+  excursionId: string;
+  before: WellbeingCheckIn;
+  after: WellbeingCheckIn;
+  change: WellbeingScores;
+}
+
+/**
+ * Matches each after check-in with the latest unmatched before check-in for
+ * the same session, or for the same excursion when neither has a session.
+ * Check-ins must be sorted oldest first.
+ */
+export function pairCheckIns(checkIns: WellbeingCheckIn[]): CheckInPair[] {
+  const pending = new Map<string, WellbeingCheckIn>();
+  const pairs: CheckInPair[] = [];
+
+  for (const checkIn of checkIns) {
+    const key = checkIn.session_id ?? `excursion:${checkIn.excursion_id}`;
+
+    if (checkIn.phase === 'before') {
+      pending.set(key, checkIn);
+      continue;
+    }
+
+    const before = pending.get(key);
+    if (!before) continue;
+
+    pending.delete(key);
+    pairs.push({
+      excursionId: checkIn.excursion_id,
+      before,
+      after: checkIn,
+      change: {
+        mood: checkIn.mood - before.mood,
+        stress: checkIn.stress - before.stress,
+        energy: checkIn.energy - before.energy,
+      },
+    });
+  }
+
+  return pairs;
+}
+
+export function averageChange(pairs: CheckInPair[]): WellbeingScores | null {
+  if (pairs.length === 0) return null;
+
+  const total = pairs.reduce(
+    (sum, pair) => ({
+      mood: sum.mood + pair.change.mood,
+      stress: sum.stress + pair.change.stress,
+      energy: sum.energy + pair.change.energy,
+    }),
+    { mood: 0, stress: 0, energy: 0 }
+  );
+
+  return {
+    mood: total.mood / pairs.length,
+    stress: total.stress / pairs.length,
+    energy: total.energy / pairs.length,
+  };
+}
+
+export function isImprovement(metric: MetricDefinition, change: number): boolean {
+  return metric.higherIsBetter ? change > 0 : change < 0;
+}
+
+/** Signed change with at most one decimal, e.g. "+2", "-1.5" or "0". */
+export function formatChange(change: number): string {
+  const rounded = Math.round(change * 10) / 10;
+  if (rounded === 0) return '0';
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
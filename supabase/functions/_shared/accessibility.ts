@@ -0,0 +1,343 @@
+import type { DifficultyLevel, ExcursionInput, ExcursionWaypoint, ValidationIssue } from "./excursion-validation.ts";
+import type { NaturePlaceAccessibility, Surface } from "./nature-places.ts";
+import { haversineDistance } from "./route-metrics.ts";
+
+export const MOBILITY_AIDS = ["wheelchair", "walker"] as const;
+
+export type MobilityAid = typeof MOBILITY_AIDS[number];
+
+/**
+ * `user_profiles.accessibility_needs`, as written by
+ * `lib/accessibility-needs-api.ts`. Every key is optional in the column.
+ */
+export interface AccessibilityNeeds {
+  mobilityAid: MobilityAid | null;
+  /** Longest distance the user can walk or wheel before stopping to rest. */
+  maxContinuousWalkMeters: number | null;
+  maxGradePercent: number | null;
+  needsRestStops: boolean;
+  needsRestrooms: boolean;
+}
+
+/** What is stored in `excursions.accessibility`, computed from the route's waypoints. */
+export interface RouteAccessibility {
+  /** No waypoint reports steps on the way to it. */
+  step_free: boolean;
+  /** Step-free with every segment on a surface a wheelchair can use; false for a route with no segments. */
+  wheelchair_accessible: boolean;
+  /** Distinct surfaces reported on the route; segments without one are not included. */
+  surfaces: Surface[];
+  /** Steepest grade between consecutive waypoints with altitudes; null without altitudes. */
+  max_grade_percent: number | null;
+  /** Longest distance between the start, rest stops, restrooms and the finish. */
+  longest_stretch_meters: number;
+  rest_stops: number;
+  restrooms: number;
+}
+
+/** The limits a route is checked against, derived from the profile. */
+export interface AccessibilityLimits {
+  maxGradePercent: number | null;
+  maxStretchMeters: number | null;
+  /** Null when any surface will do. */
+  surfaces: readonly Surface[] | null;
+  stepFree: boolean;
+  restStops: boolean;
+  restrooms: boolean;
+  difficulties: readonly DifficultyLevel[] | null;
+  /** Why the limits apply, for the instructions. */
+  reasons: string[];
+}
+
+export const EMPTY_ACCESSIBILITY_NEEDS: AccessibilityNeeds = {
+  mobilityAid: null,
+  maxContinuousWalkMeters: null,
+  maxGradePercent: null,
+  needsRestStops: false,
+  needsRestrooms: false,
+};
+
+// Keep in sync with `is_valid_accessibility_needs` in the accessibility needs migration.
+export const CONTINUOUS_WALK_LIMITS_METERS = { min: 50, max: 20000 };
+export const GRADE_LIMITS_PERCENT = { min: 1, max: 20 };
+
+// The ADA ramp limit of 1:12, used for wheelchair users who have not set their own.
+const WHEELCHAIR_MAX_GRADE_PERCENT = 8;
+// How far apart rest stops may be for users who need them but have not set a distance.
+const DEFAULT_REST_INTERVAL_METERS = 800;
+
+const WHEELCHAIR_SURFACES: readonly Surface[] = ["paved", "boardwalk"];
+const WALKER_SURFACES: readonly Surface[] = ["paved", "boardwalk", "gravel"];
+const GENTLE_DIFFICULTIES: readonly DifficultyLevel[] = ["Easy"];
+
+// Altitudes this close together say more about rounding than about the slope.
+const MIN_GRADE_SEGMENT_METERS = 10;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toLimit(value: unknown, limits: { min: number; max: number }): number | null {
+  return typeof value === "number" && value >= limits.min && value <= limits.max ? value : null;
+}
+
+/** Reads the jsonb column, dropping anything that does not fit the schema. */
+export function parseAccessibilityNeeds(value: unknown): AccessibilityNeeds {
+  if (!isRecord(value)) {
+    return EMPTY_ACCESSIBILITY_NEEDS;
+  }
+
+  return {
+    mobilityAid: (MOBILITY_AIDS as readonly unknown[]).includes(value.mobilityAid)
+      ? value.mobilityAid as MobilityAid
+      : null,
+    maxContinuousWalkMeters: toLimit(value.maxContinuousWalkMeters, CONTINUOUS_WALK_LIMITS_METERS),
+    maxGradePercent: toLimit(value.maxGradePercent, GRADE_LIMITS_PERCENT),
+    needsRestStops: value.needsRestStops === true,
+    needsRestrooms: value.needsRestrooms === true,
+  };
+}
+
+/**
+ * Turns the profile into hard limits. Wheelchair users default to the ADA ramp
+ * grade and firm, smooth surfaces; walker users also accept gravel. Limited
+ * mobility or a mobility aid restricts plans to Easy ones.
+ */
+export function getAccessibilityLimits(profile: {
+  mobilityLevel: string | null;
+  accessibilityNeeds: AccessibilityNeeds;
+}): AccessibilityLimits {
+  const needs = profile.accessibilityNeeds;
+  const wheelchair = needs.mobilityAid === "wheelchair";
+  const limitedMobility = profile.mobilityLevel === "limited";
+
+  const reasons = [
+    needs.mobilityAid ? `uses a ${needs.mobilityAid}` : null,
+    limitedMobility ? "limited mobility" : null,
+    needs.maxContinuousWalkMeters !== null ? `walks at most ${needs.maxContinuousWalkMeters} m without resting` : null,
+    needs.maxGradePercent !== null ? `manages grades up to ${needs.maxGradePercent}%` : null,
+    needs.needsRestStops ? "needs places to sit and rest" : null,
+    needs.needsRestrooms ? "needs restrooms on the way" : null,
+  ].filter((reason): reason is string => reason !== null);
+
+  return {
+    maxGradePercent: needs.maxGradePercent ?? (wheelchair ? WHEELCHAIR_MAX_GRADE_PERCENT : null),
+    maxStretchMeters: needs.maxContinuousWalkMeters ?? (needs.needsRestStops ? DEFAULT_REST_INTERVAL_METERS : null),
+    surfaces: wheelchair ? WHEELCHAIR_SURFACES : needs.mobilityAid === "walker" ? WALKER_SURFACES : null,
+    stepFree: needs.mobilityAid !== null,
+    restStops: needs.needsRestStops,
+    restrooms: needs.needsRestrooms,
+    difficulties: limitedMobility || needs.mobilityAid ? GENTLE_DIFFICULTIES : null,
+    reasons,
+  };
+}
+
+/** True when a route has to be checked at all. */
+function needsRouteCheck(limits: AccessibilityLimits): boolean {
+  return limits.maxGradePercent !== null || limits.maxStretchMeters !== null || limits.surfaces !== null ||
+    limits.stepFree || limits.restStops || limits.restrooms;
+}
+
+function isRestPoint(waypoint: ExcursionWaypoint): boolean {
+  return waypoint.rest_stop === true || waypoint.restroom === true;
+}
+
+/**
+ * Summarizes a route's accessibility from its waypoint attributes. Surface and
+ * steps describe the path from the previous waypoint. Grades are averaged
+ * between waypoints, so a route needs waypoints at every change of slope for
+ * them to be meaningful.
+ */
+export function computeRouteAccessibility(route: ExcursionWaypoint[]): RouteAccessibility {
+  let maxGrade: number | null = null;
+  let longestStretch = 0;
+  let stretch = 0;
+  let wheelchairSurfaces = true;
+  const surfaces = new Set<Surface>();
+
+  for (let index = 1; index < route.length; index++) {
+    const from = route[index - 1];
+    const to = route[index];
+    const distance = haversineDistance(from, to);
+
+    if (typeof from.altitude === "number" && typeof to.altitude === "number" && distance >= MIN_GRADE_SEGMENT_METERS) {
+      const grade = (Math.abs(to.altitude - from.altitude) / distance) * 100;
+      maxGrade = Math.max(maxGrade ?? 0, grade);
+    }
+
+    if (to.surface) {
+      surfaces.add(to.surface);
+    }
+    if (!to.surface || !WHEELCHAIR_SURFACES.includes(to.surface)) {
+      wheelchairSurfaces = false;
+    }
+
+    stretch += distance;
+    longestStretch = Math.max(longestStretch, stretch);
+    if (isRestPoint(to)) {
+      stretch = 0;
+    }
+  }
+
+  const stepFree = !route.some((waypoint, index) => index > 0 && waypoint.steps === true);
+
+  return {
+    step_free: stepFree,
+    wheelchair_accessible: route.length > 1 && stepFree && wheelchairSurfaces,
+    surfaces: [...surfaces],
+    max_grade_percent: maxGrade === null ? null : Math.round(maxGrade * 10) / 10,
+    longest_stretch_meters: Math.round(longestStretch),
+    rest_stops: route.filter((waypoint) => waypoint.rest_stop === true).length,
+    restrooms: route.filter((waypoint) => waypoint.restroom === true).length,
+  };
+}
+
+/**
+ * Checks an excursion against the user's limits. Anything that cannot be
+ * verified (a missing route, altitudes or surfaces) is reported too, so a plan
+ * is only saved once it is known to fit. Messages are phrased for the model.
+ */
+export function checkAccessibility(excursion: ExcursionInput, limits: AccessibilityLimits): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  if (limits.difficulties && !limits.difficulties.includes(excursion.difficulty_level)) {
+    issues.push({
+      path: "difficulty_level",
+      message: `must be ${limits.difficulties.join(" or ")} for this user (${limits.reasons.join(", ")})`,
+    });
+  }
+
+  if (!needsRouteCheck(limits)) {
+    return issues;
+  }
+
+  const route = excursion.route_data;
+  if (!route) {
+    issues.push({
+      path: "route_data",
+      message: "is required so the route can be checked against the user's accessibility needs",
+    });
+    return issues;
+  }
+
+  const summary = computeRouteAccessibility(route);
+
+  if (limits.stepFree) {
+    route.forEach((waypoint, index) => {
+      if (index > 0 && waypoint.steps === true) {
+        issues.push({ path: `route_data.${index}.steps`, message: "the route must be step-free for this user" });
+      }
+    });
+  }
+
+  if (limits.surfaces) {
+    const allowed = limits.surfaces;
+    route.forEach((waypoint, index) => {
+      if (index === 0) return;
+      if (!waypoint.surface) {
+        issues.push({
+          path: `route_data.${index}.surface`,
+          message: `is required; the user needs ${allowed.join(" or ")} paths`,
+        });
+      } else if (!allowed.includes(waypoint.surface)) {
+        issues.push({
+          path: `route_data.${index}.surface`,
+          message: `${waypoint.surface} is not usable for this user; use ${allowed.join(" or ")} paths`,
+        });
+      }
+    });
+  }
+
+  if (limits.maxGradePercent !== null) {
+    if (route.some((waypoint) => typeof waypoint.altitude !== "number")) {
+      issues.push({
+        path: "route_data",
+        message: `every waypoint needs an altitude so the grade can be checked against the user's ${limits.maxGradePercent}% limit`,
+      });
+    } else if (summary.max_grade_percent === null) {
+      issues.push({
+        path: "route_data",
+        message: `has no consecutive waypoints ${MIN_GRADE_SEGMENT_METERS} m or more apart, so its grade cannot be ` +
+          `measured against the user's ${limits.maxGradePercent}% limit; spread the waypoints out along the route`,
+      });
+    } else if (summary.max_grade_percent > limits.maxGradePercent) {
+      issues.push({
+        path: "route_data",
+        message: `climbs at up to ${summary.max_grade_percent}% between waypoints; the user manages at most ${limits.maxGradePercent}%`,
+      });
+    }
+  }
+
+  if (limits.maxStretchMeters !== null && summary.longest_stretch_meters > limits.maxStretchMeters) {
+    issues.push({
+      path: "route_data",
+      message: `has ${summary.longest_stretch_meters} m without a rest stop or restroom; the user needs one at least ` +
+        `every ${limits.maxStretchMeters} m (mark waypoints with rest_stop or restroom)`,
+    });
+  }
+
+  if (limits.restStops && summary.rest_stops === 0) {
+    issues.push({ path: "route_data", message: "needs at least one waypoint with rest_stop: true (a bench or seat)" });
+  }
+
+  if (limits.restrooms && summary.restrooms === 0) {
+    issues.push({ path: "route_data", message: "needs at least one waypoint with restroom: true" });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks the catalog place an excursion starts at against the user's limits,
+ * using the catalog's surveyed data rather than anything the model reports.
+ * Unknown surface or grade is not held against a place.
+ */
+export function checkPlaceAccessibility(place: NaturePlaceAccessibility, limits: AccessibilityLimits): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const problem = (message: string) =>
+    issues.push({ path: "place_id", message: `${place.name} ${message}; start the excursion at a place that fits` });
+
+  if (limits.maxGradePercent !== null && place.max_grade_percent !== null && place.max_grade_percent > limits.maxGradePercent) {
+    problem(`has grades up to ${place.max_grade_percent}%; the user manages at most ${limits.maxGradePercent}%`);
+  }
+
+  if (limits.surfaces && place.surface && !limits.surfaces.includes(place.surface)) {
+    problem(`has ${place.surface} paths; the user needs ${limits.surfaces.join(" or ")} paths`);
+  }
+
+  if (
+    limits.stepFree &&
+    !place.accessibility.includes("step_free") &&
+    !place.accessibility.includes("wheelchair_accessible")
+  ) {
+    problem("is not listed as step-free or wheelchair accessible");
+  }
+
+  return issues;
+}
+
+/** Run instructions describing the limits; null when the user has none. */
+export function formatAccessibilityContext(limits: AccessibilityLimits): string | null {
+  if (!limits.difficulties && !needsRouteCheck(limits)) {
+    return null;
+  }
+
+  const rules = [
+    limits.difficulties ? `difficulty_level ${limits.difficulties.join(" or ")}` : null,
+    limits.stepFree ? "no steps (mark waypoints reached by steps with steps: true)" : null,
+    limits.surfaces ? `only ${limits.surfaces.join(" or ")} paths (set surface on every waypoint after the start)` : null,
+    limits.maxGradePercent !== null
+      ? `no grade above ${limits.maxGradePercent}% (give every waypoint an altitude, with waypoints at changes of slope)`
+      : null,
+    limits.maxStretchMeters !== null
+      ? `a rest stop or restroom at least every ${limits.maxStretchMeters} m (rest_stop / restroom on waypoints)`
+      : null,
+    limits.restStops ? "at least one rest stop" : null,
+    limits.restrooms ? "at least one restroom" : null,
+  ].filter(Boolean);
+
+  return (
+    `Accessibility needs (${limits.reasons.join(", ")}). create_excursion rejects plans that break these: ` +
+    `${rules.join("; ")}. Prefer find_nature_places results whose accessibility, surface and max_grade_percent fit.`
+  );
+}
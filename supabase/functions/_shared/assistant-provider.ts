@@ -0,0 +1,70 @@
+export type RunStatus =
+  | "queued"
+  | "in_progress"
+  | "requires_action"
+  | "cancelling"
+  | "cancelled"
+  | "failed"
+  | "completed"
+  | "incomplete"
+  | "expired";
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments exactly as the model produced them. */
+  arguments: string;
+}
+
+export interface ToolOutput {
+  toolCallId: string;
+  output: string;
+}
+
+export interface AssistantRun {
+  id: string;
+  status: RunStatus;
+  /** Function calls the run is waiting on when status is requires_action. */
+  toolCalls?: ToolCall[];
+}
+
+export interface AssistantTool {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type RunStreamEvent =
+  | { type: "text_delta"; value: string }
+  | { type: "run_status"; run: AssistantRun };
+
+export interface CreateRunOptions {
+  assistantId: string;
+  /** Overrides the tools configured on the assistant for this run. */
+  tools?: AssistantTool[];
+  /** Appended to the assistant's instructions for this run only. */
+  additionalInstructions?: string;
+}
+
+/**
+ * The subset of the OpenAI Assistants API that the assistant runtime relies on.
+ * Implementations must be stateless between requests apart from the thread itself.
+ */
+export interface AssistantProvider {
+  createThread(): Promise<string>;
+  addMessage(threadId: string, content: string): Promise<void>;
+  createRun(threadId: string, options: CreateRunOptions): Promise<AssistantRun>;
+  getRun(threadId: string, runId: string): Promise<AssistantRun>;
+  submitToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): Promise<AssistantRun>;
+  cancelRun(threadId: string, runId: string): Promise<void>;
+  /** Starts a run and yields reply text as it is generated, followed by run status changes. */
+  streamRun(threadId: string, options: CreateRunOptions): AsyncIterable<RunStreamEvent>;
+  /** Streaming counterpart of submitToolOutputs; yields the events of the resumed run. */
+  streamToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): AsyncIterable<RunStreamEvent>;
+  getLatestAssistantMessage(threadId: string): Promise<string>;
+  /** One-off completion outside any thread, used for conversation titles and summaries. */
+  generateText(instructions: string, input: string): Promise<string>;
+}
@@ -0,0 +1,479 @@
+import { createClient } from "npm:@supabase/supabase-js@2.78.0";
+import type { SupabaseClient, User } from "npm:@supabase/supabase-js@2.78.0";
+import type {
+  AssistantProvider,
+  AssistantRun,
+  AssistantTool,
+  CreateRunOptions,
+  RunStreamEvent,
+  ToolOutput,
+} from "./assistant-provider.ts";
+import { corsHeaders, errorResponse, getErrorMessage, jsonResponse } from "./cors.ts";
+import { formatServerSentEvent } from "./sse.ts";
+import { formatConversationSummary, updateConversationMetadata } from "./conversation-metadata.ts";
+import { FakeOpenAIProvider, type FakeResponder } from "./fake-openai-provider.ts";
+import { OpenAIAssistantProvider } from "./openai-provider.ts";
+import { formatUserContext, loadUserContext, type UserContext } from "./user-context.ts";
+
+export type AssistantType = "health_coach" | "excursion_creator";
+
+export interface ChatRequest {
+  message: string;
+  conversationId?: string;
+  /** When true the reply is sent as server-sent events instead of one JSON body. */
+  stream?: boolean;
+}
+
+export interface ChatResponse {
+  response: string;
+  conversationId: string;
+  threadId: string;
+}
+
+export interface ToolResult {
+  name: string;
+  output: Record<string, unknown>;
+}
+
+export interface AssistantContext<TRequest extends ChatRequest> {
+  supabase: SupabaseClient;
+  user: User;
+  request: TRequest;
+  conversationId: string;
+  threadId: string;
+  /** Rolling summary stored on a resumed conversation; null for new ones. */
+  conversationSummary: string | null;
+  /** Profile and history loaded on the server; never taken from the request. */
+  userContext: UserContext;
+  /** Outputs of every tool call handled during this turn, in call order. */
+  toolResults: ToolResult[];
+}
+
+/** Handles one function call; the returned object is sent back to the model as JSON. */
+export type ToolHandler<TRequest extends ChatRequest> = (
+  args: unknown,
+  context: AssistantContext<TRequest>
+) => Promise<Record<string, unknown>>;
+
+interface AssistantTurn<TRequest extends ChatRequest> extends AssistantContext<TRequest> {
+  provider: AssistantProvider;
+  runOptions: CreateRunOptions;
+}
+
+export interface AssistantFunctionConfig<TRequest extends ChatRequest, TExtra extends object> {
+  assistantType: AssistantType;
+  /** Name of the environment variable holding the OpenAI assistant ID. */
+  assistantIdEnv: string;
+  /** Human-readable name used in configuration errors. */
+  assistantName: string;
+  /** Post-processes the assistant reply and returns extra response fields. */
+  onAssistantReply?: (reply: string, context: AssistantContext<TRequest>) => Promise<TExtra>;
+  /** Extra columns stored on the assistant's message row, e.g. links to rows saved by tools. */
+  messageColumns?: (context: AssistantContext<TRequest>) => Record<string, unknown>;
+  /** Function tools declared on every run, answered by the matching toolHandlers entry. */
+  tools?: AssistantTool[];
+  toolHandlers?: Record<string, ToolHandler<TRequest>>;
+  /** Extra run-level instructions, sent after the user context and never stored in the thread. */
+  additionalInstructions?: (context: AssistantContext<TRequest>) => string | null | Promise<string | null>;
+  /** Canned replies used when ASSISTANT_PROVIDER=fake. */
+  fakeResponder?: FakeResponder;
+}
+
+const RUN_POLL_INTERVAL_MS = 1000;
+const MAX_RUN_POLL_ATTEMPTS = 30;
+// Rounds of tool calls one run may make; a model stuck calling tools is cut off here.
+const MAX_TOOL_ROUNDS = 10;
+
+export function createAssistantProvider(fakeResponder?: FakeResponder): AssistantProvider {
+  if (Deno.env.get("ASSISTANT_PROVIDER") === "fake") {
+    return new FakeOpenAIProvider(fakeResponder);
+  }
+
+  const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!openaiApiKey) {
+    throw new Error("OpenAI API key not configured");
+  }
+
+  return new OpenAIAssistantProvider(openaiApiKey, Deno.env.get("OPENAI_TEXT_MODEL") ?? undefined);
+}
+
+export async function getAuthenticatedClient(
+  req: Request
+): Promise<{ supabase: SupabaseClient; user: User }> {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) {
+    throw new Error("No authorization header");
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: authHeader },
+    },
+  });
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    throw new Error("Unauthorized");
+  }
+
+  return { supabase, user };
+}
+
+/**
+ * Returns the stored conversation when it belongs to the user, otherwise opens a
+ * new provider thread and records it as a new conversation.
+ */
+export async function resolveConversation(
+  supabase: SupabaseClient,
+  provider: AssistantProvider,
+  userId: string,
+  assistantType: AssistantType,
+  conversationId?: string
+): Promise<{ conversationId: string; threadId: string; summary: string | null }> {
+  if (conversationId) {
+    const { data: conversation, error: convError } = await supabase
+      .from("conversations")
+      .select("id, thread_id, summary")
+      .eq("id", conversationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (convError) throw convError;
+
+    if (conversation) {
+      return {
+        conversationId: conversation.id,
+        threadId: conversation.thread_id,
+        summary: conversation.summary,
+      };
+    }
+  }
+
+  const threadId = await provider.createThread();
+
+  const { data: newConversation, error: createError } = await supabase
+    .from("conversations")
+    .insert({
+      user_id: userId,
+      assistant_type: assistantType,
+      thread_id: threadId,
+    })
+    .select("id")
+    .single();
+
+  if (createError) throw createError;
+
+  return { conversationId: newConversation.id, threadId, summary: null };
+}
+
+export async function saveMessage(
+  supabase: SupabaseClient,
+  conversationId: string,
+  role: "user" | "assistant",
+  content: string,
+  columns: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from("messages")
+    .insert({
+      ...columns,
+      conversation_id: conversationId,
+      role,
+      content,
+    });
+
+  if (error) throw error;
+}
+
+function assertRunActive(run: AssistantRun): void {
+  if (run.status === "failed" || run.status === "cancelled" || run.status === "expired") {
+    throw new Error(`Assistant run ${run.status}`);
+  }
+}
+
+/** Cancels a run that made too many rounds of tool calls, then fails the turn. */
+async function abandonRun(provider: AssistantProvider, threadId: string, runId: string): Promise<never> {
+  try {
+    await provider.cancelRun(threadId, runId);
+  } catch (error) {
+    console.error(`Error cancelling run ${runId}: ${getErrorMessage(error)}`);
+  }
+
+  throw new Error(`Assistant run made more than ${MAX_TOOL_ROUNDS} rounds of tool calls`);
+}
+
+/**
+ * Polls a run until it completes. Runs paused on requires_action are handed to
+ * `onRequiresAction`, which must submit tool outputs and return the resumed run.
+ */
+export async function waitForRun(
+  provider: AssistantProvider,
+  threadId: string,
+  run: AssistantRun,
+  onRequiresAction?: (run: AssistantRun) => Promise<AssistantRun>
+): Promise<AssistantRun> {
+  let current = run;
+  let attempts = 0;
+  let toolRounds = 0;
+
+  while (current.status !== "completed" && attempts < MAX_RUN_POLL_ATTEMPTS) {
+    if (current.status === "requires_action") {
+      if (!onRequiresAction) {
+        throw new Error("Assistant run requires an action that is not handled");
+      }
+      if (++toolRounds > MAX_TOOL_ROUNDS) {
+        await abandonRun(provider, threadId, current.id);
+      }
+      current = await onRequiresAction(current);
+      continue;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RUN_POLL_INTERVAL_MS));
+
+    current = await provider.getRun(threadId, run.id);
+    attempts++;
+
+    assertRunActive(current);
+  }
+
+  if (current.status !== "completed") {
+    throw new Error("Assistant run timed out");
+  }
+
+  return current;
+}
+
+async function runToolCalls<TRequest extends ChatRequest, TExtra extends object>(
+  turn: AssistantTurn<TRequest>,
+  run: AssistantRun,
+  config: AssistantFunctionConfig<TRequest, TExtra>
+): Promise<ToolOutput[]> {
+  const outputs: ToolOutput[] = [];
+
+  for (const call of run.toolCalls ?? []) {
+    let output: Record<string, unknown>;
+    const handler = config.toolHandlers?.[call.name];
+
+    if (!handler) {
+      output = { success: false, error: `Unknown tool: ${call.name}` };
+    } else {
+      try {
+        output = await handler(JSON.parse(call.arguments), turn);
+      } catch (error) {
+        console.error(`Error handling ${call.name}:`, error);
+        output = {
+          success: false,
+          error: error instanceof SyntaxError ? "Arguments were not valid JSON" : getErrorMessage(error),
+        };
+      }
+    }
+
+    turn.toolResults.push({ name: call.name, output });
+    outputs.push({ toolCallId: call.id, output: JSON.stringify(output) });
+  }
+
+  return outputs;
+}
+
+async function startTurn<TRequest extends ChatRequest, TExtra extends object>(
+  req: Request,
+  config: AssistantFunctionConfig<TRequest, TExtra>
+): Promise<AssistantTurn<TRequest>> {
+  const { supabase, user } = await getAuthenticatedClient(req);
+
+  const request: TRequest = await req.json();
+  if (!request.message) {
+    throw new Error("Message is required");
+  }
+
+  const provider = createAssistantProvider(config.fakeResponder);
+
+  const assistantId = Deno.env.get(config.assistantIdEnv);
+  if (!assistantId) {
+    throw new Error(`${config.assistantName} Assistant ID not configured`);
+  }
+
+  const { conversationId, threadId, summary } = await resolveConversation(
+    supabase,
+    provider,
+    user.id,
+    config.assistantType,
+    request.conversationId
+  );
+
+  await saveMessage(supabase, conversationId, "user", request.message);
+  await provider.addMessage(threadId, request.message);
+
+  const context: AssistantContext<TRequest> = {
+    supabase,
+    user,
+    request,
+    conversationId,
+    threadId,
+    conversationSummary: summary,
+    userContext: await loadUserContext(supabase, user.id),
+    toolResults: [],
+  };
+
+  const additionalInstructions = [
+    formatUserContext(context.userContext),
+    formatConversationSummary(context.conversationSummary),
+    await config.additionalInstructions?.(context),
+  ].filter(Boolean).join("\n\n");
+
+  return {
+    ...context,
+    provider,
+    runOptions: {
+      assistantId,
+      tools: config.tools,
+      additionalInstructions: additionalInstructions || undefined,
+    },
+  };
+}
+
+async function finishTurn<TRequest extends ChatRequest, TExtra extends object>(
+  turn: AssistantTurn<TRequest>,
+  assistantResponse: string,
+  config: AssistantFunctionConfig<TRequest, TExtra>
+): Promise<ChatResponse> {
+  await saveMessage(
+    turn.supabase,
+    turn.conversationId,
+    "assistant",
+    assistantResponse,
+    config.messageColumns?.(turn)
+  );
+
+  // Titles and summaries need another model call, so they finish after the response is sent.
+  EdgeRuntime.waitUntil(updateConversationMetadata(turn.supabase, turn.provider, turn.conversationId));
+
+  const extra = await config.onAssistantReply?.(assistantResponse, turn);
+
+  return {
+    response: assistantResponse,
+    conversationId: turn.conversationId,
+    threadId: turn.threadId,
+    ...extra,
+  };
+}
+
+/**
+ * Streams the run as server-sent events: `start` with the conversation IDs, a
+ * `delta` per text chunk, then `done` with the full ChatResponse or `error`.
+ */
+function streamTurn<TRequest extends ChatRequest, TExtra extends object>(
+  turn: AssistantTurn<TRequest>,
+  config: AssistantFunctionConfig<TRequest, TExtra>
+): Response {
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(formatServerSentEvent(event, data)));
+      };
+
+      try {
+        send("start", { conversationId: turn.conversationId, threadId: turn.threadId });
+
+        let assistantResponse = "";
+        let completed = false;
+        let toolRounds = 0;
+        let events: AsyncIterable<RunStreamEvent> | null = turn.provider.streamRun(
+          turn.threadId,
+          turn.runOptions
+        );
+
+        while (events) {
+          let pendingRun: AssistantRun | null = null;
+
+          for await (const event of events) {
+            if (event.type === "text_delta") {
+              assistantResponse += event.value;
+              send("delta", { text: event.value });
+            } else {
+              assertRunActive(event.run);
+              completed = event.run.status === "completed";
+              pendingRun = event.run.status === "requires_action" ? event.run : null;
+            }
+          }
+
+          if (pendingRun && ++toolRounds > MAX_TOOL_ROUNDS) {
+            await abandonRun(turn.provider, turn.threadId, pendingRun.id);
+          }
+
+          events = pendingRun
+            ? turn.provider.streamToolOutputs(
+              turn.threadId,
+              pendingRun.id,
+              await runToolCalls(turn, pendingRun, config)
+            )
+            : null;
+        }
+
+        if (!completed) {
+          throw new Error("Assistant run ended before completing");
+        }
+
+        if (!assistantResponse) {
+          throw new Error("No assistant response found");
+        }
+
+        send("done", await finishTurn(turn, assistantResponse, config));
+      } catch (error) {
+        console.error("Error:", error);
+        send("error", { error: getErrorMessage(error) });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+    },
+  });
+}
+
+export function createAssistantHandler<TRequest extends ChatRequest, TExtra extends object = object>(
+  config: AssistantFunctionConfig<TRequest, TExtra>
+): (req: Request) => Promise<Response> {
+  return async (req: Request) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, {
+        status: 200,
+        headers: corsHeaders,
+      });
+    }
+
+    try {
+      const turn = await startTurn(req, config);
+
+      if (turn.request.stream) {
+        return streamTurn(turn, config);
+      }
+
+      const run = await turn.provider.createRun(turn.threadId, turn.runOptions);
+      await waitForRun(turn.provider, turn.threadId, run, async (pendingRun) =>
+        turn.provider.submitToolOutputs(
+          turn.threadId,
+          pendingRun.id,
+          await runToolCalls(turn, pendingRun, config)
+        )
+      );
+
+      const assistantResponse = await turn.provider.getLatestAssistantMessage(turn.threadId);
+
+      return jsonResponse(await finishTurn(turn, assistantResponse, config));
+    } catch (error) {
+      console.error("Error:", error);
+      return errorResponse(error);
+    }
+  };
+}
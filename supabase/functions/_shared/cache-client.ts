@@ -0,0 +1,17 @@
+import { createClient } from "npm:@supabase/supabase-js@2.78.0";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.78.0";
+
+/**
+ * The cache tables (weather_cache, places_cache) have no RLS policies, so they
+ * are only reachable with the service role key. Returns null when it is not
+ * configured, in which case callers skip caching.
+ */
+export function getCacheClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null;
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+}
@@ -0,0 +1,131 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.78.0";
+import type { AssistantProvider } from "./assistant-provider.ts";
+import { getErrorMessage } from "./cors.ts";
+
+interface StoredMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** The summary is refreshed each time this many messages have been added since the last one. */
+export const SUMMARY_INTERVAL = 10;
+
+const MAX_TITLE_LENGTH = 60;
+
+const TITLE_INSTRUCTIONS =
+  "Write a short title (at most 6 words) for the conversation below. " +
+  "Reply with the title only: no quotes, no trailing punctuation.";
+
+const SUMMARY_INSTRUCTIONS =
+  "Maintain a compact running summary of a conversation between a user and their assistant. " +
+  "Merge the previous summary with the new messages into at most 120 words. Keep facts the " +
+  "assistant will need later: the user's goals, constraints, decisions and anything promised. " +
+  "Reply with the summary only.";
+
+function formatTranscript(messages: StoredMessage[]): string {
+  return messages
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n\n");
+}
+
+function cleanTitle(text: string): string | null {
+  const title = text.replace(/\s+/g, " ").trim().replace(/^["'“]+|["'”.]+$/g, "");
+  if (!title) {
+    return null;
+  }
+
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+/**
+ * Fills in the conversation title after the first exchange and refreshes the
+ * rolling summary every SUMMARY_INTERVAL messages. Failures are logged rather
+ * than thrown, since the reply has already been delivered.
+ */
+export async function updateConversationMetadata(
+  supabase: SupabaseClient,
+  provider: AssistantProvider,
+  conversationId: string
+): Promise<void> {
+  try {
+    const [conversationResult, countResult] = await Promise.all([
+      supabase
+        .from("conversations")
+        .select("title, summary, summary_message_count")
+        .eq("id", conversationId)
+        .single(),
+      supabase
+        .from("messages")
+        .select("id", { count: "exact", head: true })
+        .eq("conversation_id", conversationId),
+    ]);
+
+    if (conversationResult.error) throw conversationResult.error;
+    if (countResult.error) throw countResult.error;
+
+    const conversation = conversationResult.data;
+    const messageCount = countResult.count ?? 0;
+    const summarizedCount = Math.min(conversation.summary_message_count, messageCount);
+    const needsTitle = !conversation.title;
+    const needsSummary = messageCount - summarizedCount >= SUMMARY_INTERVAL;
+
+    if (messageCount === 0 || (!needsTitle && !needsSummary)) {
+      return;
+    }
+
+    // The title needs the opening exchange; the summary needs everything since it was last refreshed.
+    const firstNeeded = needsTitle ? 0 : summarizedCount;
+    const lastNeeded = needsSummary ? messageCount - 1 : 1;
+    const { data, error: messagesError } = await supabase
+      .from("messages")
+      .select("role, content")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true })
+      .range(firstNeeded, lastNeeded);
+
+    if (messagesError) throw messagesError;
+
+    const messages: StoredMessage[] = data ?? [];
+    const updates: Record<string, unknown> = {};
+
+    const openingExchange = messages.slice(0, 2);
+    if (needsTitle && openingExchange.some((message) => message.role === "assistant")) {
+      const title = cleanTitle(await provider.generateText(TITLE_INSTRUCTIONS, formatTranscript(openingExchange)));
+      if (title) {
+        updates.title = title;
+      }
+    }
+
+    if (needsSummary) {
+      const input = [
+        conversation.summary ? `Previous summary:\n${conversation.summary}` : null,
+        `New messages:\n${formatTranscript(messages.slice(summarizedCount - firstNeeded))}`,
+      ].filter(Boolean).join("\n\n");
+
+      updates.summary = (await provider.generateText(SUMMARY_INSTRUCTIONS, input)).trim();
+      updates.summary_message_count = messageCount;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("conversations")
+      .update(updates)
+      .eq("id", conversationId);
+
+    if (error) throw error;
+  } catch (error) {
+    console.error(`Error updating conversation metadata: ${getErrorMessage(error)}`);
+  }
+}
+
+/** Renders a stored summary as run-level instructions for a resumed conversation. */
+export function formatConversationSummary(summary: string | null): string | null {
+  if (!summary) {
+    return null;
+  }
+
+  return `Summary of this conversation so far, for context when picking it back up:\n${summary}`;
+}
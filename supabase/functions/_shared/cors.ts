@@ -0,0 +1,23 @@
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+}
+
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "An unknown error occurred";
+}
+
+export function errorResponse(error: unknown, status = 500): Response {
+  return jsonResponse({ error: getErrorMessage(error) }, status);
+}
@@ -0,0 +1,182 @@
+import type { PollenDay } from "./weather-provider.ts";
+import type { WeatherSnapshot } from "./weather-context.ts";
+
+/** Conditions a user can mark themselves as sensitive to in their profile. */
+export const SENSITIVITIES = ["respiratory", "heat", "pollen", "sun"] as const;
+
+export type Sensitivity = typeof SENSITIVITIES[number];
+
+export type SafetyWarningType = "air_quality" | "uv" | "heat" | "pollen" | "unchecked";
+
+/** What is stored in `excursions.safety_warnings`. */
+export interface SafetyWarning {
+  type: SafetyWarningType;
+  /** "unsafe" plans are not saved; "caution" is saved with the excursion. */
+  severity: "caution" | "unsafe";
+  message: string;
+  advice: string;
+}
+
+interface Limits {
+  caution: number;
+  /** Null when the level never blocks a plan on its own. */
+  unsafe: number | null;
+}
+
+/** Saved when no forecast could be loaded, so the plan does not look checked when it was not. */
+export const UNCHECKED_CONDITIONS_WARNING: SafetyWarning = {
+  type: "unchecked",
+  severity: "caution",
+  message: "conditions could not be checked",
+  advice: "No forecast was available when this was planned. Check the weather, air quality and UV before you go.",
+};
+
+export interface SafetyThresholds {
+  /** OpenWeatherMap's 1 (good) to 5 (very poor) air quality index. */
+  aqi: Limits;
+  uv: Limits;
+  /** Heat index in °C. */
+  heatIndex: Limits;
+  /** Universal Pollen Index, 0–5, of the worst plant type. */
+  pollen: Limits;
+  /** Why the stricter limits apply, for the instructions; empty for the defaults. */
+  reasons: string[];
+}
+
+// Defaults follow the public guidance for each index: AQI 4 "poor", UV 6 "high"
+// and 11 "extreme", NWS heat index "extreme caution" (32°C) and "danger" (41°C),
+// and pollen "high". Sensitive users move down a band.
+const DEFAULT_LIMITS = {
+  aqi: { caution: 4, unsafe: 5 },
+  uv: { caution: 6, unsafe: 11 },
+  heatIndex: { caution: 32, unsafe: 41 },
+  pollen: { caution: 4, unsafe: null },
+};
+
+const SENSITIVE_LIMITS = {
+  aqi: { caution: 3, unsafe: 4 },
+  uv: { caution: 3, unsafe: 8 },
+  heatIndex: { caution: 27, unsafe: 32 },
+  pollen: { caution: 3, unsafe: 4 },
+};
+
+const POLLEN_TYPES = ["grass", "tree", "weed"] as const;
+
+export function isSensitivity(value: unknown): value is Sensitivity {
+  return typeof value === "string" && (SENSITIVITIES as readonly string[]).includes(value);
+}
+
+/**
+ * Limited mobility counts as sensitive to air quality and heat, since a slower
+ * pace means longer exposure and less ability to cut the outing short.
+ */
+export function getSafetyThresholds(profile: {
+  mobilityLevel: string | null;
+  sensitivities: Sensitivity[];
+}): SafetyThresholds {
+  const limitedMobility = profile.mobilityLevel === "limited";
+  const has = (sensitivity: Sensitivity) => profile.sensitivities.includes(sensitivity);
+  const reasons = [
+    ...profile.sensitivities.map((sensitivity) => `sensitive to ${sensitivity === "sun" ? "sun (UV)" : sensitivity}`),
+    limitedMobility ? "limited mobility" : null,
+  ].filter((reason): reason is string => reason !== null);
+
+  return {
+    aqi: has("respiratory") || limitedMobility ? SENSITIVE_LIMITS.aqi : DEFAULT_LIMITS.aqi,
+    uv: has("sun") ? SENSITIVE_LIMITS.uv : DEFAULT_LIMITS.uv,
+    heatIndex: has("heat") || limitedMobility ? SENSITIVE_LIMITS.heatIndex : DEFAULT_LIMITS.heatIndex,
+    pollen: has("pollen") ? SENSITIVE_LIMITS.pollen : DEFAULT_LIMITS.pollen,
+    reasons,
+  };
+}
+
+function severityOf(value: number, limits: Limits): SafetyWarning["severity"] | null {
+  if (limits.unsafe !== null && value >= limits.unsafe) return "unsafe";
+  if (value >= limits.caution) return "caution";
+  return null;
+}
+
+function worstPollen(pollen: PollenDay): { type: typeof POLLEN_TYPES[number]; level: number } | null {
+  return POLLEN_TYPES.reduce<{ type: typeof POLLEN_TYPES[number]; level: number } | null>((worst, type) => {
+    const level = pollen[type];
+    return level !== null && level > (worst?.level ?? -1) ? { type, level } : worst;
+  }, null);
+}
+
+/**
+ * Checks the excursion's forecast window against the user's thresholds.
+ * Air quality is only known for the current hour, so it is only applied to
+ * windows inside the hourly forecast.
+ */
+export function evaluateSafety(snapshot: WeatherSnapshot, thresholds: SafetyThresholds): SafetyWarning[] {
+  const warnings: SafetyWarning[] = [];
+  const { summary } = snapshot;
+
+  if (snapshot.air_quality && snapshot.resolution === "hourly") {
+    const severity = severityOf(snapshot.air_quality.aqi, thresholds.aqi);
+    if (severity) {
+      warnings.push({
+        type: "air_quality",
+        severity,
+        message: `${snapshot.air_quality.label.toLowerCase()} air quality (AQI ${snapshot.air_quality.aqi} of 5)`,
+        advice: "Keep the effort light, avoid busy roads and carry any inhaler you use.",
+      });
+    }
+  }
+
+  const uvSeverity = severityOf(Math.round(summary.uv_index_max), thresholds.uv);
+  if (uvSeverity) {
+    warnings.push({
+      type: "uv",
+      severity: uvSeverity,
+      message: `UV index up to ${Math.round(summary.uv_index_max)}`,
+      advice: "Wear sunscreen, a hat and sunglasses, and favor shaded paths.",
+    });
+  }
+
+  const heatSeverity = severityOf(summary.heat_index_max_c, thresholds.heatIndex);
+  if (heatSeverity) {
+    warnings.push({
+      type: "heat",
+      severity: heatSeverity,
+      message: `heat index up to ${Math.round(summary.heat_index_max_c)}°C`,
+      advice: "Bring plenty of water, take breaks in the shade and go early or late in the day.",
+    });
+  }
+
+  const pollen = snapshot.pollen ? worstPollen(snapshot.pollen) : null;
+  const pollenSeverity = pollen ? severityOf(pollen.level, thresholds.pollen) : null;
+  if (pollen && pollenSeverity) {
+    warnings.push({
+      type: "pollen",
+      severity: pollenSeverity,
+      message: `${pollen.level >= 5 ? "very high" : pollen.level >= 4 ? "high" : "moderate"} ${pollen.type} pollen`,
+      advice: "Take any allergy medication beforehand and prefer water, beach or urban routes over meadows.",
+    });
+  }
+
+  return warnings;
+}
+
+function describeLimits(label: string, limits: Limits, unit = ""): string {
+  return limits.unsafe === null
+    ? `${label} caution from ${limits.caution}${unit}`
+    : `${label} caution from ${limits.caution}${unit}, unsafe from ${limits.unsafe}${unit}`;
+}
+
+/** Renders the thresholds as run instructions for the creator. */
+export function formatSafetyContext(thresholds: SafetyThresholds): string {
+  const limits = [
+    describeLimits("air quality index (1–5)", thresholds.aqi),
+    describeLimits("UV index", thresholds.uv),
+    describeLimits("heat index", thresholds.heatIndex, "°C"),
+    describeLimits("pollen index (0–5)", thresholds.pollen),
+  ];
+
+  return [
+    `Safety limits for this user${thresholds.reasons.length > 0 ? ` (${thresholds.reasons.join(", ")})` : ""}: ` +
+      `${limits.join("; ")}.`,
+    "Excursions in unsafe conditions are rejected, so schedule around them. Mention any caution-level " +
+      "conditions to the user with practical advice.",
+  ].join(" ");
+}
@@ -0,0 +1,250 @@
+import { isOneOf, SURFACES, type Surface } from "./nature-places.ts";
+
+export const DIFFICULTY_LEVELS = ["Easy", "Moderate", "Challenging"] as const;
+
+export type DifficultyLevel = typeof DIFFICULTY_LEVELS[number];
+
+export interface ExcursionLocation {
+  lat: number;
+  lng: number;
+  address: string;
+}
+
+export interface ExcursionWaypoint {
+  order: number;
+  lat: number;
+  lng: number;
+  name?: string;
+  /** Meters above sea level; enables elevation gain/loss in the route metrics. */
+  altitude?: number;
+  /** Surface of the path from the previous waypoint. */
+  surface?: Surface;
+  /** The path from the previous waypoint includes steps. */
+  steps?: boolean;
+  /** Somewhere to sit down, such as a bench. */
+  rest_stop?: boolean;
+  restroom?: boolean;
+}
+
+export interface ExcursionInput {
+  title: string;
+  description: string;
+  location: ExcursionLocation;
+  route_data: ExcursionWaypoint[] | null;
+  duration_minutes: number;
+  difficulty_level: DifficultyLevel;
+  activities: string[];
+  /** Planned start, ISO 8601; null when the model did not pick a time. */
+  scheduled_at: string | null;
+  /** Why the plan suits the forecast despite flagged rain, heat or wind. */
+  weather_note: string | null;
+  /** id of the looked-up place (catalog or places provider) the excursion starts at. */
+  place_id: string | null;
+}
+
+export interface ValidationIssue {
+  /** Dotted path to the offending field, e.g. `route_data.2.lat`. */
+  path: string;
+  message: string;
+}
+
+export type ExcursionValidationResult =
+  | { valid: true; excursion: ExcursionInput }
+  | { valid: false; issues: ValidationIssue[] };
+
+// Keep in sync with the `excursions_shape` trigger and its `check_excursion_shape`
+// function in the excursion shape migration.
+export const MAX_DURATION_MINUTES = 24 * 60;
+
+// The forecast only covers the coming week, and a plan that starts "now" may
+// be saved a little after its start time.
+export const MAX_SCHEDULE_DAYS_AHEAD = 7;
+const SCHEDULE_GRACE_MINUTES = 60;
+const ISO_DATE_TIME_WITH_ZONE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Dead Sea shore to the summit of Everest, with some slack.
+const MIN_ALTITUDE_METERS = -500;
+const MAX_ALTITUDE_METERS = 9000;
+
+const WAYPOINT_FLAGS = ["steps", "rest_stop", "restroom"] as const;
+const isSurface = isOneOf(SURFACES);
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function validateCoordinate(value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void {
+  if (!isFiniteNumber(value.lat) || value.lat < -90 || value.lat > 90) {
+    issues.push({ path: `${path}.lat`, message: "must be a number between -90 and 90" });
+  }
+
+  if (!isFiniteNumber(value.lng) || value.lng < -180 || value.lng > 180) {
+    issues.push({ path: `${path}.lng`, message: "must be a number between -180 and 180" });
+  }
+}
+
+function validateSchedule(value: unknown, issues: ValidationIssue[]): void {
+  if (typeof value !== "string" || !ISO_DATE_TIME_WITH_ZONE.test(value) || Number.isNaN(Date.parse(value))) {
+    issues.push({
+      path: "scheduled_at",
+      message: "must be an ISO 8601 date-time with a UTC offset, e.g. 2026-05-02T09:30:00+01:00",
+    });
+    return;
+  }
+
+  const start = Date.parse(value);
+  const now = Date.now();
+  if (start < now - SCHEDULE_GRACE_MINUTES * 60 * 1000) {
+    issues.push({ path: "scheduled_at", message: "must not be in the past" });
+  } else if (start > now + MAX_SCHEDULE_DAYS_AHEAD * 24 * 60 * 60 * 1000) {
+    issues.push({ path: "scheduled_at", message: `must be within the next ${MAX_SCHEDULE_DAYS_AHEAD} days` });
+  }
+}
+
+function validateRoute(route: unknown, issues: ValidationIssue[]): void {
+  if (!Array.isArray(route)) {
+    issues.push({ path: "route_data", message: "must be an array of waypoints" });
+    return;
+  }
+
+  if (route.length < 2) {
+    issues.push({ path: "route_data", message: "must contain at least 2 waypoints" });
+  }
+
+  route.forEach((waypoint, index) => {
+    const path = `route_data.${index}`;
+
+    if (!isRecord(waypoint)) {
+      issues.push({ path, message: "must be an object with order, lat and lng" });
+      return;
+    }
+
+    if (waypoint.order !== index + 1) {
+      issues.push({ path: `${path}.order`, message: `must be ${index + 1}; waypoints are listed in visiting order starting at 1` });
+    }
+
+    validateCoordinate(waypoint, path, issues);
+
+    if (waypoint.name !== undefined && typeof waypoint.name !== "string") {
+      issues.push({ path: `${path}.name`, message: "must be a string" });
+    }
+
+    if (
+      waypoint.altitude !== undefined &&
+      (!isFiniteNumber(waypoint.altitude) ||
+        waypoint.altitude < MIN_ALTITUDE_METERS ||
+        waypoint.altitude > MAX_ALTITUDE_METERS)
+    ) {
+      issues.push({
+        path: `${path}.altitude`,
+        message: `must be a number of meters between ${MIN_ALTITUDE_METERS} and ${MAX_ALTITUDE_METERS}`,
+      });
+    }
+
+    if (waypoint.surface !== undefined && !isSurface(waypoint.surface)) {
+      issues.push({ path: `${path}.surface`, message: `must be one of ${SURFACES.join(", ")}` });
+    }
+
+    for (const flag of WAYPOINT_FLAGS) {
+      if (waypoint[flag] !== undefined && typeof waypoint[flag] !== "boolean") {
+        issues.push({ path: `${path}.${flag}`, message: "must be a boolean" });
+      }
+    }
+  });
+}
+
+/**
+ * Validates an excursion payload against the shape the `excursions` table
+ * accepts. Messages are phrased so they can be handed back to the model.
+ */
+export function validateExcursion(input: unknown): ExcursionValidationResult {
+  const issues: ValidationIssue[] = [];
+
+  if (!isRecord(input)) {
+    return { valid: false, issues: [{ path: "", message: "must be an object" }] };
+  }
+
+  if (typeof input.title !== "string" || !input.title.trim()) {
+    issues.push({ path: "title", message: "must be a non-empty string" });
+  }
+
+  if (typeof input.description !== "string") {
+    issues.push({ path: "description", message: "must be a string" });
+  }
+
+  if (!isRecord(input.location)) {
+    issues.push({ path: "location", message: "must be an object with lat, lng and address" });
+  } else {
+    validateCoordinate(input.location, "location", issues);
+    if (typeof input.location.address !== "string" || !input.location.address.trim()) {
+      issues.push({ path: "location.address", message: "must be a non-empty string" });
+    }
+  }
+
+  if (input.route_data !== undefined && input.route_data !== null) {
+    validateRoute(input.route_data, issues);
+  }
+
+  if (
+    typeof input.duration_minutes !== "number" ||
+    !Number.isInteger(input.duration_minutes) ||
+    input.duration_minutes <= 0 ||
+    input.duration_minutes > MAX_DURATION_MINUTES
+  ) {
+    issues.push({ path: "duration_minutes", message: `must be a whole number between 1 and ${MAX_DURATION_MINUTES}` });
+  }
+
+  if (!DIFFICULTY_LEVELS.includes(input.difficulty_level as DifficultyLevel)) {
+    issues.push({ path: "difficulty_level", message: `must be one of ${DIFFICULTY_LEVELS.join(", ")}` });
+  }
+
+  if (!Array.isArray(input.activities) || !input.activities.every((activity) => typeof activity === "string")) {
+    issues.push({ path: "activities", message: "must be an array of strings" });
+  }
+
+  if (input.scheduled_at !== undefined && input.scheduled_at !== null) {
+    validateSchedule(input.scheduled_at, issues);
+  }
+
+  if (input.weather_note !== undefined && input.weather_note !== null && typeof input.weather_note !== "string") {
+    issues.push({ path: "weather_note", message: "must be a string" });
+  }
+
+  if (input.place_id !== undefined && input.place_id !== null && typeof input.place_id !== "string") {
+    issues.push({ path: "place_id", message: "must be a string" });
+  }
+
+  if (issues.length > 0) {
+    return { valid: false, issues };
+  }
+
+  const location = input.location as Record<string, unknown>;
+
+  return {
+    valid: true,
+    excursion: {
+      title: (input.title as string).trim(),
+      description: input.description as string,
+      location: {
+        lat: location.lat as number,
+        lng: location.lng as number,
+        address: (location.address as string).trim(),
+      },
+      route_data: (input.route_data as ExcursionWaypoint[] | undefined) ?? null,
+      duration_minutes: input.duration_minutes as number,
+      difficulty_level: input.difficulty_level as DifficultyLevel,
+      activities: input.activities as string[],
+      scheduled_at: input.scheduled_at ? new Date(input.scheduled_at as string).toISOString() : null,
+      weather_note: (input.weather_note as string | undefined)?.trim() || null,
+      place_id: (input.place_id as string | undefined)?.trim() || null,
+    },
+  };
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]): string[] {
+  return issues.map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message));
+}
@@ -0,0 +1,183 @@
+import type {
+  AssistantProvider,
+  AssistantRun,
+  CreateRunOptions,
+  RunStreamEvent,
+  ToolOutput,
+} from "./assistant-provider.ts";
+
+export interface FakeMessage {
+  role: "user" | "assistant" | "tool";
+  content: string;
+}
+
+/** A fake reply is either plain text or a set of function calls for the runtime to answer. */
+export type FakeReply = string | { toolCalls: { name: string; arguments: unknown }[] };
+
+export type FakeResponder = (messages: FakeMessage[], options: CreateRunOptions) => FakeReply;
+
+interface FakeRunState {
+  run: AssistantRun;
+  options: CreateRunOptions;
+}
+
+interface FakeThread {
+  messages: FakeMessage[];
+  runs: Map<string, FakeRunState>;
+}
+
+const defaultResponder: FakeResponder = (messages) => {
+  const lastUserMessage = [...messages].reverse().find((msg) => msg.role === "user");
+  return Deno.env.get("FAKE_ASSISTANT_REPLY") ??
+    `(offline assistant) You said: ${lastUserMessage?.content ?? ""}`;
+};
+
+// Threads live for as long as the function worker does, which is enough for local runs.
+const threads = new Map<string, FakeThread>();
+
+/**
+ * In-memory stand-in for the OpenAI Assistants API. Runs move from queued to
+ * in_progress to completed (or requires_action) on successive status checks so
+ * polling and tool handling are exercised.
+ */
+export class FakeOpenAIProvider implements AssistantProvider {
+  constructor(private respond: FakeResponder = defaultResponder) {}
+
+  private getThread(threadId: string): FakeThread {
+    const thread = threads.get(threadId);
+    if (!thread) {
+      throw new Error(`Unknown thread ${threadId}`);
+    }
+    return thread;
+  }
+
+  private getRunState(threadId: string, runId: string): FakeRunState {
+    const state = this.getThread(threadId).runs.get(runId);
+    if (!state) {
+      throw new Error(`Unknown run ${runId}`);
+    }
+    return state;
+  }
+
+  private advance(thread: FakeThread, state: FakeRunState): AssistantRun {
+    if (state.run.status === "queued") {
+      state.run = { id: state.run.id, status: "in_progress" };
+      return state.run;
+    }
+
+    if (state.run.status !== "in_progress") {
+      return state.run;
+    }
+
+    const reply = this.respond(thread.messages, state.options);
+
+    if (typeof reply === "string") {
+      thread.messages.push({ role: "assistant", content: reply });
+      state.run = { id: state.run.id, status: "completed" };
+    } else {
+      state.run = {
+        id: state.run.id,
+        status: "requires_action",
+        toolCalls: reply.toolCalls.map((call) => ({
+          id: `call_fake_${crypto.randomUUID()}`,
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        })),
+      };
+    }
+
+    return state.run;
+  }
+
+  private async *streamUntilSettled(threadId: string, state: FakeRunState): AsyncGenerator<RunStreamEvent> {
+    const thread = this.getThread(threadId);
+
+    while (state.run.status === "queued" || state.run.status === "in_progress") {
+      const run = this.advance(thread, state);
+
+      if (run.status === "completed") {
+        const reply = await this.getLatestAssistantMessage(threadId);
+        for (const chunk of reply.match(/\S+\s*/g) ?? []) {
+          await new Promise((resolve) => setTimeout(resolve, 30));
+          yield { type: "text_delta", value: chunk };
+        }
+      }
+
+      yield { type: "run_status", run: { ...run } };
+    }
+  }
+
+  async createThread(): Promise<string> {
+    const threadId = `thread_fake_${crypto.randomUUID()}`;
+    threads.set(threadId, { messages: [], runs: new Map() });
+    return threadId;
+  }
+
+  async addMessage(threadId: string, content: string): Promise<void> {
+    this.getThread(threadId).messages.push({ role: "user", content });
+  }
+
+  async createRun(threadId: string, options: CreateRunOptions): Promise<AssistantRun> {
+    const state: FakeRunState = {
+      run: { id: `run_fake_${crypto.randomUUID()}`, status: "queued" },
+      options,
+    };
+    this.getThread(threadId).runs.set(state.run.id, state);
+    return { ...state.run };
+  }
+
+  async getRun(threadId: string, runId: string): Promise<AssistantRun> {
+    const state = this.getRunState(threadId, runId);
+    return { ...this.advance(this.getThread(threadId), state) };
+  }
+
+  async submitToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): Promise<AssistantRun> {
+    const state = this.getRunState(threadId, runId);
+    if (state.run.status !== "requires_action") {
+      throw new Error("Failed to submit tool outputs");
+    }
+
+    const thread = this.getThread(threadId);
+    for (const output of outputs) {
+      thread.messages.push({ role: "tool", content: output.output });
+    }
+
+    state.run = { id: state.run.id, status: "in_progress" };
+    return { ...state.run };
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<void> {
+    const state = this.getRunState(threadId, runId);
+    state.run = { id: state.run.id, status: "cancelled" };
+  }
+
+  async *streamRun(threadId: string, options: CreateRunOptions): AsyncGenerator<RunStreamEvent> {
+    const run = await this.createRun(threadId, options);
+    yield { type: "run_status", run };
+    yield* this.streamUntilSettled(threadId, this.getRunState(threadId, run.id));
+  }
+
+  async *streamToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): AsyncGenerator<RunStreamEvent> {
+    const run = await this.submitToolOutputs(threadId, runId, outputs);
+    yield { type: "run_status", run };
+    yield* this.streamUntilSettled(threadId, this.getRunState(threadId, runId));
+  }
+
+  async getLatestAssistantMessage(threadId: string): Promise<string> {
+    const assistantMessage = [...this.getThread(threadId).messages]
+      .reverse()
+      .find((msg) => msg.role === "assistant");
+
+    if (!assistantMessage) {
+      throw new Error("No assistant response found");
+    }
+
+    return assistantMessage.content;
+  }
+
+  /** Echoes the opening of the input so titles and summaries stay deterministic offline. */
+  async generateText(_instructions: string, input: string): Promise<string> {
+    const text = input.replace(/\s+/g, " ").trim();
+    return text.length > 200 ? `${text.slice(0, 200)}…` : text;
+  }
+}
@@ -0,0 +1,47 @@
+import type { GeocodeResult, NearbySearch, Place, PlacesProvider } from "./places-provider.ts";
+import { MAX_NEARBY_RESULTS } from "./places-provider.ts";
+import { normalizeGeocodeResponse, normalizeNearbyResponse } from "./google-places-provider.ts";
+import { haversineDistance } from "./route-metrics.ts";
+import geocodeFixture from "./fixtures/google-geocode.json" with { type: "json" };
+import reverseGeocodeFixture from "./fixtures/google-reverse-geocode.json" with { type: "json" };
+import nearbyFixture from "./fixtures/google-places-nearby.json" with { type: "json" };
+
+/** Where the reverse geocoding and nearby search fixtures were recorded: Golden Gate Park, San Francisco. */
+const FIXTURE_CENTER = { lat: 37.7694208, lng: -122.4862138 };
+
+function moveTo<T extends { lat: number; lng: number }>(entry: T, lat: number, lng: number): T {
+  return {
+    ...entry,
+    lat: Number((entry.lat + lat - FIXTURE_CENTER.lat).toFixed(7)),
+    lng: Number((entry.lng + lng - FIXTURE_CENTER.lng).toFixed(7)),
+  };
+}
+
+/**
+ * Serves recorded Google responses from around Golden Gate Park. Reverse
+ * geocoding and nearby results are moved so they sit around the requested
+ * point the way they sit around the park, keeping their names and addresses.
+ * Forward geocoding always returns the park.
+ */
+export class FixturePlacesProvider implements PlacesProvider {
+  readonly name = "fixture";
+
+  geocode(_query: string): Promise<GeocodeResult[]> {
+    return Promise.resolve(normalizeGeocodeResponse(geocodeFixture));
+  }
+
+  reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]> {
+    return Promise.resolve(normalizeGeocodeResponse(reverseGeocodeFixture).map((result) => moveTo(result, lat, lng)));
+  }
+
+  searchNearby({ lat, lng, radiusMeters, categories }: NearbySearch): Promise<Place[]> {
+    const places = normalizeNearbyResponse(nearbyFixture)
+      .filter((place) => categories.includes(place.category))
+      .filter((place) => haversineDistance(FIXTURE_CENTER, place) <= radiusMeters)
+      .sort((a, b) => haversineDistance(FIXTURE_CENTER, a) - haversineDistance(FIXTURE_CENTER, b))
+      .slice(0, MAX_NEARBY_RESULTS)
+      .map((place) => moveTo(place, lat, lng));
+
+    return Promise.resolve(places);
+  }
+}
@@ -0,0 +1,76 @@
+import type { PollenDay, PollenProvider, WeatherForecast, WeatherProvider } from "./weather-provider.ts";
+import { HOURLY_FORECAST_HOURS } from "./weather-provider.ts";
+import { normalizeOneCall } from "./openweather-provider.ts";
+import { normalizePollenForecast } from "./google-pollen-provider.ts";
+import oneCallFixture from "./fixtures/openweather-onecall.json" with { type: "json" };
+import airPollutionFixture from "./fixtures/openweather-air-pollution.json" with { type: "json" };
+import pollenFixture from "./fixtures/google-pollen-forecast.json" with { type: "json" };
+
+const HOUR_SECONDS = 3600;
+const DAY_SECONDS = 86400;
+
+/**
+ * Serves a recorded OpenWeatherMap response (a mild autumn week with rain and
+ * wind the next afternoon) for any location. The fixture's first day is moved
+ * to today, keeping its hours aligned with the local clock, and the 48 hours
+ * from the current hour are served. Its hourly data therefore covers three
+ * full days rather than the 48 hours a real response has.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name = "fixture";
+
+  getForecast(lat: number, lng: number): Promise<WeatherForecast> {
+    const offset = oneCallFixture.timezone_offset;
+    const localDay = (seconds: number) => Math.floor((seconds + offset) / DAY_SECONDS);
+
+    const currentHour = Math.floor(Date.now() / 1000 / HOUR_SECONDS) * HOUR_SECONDS;
+    const shift = (localDay(currentHour) - localDay(oneCallFixture.current.dt)) * DAY_SECONDS;
+
+    const hourly = oneCallFixture.hourly
+      .map((hour) => ({ ...hour, dt: hour.dt + shift }))
+      .filter((hour) => hour.dt >= currentHour)
+      .slice(0, HOURLY_FORECAST_HOURS);
+    const { pop: _pop, ...thisHour } = hourly[0];
+
+    const oneCall = {
+      ...oneCallFixture,
+      lat,
+      lon: lng,
+      current: {
+        ...oneCallFixture.current,
+        ...thisHour,
+        sunrise: oneCallFixture.current.sunrise + shift,
+        sunset: oneCallFixture.current.sunset + shift,
+      },
+      hourly,
+      daily: oneCallFixture.daily.map((day) => ({
+        ...day,
+        dt: day.dt + shift,
+        sunrise: day.sunrise + shift,
+        sunset: day.sunset + shift,
+      })),
+    };
+
+    const airPollution = {
+      ...airPollutionFixture,
+      list: airPollutionFixture.list.map((entry) => ({ ...entry, dt: currentHour })),
+    };
+
+    return Promise.resolve(normalizeOneCall(this.name, lat, lng, oneCall, airPollution));
+  }
+}
+
+/** Serves a recorded Pollen API response with its first day moved to today (UTC). */
+export class FixturePollenProvider implements PollenProvider {
+  readonly name = "fixture";
+
+  getPollen(_lat: number, _lng: number): Promise<PollenDay[]> {
+    const today = new Date();
+    const days = normalizePollenForecast(pollenFixture).map((day, index) => {
+      const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + index));
+      return { ...day, date: date.toISOString().slice(0, 10) };
+    });
+
+    return Promise.resolve(days);
+  }
+}
@@ -0,0 +1,117 @@
+import type { GeocodeResult, NearbySearch, Place, PlaceCategory, PlacesProvider } from "./places-provider.ts";
+import { MAX_NEARBY_RESULTS } from "./places-provider.ts";
+
+const GEOCODING_API_URL = "https://maps.googleapis.com/maps/api/geocode/json";
+const NEARBY_SEARCH_URL = "https://places.googleapis.com/v1/places:searchNearby";
+const NEARBY_FIELD_MASK = [
+  "places.id",
+  "places.displayName",
+  "places.formattedAddress",
+  "places.location",
+  "places.types",
+  "places.primaryType",
+  "places.rating",
+].join(",");
+
+/** Places API (New) types searched for each category. */
+const CATEGORY_TYPES: Record<PlaceCategory, string[]> = {
+  park: ["park", "national_park", "state_park", "botanical_garden", "garden", "picnic_ground"],
+  trail: ["hiking_area"],
+  waterfront: ["beach", "marina"],
+};
+
+function toCategory(types: string[]): PlaceCategory {
+  if (types.some((type) => CATEGORY_TYPES.trail.includes(type))) return "trail";
+  if (types.some((type) => CATEGORY_TYPES.waterfront.includes(type))) return "waterfront";
+  return "park";
+}
+
+/** Converts a Geocoding API response; ZERO_RESULTS is an empty list, other statuses are errors. */
+export function normalizeGeocodeResponse(response: any): GeocodeResult[] {
+  if (response.status === "ZERO_RESULTS") {
+    return [];
+  }
+  if (response.status !== "OK") {
+    throw new Error(`Geocoding failed (${response.status}): ${response.error_message ?? "no details"}`);
+  }
+
+  return response.results.map((result: any) => ({
+    id: result.place_id,
+    address: result.formatted_address,
+    lat: result.geometry.location.lat,
+    lng: result.geometry.location.lng,
+    types: result.types ?? [],
+  }));
+}
+
+/** Converts a Places API (New) `searchNearby` response. */
+export function normalizeNearbyResponse(response: any): Place[] {
+  return (response.places ?? []).map((place: any) => {
+    const types: string[] = place.types ?? [];
+    return {
+      id: place.id,
+      name: place.displayName?.text ?? place.formattedAddress ?? "Unnamed place",
+      address: place.formattedAddress ?? null,
+      lat: place.location.latitude,
+      lng: place.location.longitude,
+      category: toCategory(place.primaryType ? [place.primaryType, ...types] : types),
+      types,
+      rating: place.rating ?? null,
+    };
+  });
+}
+
+/** Google's Geocoding API and Places API (New), part of Google Maps Platform. */
+export class GooglePlacesProvider implements PlacesProvider {
+  readonly name = "google";
+
+  constructor(private apiKey: string) {}
+
+  private async geocodeRequest(params: Record<string, string>): Promise<GeocodeResult[]> {
+    const url = new URL(GEOCODING_API_URL);
+    for (const [key, value] of Object.entries({ ...params, key: this.apiKey })) {
+      url.searchParams.set(key, value);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Geocoding request failed (${response.status}): ${response.statusText}`);
+    }
+
+    return normalizeGeocodeResponse(await response.json());
+  }
+
+  geocode(query: string): Promise<GeocodeResult[]> {
+    return this.geocodeRequest({ address: query });
+  }
+
+  reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]> {
+    return this.geocodeRequest({ latlng: `${lat},${lng}` });
+  }
+
+  async searchNearby({ lat, lng, radiusMeters, categories }: NearbySearch): Promise<Place[]> {
+    const response = await fetch(NEARBY_SEARCH_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Goog-Api-Key": this.apiKey,
+        "X-Goog-FieldMask": NEARBY_FIELD_MASK,
+      },
+      body: JSON.stringify({
+        includedTypes: categories.flatMap((category) => CATEGORY_TYPES[category]),
+        maxResultCount: MAX_NEARBY_RESULTS,
+        rankPreference: "DISTANCE",
+        locationRestriction: {
+          circle: { center: { latitude: lat, longitude: lng }, radius: radiusMeters },
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Places request failed (${response.status}): ${body?.error?.message ?? response.statusText}`);
+    }
+
+    return normalizeNearbyResponse(await response.json());
+  }
+}
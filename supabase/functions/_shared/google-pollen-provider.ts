@@ -0,0 +1,45 @@
+import type { PollenDay, PollenProvider } from "./weather-provider.ts";
+
+const POLLEN_API_URL = "https://pollen.googleapis.com/v1/forecast:lookup";
+const POLLEN_FORECAST_DAYS = 5;
+
+function toDate(date: { year: number; month: number; day: number }): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+/** Converts a Pollen API `forecast:lookup` response into daily index values per plant type. */
+export function normalizePollenForecast(response: any): PollenDay[] {
+  return (response?.dailyInfo ?? []).map((day: any) => {
+    const index = (code: string): number | null => {
+      const info = (day.pollenTypeInfo ?? []).find((type: any) => type.code === code);
+      // Out-of-season types have no indexInfo; that means no pollen rather than unknown.
+      return info ? info.indexInfo?.value ?? 0 : null;
+    };
+
+    return { date: toDate(day.date), grass: index("GRASS"), tree: index("TREE"), weed: index("WEED") };
+  });
+}
+
+/** Google's Pollen API, part of Google Maps Platform. */
+export class GooglePollenProvider implements PollenProvider {
+  readonly name = "google";
+
+  constructor(private apiKey: string) {}
+
+  async getPollen(lat: number, lng: number): Promise<PollenDay[]> {
+    const url = new URL(POLLEN_API_URL);
+    url.searchParams.set("key", this.apiKey);
+    url.searchParams.set("location.latitude", String(lat));
+    url.searchParams.set("location.longitude", String(lng));
+    url.searchParams.set("days", String(POLLEN_FORECAST_DAYS));
+    url.searchParams.set("plantsDescription", "false");
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`Pollen request failed (${response.status}): ${body?.error?.message ?? response.statusText}`);
+    }
+
+    return normalizePollenForecast(await response.json());
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  ACCESSIBILITY_FEATURES,
+  AMENITIES,
+  isOneOf,
+  NATURE_PLACE_CATEGORIES,
+  SURFACES,
+  type AccessibilityFeature,
+  type Amenity,
+  type NaturePlaceCategory,
+  type Surface,
+} from "./nature-places.ts";
+
+/**
+ * Turns GeoJSON and CSV datasets (municipal park lists, trail registries) into
+ * rows for `import_nature_places`. Both formats use the same property names:
+ * `name`, `id`, `category`, `description`, `address`, `surface`,
+ * `max_grade_percent`, and `amenities`, `accessibility` and `activities` as
+ * arrays or `;`/`|`-separated text. A yes/true column named after an amenity or
+ * accessibility feature (e.g. `restrooms`) also counts. CSV rows need
+ * `lat`/`latitude` and `lng`/`lon`/`longitude` columns.
+ */
+
+const SUPPORTED_GEOMETRIES = ["Point", "LineString", "MultiLineString", "Polygon", "MultiPolygon"];
+const LAT_COLUMNS = ["lat", "latitude", "y"];
+const LNG_COLUMNS = ["lng", "lon", "long", "longitude", "x"];
+const TRUE_VALUES = ["yes", "y", "true", "1"];
+
+/** Common dataset spellings of the catalog's tags. */
+const TAG_ALIASES: Record<string, string> = {
+  toilets: "restrooms",
+  toilet: "restrooms",
+  restroom: "restrooms",
+  bench: "benches",
+  seating: "benches",
+  drinking_water: "water",
+  water_fountain: "water",
+  car_park: "parking",
+  wheelchair: "wheelchair_accessible",
+  accessible: "wheelchair_accessible",
+  stroller: "stroller_friendly",
+  pram_friendly: "stroller_friendly",
+  asphalt: "paved",
+  concrete: "paved",
+  earth: "dirt",
+  ground: "dirt",
+  boardwalks: "boardwalk",
+};
+
+const isCategory = isOneOf(NATURE_PLACE_CATEGORIES);
+const isAmenity = isOneOf(AMENITIES);
+const isSurface = isOneOf(SURFACES);
+const isAccessibilityFeature = isOneOf(ACCESSIBILITY_FEATURES);
+
+export interface GeoJsonGeometry {
+  type: string;
+  coordinates: unknown;
+}
+
+export interface NaturePlaceImport {
+  source_id: string;
+  name: string;
+  description: string | null;
+  category: NaturePlaceCategory;
+  address: string | null;
+  geometry: GeoJsonGeometry;
+  amenities: Amenity[];
+  surface: Surface | null;
+  accessibility: AccessibilityFeature[];
+  max_grade_percent: number | null;
+  activities: string[];
+}
+
+export interface ImportOptions {
+  /** Category for rows that do not name a valid one; such rows are skipped without it. */
+  defaultCategory?: NaturePlaceCategory;
+  /** Property or column holding the place name; `name` by default. */
+  nameField?: string;
+  /** Property or column holding the dataset's own id; `id` by default. */
+  idField?: string;
+}
+
+export interface SkippedRow {
+  /** 1-based feature index, or CSV line number counting the header. */
+  row: number;
+  reason: string;
+}
+
+export interface ParsedImport {
+  places: NaturePlaceImport[];
+  skipped: SkippedRow[];
+}
+
+function getField(properties: Record<string, unknown>, name: string): unknown {
+  const key = Object.keys(properties).find((candidate) => candidate.trim().toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : properties[key];
+}
+
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  return text === "" ? null : text;
+}
+
+function toTag(value: string): string {
+  const tag = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return TAG_ALIASES[tag] ?? tag;
+}
+
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : toText(value)?.split(/[;|]/) ?? [];
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+function isTruthy(value: unknown): boolean {
+  return value === true || TRUE_VALUES.includes(String(value ?? "").trim().toLowerCase());
+}
+
+/** Tags listed in `field` plus yes/true columns named after a tag. */
+function toTags<T extends string>(
+  properties: Record<string, unknown>,
+  field: string,
+  allowed: readonly T[],
+  isAllowed: (value: unknown) => value is T
+): T[] {
+  const listed = toList(getField(properties, field)).map(toTag).filter(isAllowed);
+  const flagged = allowed.filter((tag) => isTruthy(getField(properties, tag)));
+  return [...new Set([...listed, ...flagged])];
+}
+
+function positions(coordinates: unknown): number[][] {
+  if (!Array.isArray(coordinates)) return [];
+  if (typeof coordinates[0] === "number") return [coordinates as number[]];
+  return coordinates.flatMap(positions);
+}
+
+function isValidGeometry(geometry: unknown): geometry is GeoJsonGeometry {
+  if (typeof geometry !== "object" || geometry === null) return false;
+
+  const { type, coordinates } = geometry as Record<string, unknown>;
+  const points = positions(coordinates);
+
+  return SUPPORTED_GEOMETRIES.includes(String(type)) && points.length > 0 && points.every(([lng, lat]) =>
+    Number.isFinite(lng) && Math.abs(lng) <= 180 && Number.isFinite(lat) && Math.abs(lat) <= 90
+  );
+}
+
+/** A place row, or the reason the row cannot be imported. */
+function toPlace(
+  properties: Record<string, unknown>,
+  geometry: unknown,
+  fallbackId: unknown,
+  options: ImportOptions
+): NaturePlaceImport | string {
+  const name = toText(getField(properties, options.nameField ?? "name"));
+  if (!name) {
+    return `missing ${options.nameField ?? "name"}`;
+  }
+
+  if (!isValidGeometry(geometry)) {
+    return "missing or unsupported geometry";
+  }
+
+  const categoryValue = toText(getField(properties, "category"));
+  const category = categoryValue && isCategory(toTag(categoryValue)) ? toTag(categoryValue) as NaturePlaceCategory
+    : options.defaultCategory;
+  if (!category) {
+    return `category must be one of ${NATURE_PLACE_CATEGORIES.join(", ")}`;
+  }
+
+  const surfaceValue = toText(getField(properties, "surface"));
+  const grade = Number(toText(getField(properties, "max_grade_percent")) ?? NaN);
+  const [lng, lat] = positions(geometry.coordinates)[0];
+
+  return {
+    source_id: toText(getField(properties, options.idField ?? "id")) ?? toText(fallbackId) ??
+      `${name}@${lat.toFixed(5)},${lng.toFixed(5)}`,
+    name,
+    description: toText(getField(properties, "description")),
+    category,
+    address: toText(getField(properties, "address")),
+    geometry,
+    amenities: toTags(properties, "amenities", AMENITIES, isAmenity),
+    surface: surfaceValue && isSurface(toTag(surfaceValue)) ? toTag(surfaceValue) as Surface : null,
+    accessibility: toTags(properties, "accessibility", ACCESSIBILITY_FEATURES, isAccessibilityFeature),
+    max_grade_percent: Number.isFinite(grade) && grade >= 0 && grade <= 100 ? grade : null,
+    activities: [...new Set(toList(getField(properties, "activities")))],
+  };
+}
+
+/** Keeps the last row for each source_id, since one upsert cannot touch a row twice. */
+function collect(rows: { row: number; result: NaturePlaceImport | string }[]): ParsedImport {
+  const places = new Map<string, NaturePlaceImport>();
+  const rowsById = new Map<string, number>();
+  const skipped: SkippedRow[] = [];
+
+  for (const { row, result } of rows) {
+    if (typeof result === "string") {
+      skipped.push({ row, reason: result });
+      continue;
+    }
+
+    const previousRow = rowsById.get(result.source_id);
+    if (previousRow !== undefined) {
+      skipped.push({ row: previousRow, reason: `replaced by row ${row} with the same id` });
+    }
+    places.set(result.source_id, result);
+    rowsById.set(result.source_id, row);
+  }
+
+  return { places: [...places.values()], skipped };
+}
+
+/** Reads a FeatureCollection, a single Feature, or an array of Features. */
+export function parseGeoJson(text: string, options: ImportOptions = {}): ParsedImport {
+  const json = JSON.parse(text);
+  const features: unknown[] = json?.type === "FeatureCollection"
+    ? json.features ?? []
+    : json?.type === "Feature"
+    ? [json]
+    : Array.isArray(json)
+    ? json
+    : [];
+
+  if (features.length === 0) {
+    throw new Error("Expected a GeoJSON FeatureCollection with at least one feature");
+  }
+
+  return collect(features.map((feature, index) => {
+    const { properties, geometry, id } = (feature ?? {}) as Record<string, unknown>;
+    return {
+      row: index + 1,
+      result: toPlace((properties ?? {}) as Record<string, unknown>, geometry, id, options),
+    };
+  }));
+}
+
+/** Splits CSV text into rows of fields, honouring quoted fields with commas, quotes and newlines. */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/** Reads a CSV with a header row; blank lines are ignored. */
+export function parseCsv(text: string, options: ImportOptions = {}): ParsedImport {
+  const [header, ...lines] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+  const latIndex = columns.findIndex((column) => LAT_COLUMNS.includes(column));
+  const lngIndex = columns.findIndex((column) => LNG_COLUMNS.includes(column));
+
+  if (latIndex === -1 || lngIndex === -1) {
+    throw new Error("The CSV header needs a lat/latitude and a lng/lon/longitude column");
+  }
+
+  const rows = lines
+    .map((fields, index) => ({ fields, row: index + 2 }))
+    .filter(({ fields }) => fields.some((field) => field.trim() !== ""));
+
+  return collect(rows.map(({ fields, row }) => {
+    const properties = Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? ""]));
+    const lat = toText(fields[latIndex]);
+    const lng = toText(fields[lngIndex]);
+    const geometry = lat !== null && lng !== null
+      ? { type: "Point", coordinates: [Number(lng), Number(lat)] }
+      : null;
+
+    return { row, result: toPlace(properties, geometry, null, options) };
+  }));
+}
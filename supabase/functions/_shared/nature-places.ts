@@ -0,0 +1,114 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.78.0";
+
+/**
+ * The curated `nature_places` catalog. The allowed values mirror the table's
+ * CHECK constraints in `20261019220000_create_nature_places.sql`.
+ */
+
+export const NATURE_PLACE_CATEGORIES = ["park", "trail", "waterfront", "garden", "forest", "reserve"] as const;
+export const AMENITIES = ["restrooms", "benches", "shade", "water", "parking"] as const;
+export const SURFACES = ["paved", "gravel", "dirt", "grass", "boardwalk", "sand", "mixed"] as const;
+export const ACCESSIBILITY_FEATURES = [
+  "wheelchair_accessible",
+  "step_free",
+  "stroller_friendly",
+  "accessible_restrooms",
+  "accessible_parking",
+] as const;
+
+export type NaturePlaceCategory = typeof NATURE_PLACE_CATEGORIES[number];
+export type Amenity = typeof AMENITIES[number];
+export type Surface = typeof SURFACES[number];
+export type AccessibilityFeature = typeof ACCESSIBILITY_FEATURES[number];
+
+export interface NaturePlace {
+  id: string;
+  name: string;
+  description: string | null;
+  category: NaturePlaceCategory;
+  address: string | null;
+  lat: number;
+  lng: number;
+  amenities: Amenity[];
+  surface: Surface | null;
+  accessibility: AccessibilityFeature[];
+  max_grade_percent: number | null;
+  activities: string[];
+  /** Null for bounding-box searches without a center. */
+  distance_meters: number | null;
+}
+
+/** What the excursion creator checks a catalog place against the user's accessibility needs with. */
+export type NaturePlaceAccessibility = Pick<NaturePlace, "id" | "name" | "surface" | "accessibility" | "max_grade_percent">;
+
+export interface NaturePlaceSearch {
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+  categories?: NaturePlaceCategory[];
+  /** Places must have every listed amenity. */
+  amenities?: Amenity[];
+  surfaces?: Surface[];
+  /** Places must have every listed feature. */
+  accessibility?: AccessibilityFeature[];
+  /** Places suiting any of these activities. */
+  activities?: string[];
+  maxGradePercent?: number;
+  limit?: number;
+}
+
+export function isOneOf<T extends string>(values: readonly T[]) {
+  return (value: unknown): value is T => typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+/** Calls `search_nature_places` with the caller's client; empty filters are left out. */
+export async function searchNaturePlaces(
+  supabase: SupabaseClient,
+  search: NaturePlaceSearch
+): Promise<NaturePlace[]> {
+  const nonEmpty = <T>(values: T[] | undefined) => values && values.length > 0 ? values : undefined;
+
+  const { data, error } = await supabase.rpc("search_nature_places", {
+    p_lat: search.lat,
+    p_lng: search.lng,
+    p_radius_meters: search.radiusMeters,
+    p_categories: nonEmpty(search.categories),
+    p_amenities: nonEmpty(search.amenities),
+    p_surfaces: nonEmpty(search.surfaces),
+    p_accessibility: nonEmpty(search.accessibility),
+    p_activities: nonEmpty(search.activities),
+    p_max_grade_percent: search.maxGradePercent,
+    p_limit: search.limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search nature places: ${error.message}`);
+  }
+
+  return (data ?? []).map((place: NaturePlace) => ({
+    ...place,
+    max_grade_percent: place.max_grade_percent === null ? null : Number(place.max_grade_percent),
+    distance_meters: place.distance_meters === null ? null : Math.round(place.distance_meters),
+  }));
+}
+
+/** Loads one catalog place's accessibility data; null when the place no longer exists. */
+export async function getNaturePlaceAccessibility(
+  supabase: SupabaseClient,
+  id: string
+): Promise<NaturePlaceAccessibility | null> {
+  const { data, error } = await supabase
+    .from("nature_places")
+    .select("id, name, surface, accessibility, max_grade_percent")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load nature place: ${error.message}`);
+  }
+
+  return data && {
+    ...data,
+    max_grade_percent: data.max_grade_percent === null ? null : Number(data.max_grade_percent),
+  };
+}
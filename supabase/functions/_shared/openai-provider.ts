@@ -0,0 +1,223 @@
+import type {
+  AssistantProvider,
+  AssistantRun,
+  CreateRunOptions,
+  RunStreamEvent,
+  ToolOutput,
+} from "./assistant-provider.ts";
+import { parseServerSentEvents } from "./sse.ts";
+
+const OPENAI_API_URL = "https://api.openai.com/v1";
+const DEFAULT_TEXT_MODEL = "gpt-4o-mini";
+
+function toAssistantRun(run: any): AssistantRun {
+  const toolCalls = run.required_action?.submit_tool_outputs?.tool_calls;
+
+  return {
+    id: run.id,
+    status: run.status,
+    toolCalls: toolCalls?.map((call: any) => ({
+      id: call.id,
+      name: call.function.name,
+      arguments: call.function.arguments,
+    })),
+  };
+}
+
+function toRunBody(options: CreateRunOptions) {
+  return {
+    assistant_id: options.assistantId,
+    tools: options.tools,
+    additional_instructions: options.additionalInstructions,
+  };
+}
+
+function toToolOutputsBody(outputs: ToolOutput[]) {
+  return {
+    tool_outputs: outputs.map((output) => ({
+      tool_call_id: output.toolCallId,
+      output: output.output,
+    })),
+  };
+}
+
+export class OpenAIAssistantProvider implements AssistantProvider {
+  constructor(private apiKey: string, private textModel: string = DEFAULT_TEXT_MODEL) {}
+
+  private async request(path: string, init: RequestInit = {}): Promise<Response> {
+    return await fetch(`${OPENAI_API_URL}${path}`, {
+      ...init,
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        "OpenAI-Beta": "assistants=v2",
+        ...init.headers,
+      },
+    });
+  }
+
+  private async *streamEvents(path: string, body: object): AsyncGenerator<RunStreamEvent> {
+    const response = await this.request(path, {
+      method: "POST",
+      body: JSON.stringify({ ...body, stream: true }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error("Failed to run assistant");
+    }
+
+    for await (const { event, data } of parseServerSentEvents(response.body)) {
+      if (event === "done") {
+        return;
+      }
+
+      if (event === "error") {
+        throw new Error("Assistant stream failed");
+      }
+
+      if (event === "thread.message.delta") {
+        const delta = JSON.parse(data).delta;
+        for (const content of delta.content ?? []) {
+          if (content.type === "text" && content.text?.value) {
+            yield { type: "text_delta", value: content.text.value };
+          }
+        }
+      } else if (event.startsWith("thread.run.") && !event.startsWith("thread.run.step")) {
+        yield { type: "run_status", run: toAssistantRun(JSON.parse(data)) };
+      }
+    }
+  }
+
+  async createThread(): Promise<string> {
+    const response = await this.request("/threads", { method: "POST" });
+
+    if (!response.ok) {
+      throw new Error("Failed to create OpenAI thread");
+    }
+
+    const thread = await response.json();
+    return thread.id;
+  }
+
+  async addMessage(threadId: string, content: string): Promise<void> {
+    const response = await this.request(`/threads/${threadId}/messages`, {
+      method: "POST",
+      body: JSON.stringify({
+        role: "user",
+        content,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to add message to thread");
+    }
+  }
+
+  async createRun(threadId: string, options: CreateRunOptions): Promise<AssistantRun> {
+    const response = await this.request(`/threads/${threadId}/runs`, {
+      method: "POST",
+      body: JSON.stringify(toRunBody(options)),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to run assistant");
+    }
+
+    return toAssistantRun(await response.json());
+  }
+
+  async getRun(threadId: string, runId: string): Promise<AssistantRun> {
+    const response = await this.request(`/threads/${threadId}/runs/${runId}`);
+
+    if (!response.ok) {
+      throw new Error("Failed to check run status");
+    }
+
+    return toAssistantRun(await response.json());
+  }
+
+  async submitToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): Promise<AssistantRun> {
+    const response = await this.request(`/threads/${threadId}/runs/${runId}/submit_tool_outputs`, {
+      method: "POST",
+      body: JSON.stringify(toToolOutputsBody(outputs)),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to submit tool outputs");
+    }
+
+    return toAssistantRun(await response.json());
+  }
+
+  async cancelRun(threadId: string, runId: string): Promise<void> {
+    const response = await this.request(`/threads/${threadId}/runs/${runId}/cancel`, { method: "POST" });
+
+    if (!response.ok) {
+      throw new Error("Failed to cancel run");
+    }
+  }
+
+  streamRun(threadId: string, options: CreateRunOptions): AsyncGenerator<RunStreamEvent> {
+    return this.streamEvents(`/threads/${threadId}/runs`, toRunBody(options));
+  }
+
+  streamToolOutputs(threadId: string, runId: string, outputs: ToolOutput[]): AsyncGenerator<RunStreamEvent> {
+    return this.streamEvents(
+      `/threads/${threadId}/runs/${runId}/submit_tool_outputs`,
+      toToolOutputsBody(outputs)
+    );
+  }
+
+  async getLatestAssistantMessage(threadId: string): Promise<string> {
+    const response = await this.request(`/threads/${threadId}/messages`);
+
+    if (!response.ok) {
+      throw new Error("Failed to retrieve messages");
+    }
+
+    const messagesData = await response.json();
+    const assistantMessage = messagesData.data.find(
+      (msg: any) => msg.role === "assistant"
+    );
+
+    if (!assistantMessage) {
+      throw new Error("No assistant response found");
+    }
+
+    const textContent = assistantMessage.content.find(
+      (content: any) => content.type === "text"
+    );
+
+    if (!textContent) {
+      throw new Error("No text content in assistant response");
+    }
+
+    return textContent.text.value;
+  }
+
+  async generateText(instructions: string, input: string): Promise<string> {
+    const response = await this.request("/chat/completions", {
+      method: "POST",
+      body: JSON.stringify({
+        model: this.textModel,
+        messages: [
+          { role: "system", content: instructions },
+          { role: "user", content: input },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to generate text");
+    }
+
+    const completion = await response.json();
+    const text = completion.choices?.[0]?.message?.content;
+
+    if (typeof text !== "string") {
+      throw new Error("No text in completion");
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,182 @@
+import type {
+  AirQuality,
+  AirQualityLabel,
+  WeatherAlert,
+  WeatherCondition,
+  WeatherForecast,
+  WeatherProvider,
+} from "./weather-provider.ts";
+import { DAILY_FORECAST_DAYS, HOURLY_FORECAST_HOURS } from "./weather-provider.ts";
+import { getErrorMessage } from "./cors.ts";
+
+const OPENWEATHER_API_URL = "https://api.openweathermap.org";
+
+const AIR_QUALITY_LABELS: AirQualityLabel[] = ["Good", "Fair", "Moderate", "Poor", "Very Poor"];
+
+const UNKNOWN_CONDITION: WeatherCondition = { code: 0, main: "Unknown", description: "unknown", icon: "" };
+
+function toIsoTime(seconds: number | undefined): string | null {
+  return typeof seconds === "number" ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function toLocalDate(seconds: number, offsetSeconds: number): string {
+  return new Date((seconds + offsetSeconds) * 1000).toISOString().slice(0, 10);
+}
+
+function toCondition(weather: any[] | undefined): WeatherCondition {
+  const first = weather?.[0];
+  if (!first) {
+    return UNKNOWN_CONDITION;
+  }
+
+  return { code: first.id, main: first.main, description: first.description, icon: first.icon };
+}
+
+/** One Call reports hourly rain and snow as `{ "1h": mm }` and daily totals as plain numbers. */
+function toPrecipitation(entry: any): number {
+  const amount = (value: unknown) =>
+    typeof value === "number" ? value : (value as { "1h"?: number } | undefined)?.["1h"] ?? 0;
+  return Math.round((amount(entry.rain) + amount(entry.snow)) * 10) / 10;
+}
+
+function toProbability(pop: number | undefined): number {
+  return Math.round((pop ?? 0) * 100);
+}
+
+function toAirQuality(airPollution: any): AirQuality | null {
+  const entry = airPollution?.list?.[0];
+  if (!entry?.main?.aqi) {
+    return null;
+  }
+
+  const components = entry.components ?? {};
+  return {
+    aqi: entry.main.aqi,
+    label: AIR_QUALITY_LABELS[entry.main.aqi - 1] ?? "Moderate",
+    pm2_5: components.pm2_5 ?? null,
+    pm10: components.pm10 ?? null,
+    o3: components.o3 ?? null,
+    no2: components.no2 ?? null,
+  };
+}
+
+function toAlert(alert: any): WeatherAlert {
+  return {
+    event: alert.event,
+    sender: alert.sender_name || null,
+    start: toIsoTime(alert.start)!,
+    end: toIsoTime(alert.end)!,
+    description: alert.description ?? "",
+  };
+}
+
+/**
+ * Converts a One Call 3.0 response (metric units) and an optional Air Pollution
+ * response into the normalized forecast. Shared with the fixture provider so
+ * both go through the same mapping.
+ */
+export function normalizeOneCall(
+  provider: string,
+  lat: number,
+  lng: number,
+  oneCall: any,
+  airPollution: any | null
+): WeatherForecast {
+  const offset: number = oneCall.timezone_offset ?? 0;
+  const current = oneCall.current;
+
+  return {
+    provider,
+    location: { lat, lng },
+    timezone: oneCall.timezone,
+    timezone_offset_seconds: offset,
+    fetched_at: new Date().toISOString(),
+    current: {
+      time: toIsoTime(current.dt)!,
+      temperature_c: current.temp,
+      feels_like_c: current.feels_like,
+      humidity: current.humidity,
+      wind_speed_ms: current.wind_speed,
+      wind_gust_ms: current.wind_gust ?? null,
+      wind_direction_deg: current.wind_deg,
+      uv_index: current.uvi ?? 0,
+      cloud_cover: current.clouds ?? 0,
+      visibility_m: current.visibility ?? null,
+      precipitation_mm: toPrecipitation(current),
+      condition: toCondition(current.weather),
+      sunrise: toIsoTime(current.sunrise),
+      sunset: toIsoTime(current.sunset),
+    },
+    hourly: (oneCall.hourly ?? []).slice(0, HOURLY_FORECAST_HOURS).map((hour: any) => ({
+      time: toIsoTime(hour.dt)!,
+      temperature_c: hour.temp,
+      feels_like_c: hour.feels_like,
+      humidity: hour.humidity,
+      wind_speed_ms: hour.wind_speed,
+      wind_gust_ms: hour.wind_gust ?? null,
+      wind_direction_deg: hour.wind_deg,
+      uv_index: hour.uvi ?? 0,
+      cloud_cover: hour.clouds ?? 0,
+      precipitation_probability: toProbability(hour.pop),
+      precipitation_mm: toPrecipitation(hour),
+      condition: toCondition(hour.weather),
+    })),
+    daily: (oneCall.daily ?? []).slice(0, DAILY_FORECAST_DAYS).map((day: any) => ({
+      date: toLocalDate(day.dt, offset),
+      sunrise: toIsoTime(day.sunrise),
+      sunset: toIsoTime(day.sunset),
+      summary: day.summary ?? null,
+      temperature_min_c: day.temp.min,
+      temperature_max_c: day.temp.max,
+      feels_like_day_c: day.feels_like.day,
+      humidity: day.humidity,
+      wind_speed_ms: day.wind_speed,
+      wind_gust_ms: day.wind_gust ?? null,
+      wind_direction_deg: day.wind_deg,
+      uv_index: day.uvi ?? 0,
+      precipitation_probability: toProbability(day.pop),
+      precipitation_mm: toPrecipitation(day),
+      condition: toCondition(day.weather),
+    })),
+    air_quality: toAirQuality(airPollution),
+    alerts: (oneCall.alerts ?? []).map(toAlert),
+    pollen: [],
+  };
+}
+
+/** OpenWeatherMap One Call 3.0 plus the Air Pollution API. */
+export class OpenWeatherProvider implements WeatherProvider {
+  readonly name = "openweather";
+
+  constructor(private apiKey: string) {}
+
+  private async request(path: string, params: Record<string, string>): Promise<any> {
+    const url = new URL(path, OPENWEATHER_API_URL);
+    for (const [key, value] of Object.entries({ ...params, appid: this.apiKey })) {
+      url.searchParams.set(key, value);
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(`OpenWeatherMap request failed (${response.status}): ${body?.message ?? response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async getForecast(lat: number, lng: number): Promise<WeatherForecast> {
+    const coordinates = { lat: String(lat), lon: String(lng) };
+
+    const [oneCall, airPollution] = await Promise.all([
+      this.request("/data/3.0/onecall", { ...coordinates, units: "metric", exclude: "minutely" }),
+      // Air quality is a nice-to-have; a failure here should not lose the forecast.
+      this.request("/data/2.5/air_pollution", coordinates).catch((error) => {
+        console.error(`Error fetching air quality: ${getErrorMessage(error)}`);
+        return null;
+      }),
+    ]);
+
+    return normalizeOneCall(this.name, lat, lng, oneCall, airPollution);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Provider-neutral place shapes returned by the places function. Coordinates
+ * are WGS84 decimal degrees; ids are the provider's own place ids.
+ */
+
+/** The kinds of green space the nearby search looks for. */
+export const PLACE_CATEGORIES = ["park", "trail", "waterfront"] as const;
+
+export type PlaceCategory = typeof PLACE_CATEGORIES[number];
+
+export interface GeocodeResult {
+  id: string;
+  address: string;
+  lat: number;
+  lng: number;
+  /** Provider types, e.g. `street_address`, `park`, `locality`. */
+  types: string[];
+}
+
+export interface Place {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  category: PlaceCategory;
+  types: string[];
+  /** Average user rating, 1–5, when the provider has one. */
+  rating: number | null;
+}
+
+export interface NearbySearch {
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+  categories: PlaceCategory[];
+}
+
+/** A source of places. Implementations should throw when the upstream API fails. */
+export interface PlacesProvider {
+  /** Stored with cached results so switching providers does not serve the other one's data. */
+  readonly name: string;
+  geocode(query: string): Promise<GeocodeResult[]>;
+  reverseGeocode(lat: number, lng: number): Promise<GeocodeResult[]>;
+  searchNearby(search: NearbySearch): Promise<Place[]>;
+}
+
+export const DEFAULT_NEARBY_RADIUS_METERS = 5000;
+/** The most Google's Places API accepts for a nearby search. */
+export const MAX_NEARBY_RADIUS_METERS = 50000;
+export const MAX_NEARBY_RESULTS = 20;
+
+export function isPlaceCategory(value: unknown): value is PlaceCategory {
+  return typeof value === "string" && (PLACE_CATEGORIES as readonly string[]).includes(value);
+}
@@ -0,0 +1,165 @@
+import type { GeocodeResult, NearbySearch, Place, PlacesProvider } from "./places-provider.ts";
+import { FixturePlacesProvider } from "./fake-places-provider.ts";
+import { GooglePlacesProvider } from "./google-places-provider.ts";
+import { getCacheClient } from "./cache-client.ts";
+import { getErrorMessage } from "./cors.ts";
+import { haversineDistance } from "./route-metrics.ts";
+
+const DEFAULT_CACHE_TTL_HOURS = 24;
+const MIN_CACHE_TTL_HOURS = 1;
+const MAX_CACHE_TTL_HOURS = 168;
+
+type PlacesLookup = "geocode" | "reverse" | "nearby";
+
+export interface PlacesResult<T> {
+  provider: string;
+  results: T[];
+  /** True when the results came from places_cache rather than the provider. */
+  cached: boolean;
+  /** True when the provider failed and an expired cache entry was served instead. */
+  stale: boolean;
+}
+
+export interface NearbyPlace extends Place {
+  /** Straight-line distance from the searched point. */
+  distance_meters: number;
+}
+
+export function createPlacesProvider(): PlacesProvider {
+  if (Deno.env.get("PLACES_PROVIDER") === "fake") {
+    return new FixturePlacesProvider();
+  }
+
+  const apiKey = Deno.env.get("GOOGLE_MAPS_API_KEY");
+  if (!apiKey) {
+    throw new Error("Google Maps API key not configured");
+  }
+
+  return new GooglePlacesProvider(apiKey);
+}
+
+function getCacheTtlHours(): number {
+  const configured = Number(Deno.env.get("PLACES_CACHE_TTL_HOURS"));
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return DEFAULT_CACHE_TTL_HOURS;
+  }
+
+  return Math.min(Math.max(configured, MIN_CACHE_TTL_HOURS), MAX_CACHE_TTL_HOURS);
+}
+
+/**
+ * Runs a provider lookup through places_cache. Cache errors are logged and
+ * never fail the request; provider errors fall back to an expired entry when
+ * there is one.
+ */
+async function withCache<T>(
+  provider: PlacesProvider,
+  kind: PlacesLookup,
+  key: string,
+  lookup: () => Promise<T[]>
+): Promise<PlacesResult<T>> {
+  const cacheKey = `${provider.name}:${kind}:${key}`;
+  const cache = getCacheClient();
+
+  let cachedEntry: { data: T[]; expires_at: string } | null = null;
+  if (cache) {
+    const { data, error } = await cache
+      .from("places_cache")
+      .select("data, expires_at")
+      .eq("cache_key", cacheKey)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error reading places cache: ${error.message}`);
+    } else {
+      cachedEntry = data;
+    }
+  }
+
+  if (cachedEntry && new Date(cachedEntry.expires_at).getTime() > Date.now()) {
+    return { provider: provider.name, results: cachedEntry.data, cached: true, stale: false };
+  }
+
+  let results: T[];
+  try {
+    results = await lookup();
+  } catch (error) {
+    if (cachedEntry) {
+      console.error(`Places provider failed, serving stale results: ${getErrorMessage(error)}`);
+      return { provider: provider.name, results: cachedEntry.data, cached: true, stale: true };
+    }
+    throw error;
+  }
+
+  if (cache) {
+    const { error } = await cache.from("places_cache").upsert({
+      cache_key: cacheKey,
+      provider: provider.name,
+      kind,
+      data: results,
+      fetched_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + getCacheTtlHours() * 60 * 60 * 1000).toISOString(),
+    });
+
+    if (error) {
+      console.error(`Error writing places cache: ${error.message}`);
+    }
+  }
+
+  return { provider: provider.name, results, cached: false, stale: false };
+}
+
+/** Looks up an address or place name. Queries differing only in case or spacing share a cache entry. */
+export function geocodePlace(
+  query: string,
+  provider: PlacesProvider = createPlacesProvider()
+): Promise<PlacesResult<GeocodeResult>> {
+  const normalized = query.trim().replace(/\s+/g, " ");
+  return withCache(provider, "geocode", normalized.toLowerCase(), () => provider.geocode(normalized));
+}
+
+/** Four decimals (about 11 m) is as precise as an address needs. */
+export function reverseGeocode(
+  lat: number,
+  lng: number,
+  provider: PlacesProvider = createPlacesProvider()
+): Promise<PlacesResult<GeocodeResult>> {
+  const roundedLat = Number(lat.toFixed(4));
+  const roundedLng = Number(lng.toFixed(4));
+  return withCache(
+    provider,
+    "reverse",
+    `${roundedLat.toFixed(4)}:${roundedLng.toFixed(4)}`,
+    () => provider.reverseGeocode(roundedLat, roundedLng)
+  );
+}
+
+/**
+ * Finds parks, trails and waterfronts around a point, nearest first. The search
+ * point is rounded to three decimals (about 100 m) so nearby requests share
+ * results; distances are measured from the exact point.
+ */
+export async function findNearbyPlaces(
+  { lat, lng, radiusMeters, categories }: NearbySearch,
+  provider: PlacesProvider = createPlacesProvider()
+): Promise<PlacesResult<NearbyPlace>> {
+  const roundedLat = Number(lat.toFixed(3));
+  const roundedLng = Number(lng.toFixed(3));
+  const sortedCategories = [...new Set(categories)].sort();
+  const key = `${roundedLat.toFixed(3)}:${roundedLng.toFixed(3)}:${Math.round(radiusMeters)}:${sortedCategories.join(",")}`;
+
+  const result = await withCache(provider, "nearby", key, () =>
+    provider.searchNearby({
+      lat: roundedLat,
+      lng: roundedLng,
+      radiusMeters: Math.round(radiusMeters),
+      categories: sortedCategories,
+    })
+  );
+
+  const results = result.results
+    .map((place) => ({ ...place, distance_meters: Math.round(haversineDistance({ lat, lng }, place)) }))
+    .sort((a, b) => a.distance_meters - b.distance_meters);
+
+  return { ...result, results };
+}
@@ -0,0 +1,84 @@
+export interface RoutePoint {
+  lat: number;
+  lng: number;
+  /** Meters above sea level, when known. */
+  altitude?: number;
+}
+
+export interface RouteMetrics {
+  distance_meters: number;
+  /** Null when fewer than two consecutive waypoints carry an altitude. */
+  elevation_gain_meters: number | null;
+  elevation_loss_meters: number | null;
+  estimated_walking_minutes: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+// Flat-ground walking speeds for the mobility levels offered in profile setup.
+const WALKING_SPEED_KMH: Record<string, number> = {
+  high: 5,
+  moderate: 4,
+  limited: 3,
+};
+const DEFAULT_WALKING_SPEED_KMH = 4;
+
+// Naismith's rule: one extra minute per 10 m of ascent at a 5 km/h pace.
+const CLIMB_MINUTES_PER_METER = 0.1;
+const NAISMITH_SPEED_KMH = 5;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance between two points in meters. */
+export function haversineDistance(from: RoutePoint, to: RoutePoint): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function walkingSpeedKmh(mobilityLevel: string | null): number {
+  return (mobilityLevel && WALKING_SPEED_KMH[mobilityLevel]) || DEFAULT_WALKING_SPEED_KMH;
+}
+
+/**
+ * Path length along the waypoints in order, elevation change between
+ * consecutive waypoints that both have an altitude, and a walking time for the
+ * user's mobility level. Climbing time is scaled by the same pace, so slower
+ * walkers also take longer uphill.
+ */
+export function computeRouteMetrics(route: RoutePoint[], mobilityLevel: string | null): RouteMetrics {
+  let distance = 0;
+  let gain = 0;
+  let loss = 0;
+  let hasElevation = false;
+
+  for (let index = 1; index < route.length; index++) {
+    const from = route[index - 1];
+    const to = route[index];
+    distance += haversineDistance(from, to);
+
+    if (typeof from.altitude === "number" && typeof to.altitude === "number") {
+      hasElevation = true;
+      const climb = to.altitude - from.altitude;
+      if (climb > 0) gain += climb;
+      else loss -= climb;
+    }
+  }
+
+  const speedKmh = walkingSpeedKmh(mobilityLevel);
+  const flatMinutes = (distance / 1000 / speedKmh) * 60;
+  const climbMinutes = gain * CLIMB_MINUTES_PER_METER * (NAISMITH_SPEED_KMH / speedKmh);
+
+  return {
+    distance_meters: Math.round(distance),
+    elevation_gain_meters: hasElevation ? Math.round(gain) : null,
+    elevation_loss_meters: hasElevation ? Math.round(loss) : null,
+    estimated_walking_minutes: Math.ceil(flatMinutes + climbMinutes),
+  };
+}
@@ -0,0 +1,56 @@
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export async function* parseServerSentEvents(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  // A CRLF split across chunks: the "\r" waits for the next chunk's "\n".
+  let carry = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    const text = carry + value;
+    carry = text.endsWith("\r") ? "\r" : "";
+    buffer += text.slice(0, text.length - carry.length).replace(/\r\n/g, "\n");
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const parsed = parseEventBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (parsed) yield parsed;
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+
+  const trailing = parseEventBlock(buffer + carry);
+  if (trailing) yield trailing;
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return null;
+  }
+
+  return { event, data: dataLines.join("\n") };
+}
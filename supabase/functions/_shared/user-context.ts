@@ -0,0 +1,218 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.78.0";
+import { parseAccessibilityNeeds, type AccessibilityNeeds } from "./accessibility.ts";
+import { isSensitivity, type Sensitivity } from "./excursion-safety.ts";
+
+export interface ExcursionSummary {
+  title: string;
+  activities: string[] | null;
+  duration_minutes: number | null;
+  difficulty_level: string | null;
+  completed_at: string | null;
+  rating: number | null;
+  reflection: string | null;
+  completed_activities: string[] | null;
+}
+
+/** Entries of `user_profiles.location_preferences`, as written by `lib/location-preferences-api.ts`. */
+export interface SavedPlace {
+  name?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface UserContext {
+  firstName: string | null;
+  healthGoals: string[];
+  mobilityLevel: string | null;
+  accessibilityNeeds: AccessibilityNeeds;
+  sensitivities: Sensitivity[];
+  preferredActivities: string[];
+  homeBase: SavedPlace | null;
+  savedPlaces: SavedPlace[];
+  /** How far the user will travel to an excursion, or null for no limit. */
+  maxTravelDistanceKm: number | null;
+  maxTravelMinutes: number | null;
+  recentExcursions: ExcursionSummary[];
+  favoriteExcursions: ExcursionSummary[];
+}
+
+const RECENT_EXCURSION_LIMIT = 5;
+const FAVORITE_EXCURSION_LIMIT = 5;
+const MAX_REFLECTION_LENGTH = 200;
+
+const EXCURSION_SUMMARY_COLUMNS =
+  "title, activities, duration_minutes, difficulty_level, completed_at, rating, reflection, completed_activities";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toSavedPlace(value: unknown): SavedPlace | null {
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  return {
+    name: typeof value.name === "string" ? value.name : undefined,
+    address: typeof value.address === "string" ? value.address : undefined,
+    lat: typeof value.lat === "number" ? value.lat : undefined,
+    lng: typeof value.lng === "number" ? value.lng : undefined,
+  };
+}
+
+function toPositiveNumber(value: unknown): number | null {
+  return typeof value === "number" && value > 0 ? value : null;
+}
+
+/**
+ * Builds the assistant's view of the user from their own rows. Everything is read
+ * through the caller's client, so RLS limits it to the authenticated user.
+ */
+export async function loadUserContext(supabase: SupabaseClient, userId: string): Promise<UserContext> {
+  const [profileResult, recentResult, favoritesResult] = await Promise.all([
+    supabase
+      .from("user_profiles")
+      .select(
+        "first_name, health_goals, mobility_level, accessibility_needs, environmental_sensitivities, preferred_activities, location_preferences"
+      )
+      .eq("id", userId)
+      .maybeSingle(),
+    supabase
+      .from("excursions")
+      .select(EXCURSION_SUMMARY_COLUMNS)
+      .eq("user_id", userId)
+      .or("completed_at.not.is.null,rating.not.is.null")
+      .order("completed_at", { ascending: false, nullsFirst: false })
+      .limit(RECENT_EXCURSION_LIMIT),
+    supabase
+      .from("favorite_excursions")
+      .select(`excursions(${EXCURSION_SUMMARY_COLUMNS})`)
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+      .limit(FAVORITE_EXCURSION_LIMIT),
+  ]);
+
+  if (profileResult.error) throw profileResult.error;
+  if (recentResult.error) throw recentResult.error;
+  if (favoritesResult.error) throw favoritesResult.error;
+
+  const profile = profileResult.data;
+  const locationPreferences = isRecord(profile?.location_preferences) ? profile.location_preferences : {};
+  const savedPlaces = Array.isArray(locationPreferences.savedPlaces) ? locationPreferences.savedPlaces : [];
+
+  return {
+    firstName: profile?.first_name ?? null,
+    healthGoals: profile?.health_goals ?? [],
+    mobilityLevel: profile?.mobility_level ?? null,
+    accessibilityNeeds: parseAccessibilityNeeds(profile?.accessibility_needs),
+    sensitivities: (profile?.environmental_sensitivities ?? []).filter(isSensitivity),
+    preferredActivities: profile?.preferred_activities ?? [],
+    homeBase: toSavedPlace(locationPreferences.homeBase),
+    savedPlaces: savedPlaces.map(toSavedPlace).filter((place): place is SavedPlace => place !== null),
+    maxTravelDistanceKm: toPositiveNumber(locationPreferences.maxTravelDistanceKm),
+    maxTravelMinutes: toPositiveNumber(locationPreferences.maxTravelMinutes),
+    recentExcursions: recentResult.data ?? [],
+    favoriteExcursions: (favoritesResult.data ?? [])
+      .map((favorite: { excursions: unknown }) => favorite.excursions as ExcursionSummary | null)
+      .filter((excursion): excursion is ExcursionSummary => excursion !== null),
+  };
+}
+
+function describePlace(place: SavedPlace): string | null {
+  return place.name ?? place.address ?? null;
+}
+
+function describeTravelLimit(context: UserContext): string | null {
+  const limits = [
+    context.maxTravelDistanceKm !== null ? `${context.maxTravelDistanceKm} km` : null,
+    context.maxTravelMinutes !== null ? `${context.maxTravelMinutes} minutes` : null,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(" or ") : null;
+}
+
+function describeAccessibilityNeeds(needs: AccessibilityNeeds): string | null {
+  const details = [
+    needs.mobilityAid ? `uses a ${needs.mobilityAid}` : null,
+    needs.maxContinuousWalkMeters !== null ? `at most ${needs.maxContinuousWalkMeters} m without resting` : null,
+    needs.maxGradePercent !== null ? `grades up to ${needs.maxGradePercent}%` : null,
+    needs.needsRestStops ? "needs rest stops" : null,
+    needs.needsRestrooms ? "needs restrooms" : null,
+  ].filter(Boolean);
+  return details.length > 0 ? details.join(", ") : null;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+function describeExcursion(excursion: ExcursionSummary): string {
+  const details = [
+    excursion.activities?.length ? excursion.activities.join(", ") : null,
+    excursion.duration_minutes ? `${excursion.duration_minutes} min` : null,
+    excursion.difficulty_level,
+  ].filter(Boolean);
+
+  const skipped = excursion.completed_activities
+    ? (excursion.activities ?? []).filter((activity) => !excursion.completed_activities!.includes(activity))
+    : [];
+
+  const outcome = [
+    excursion.completed_at ? `completed ${excursion.completed_at.slice(0, 10)}` : null,
+    excursion.rating ? `rated ${excursion.rating}/5` : null,
+    skipped.length > 0 ? `skipped ${skipped.join(", ")}` : null,
+  ].filter(Boolean);
+
+  const reflection = excursion.reflection?.replace(/\s+/g, " ").trim();
+
+  return [
+    `"${excursion.title}"`,
+    details.length > 0 ? `(${details.join(", ")})` : null,
+    outcome.length > 0 ? `- ${outcome.join(", ")}` : null,
+    reflection ? `- reflection: "${truncate(reflection, MAX_REFLECTION_LENGTH)}"` : null,
+  ].filter(Boolean).join(" ");
+}
+
+/** Renders the context as run-level instructions; returns null when nothing is known. */
+export function formatUserContext(context: UserContext): string | null {
+  const profileLines = [
+    context.firstName ? `Name: ${context.firstName}` : null,
+    context.healthGoals.length ? `Health goals: ${context.healthGoals.join(", ")}` : null,
+    context.mobilityLevel ? `Mobility level: ${context.mobilityLevel}` : null,
+    describeAccessibilityNeeds(context.accessibilityNeeds)
+      ? `Accessibility needs: ${describeAccessibilityNeeds(context.accessibilityNeeds)}`
+      : null,
+    context.sensitivities.length ? `Sensitive to: ${context.sensitivities.join(", ")}` : null,
+    context.preferredActivities.length ? `Preferred activities: ${context.preferredActivities.join(", ")}` : null,
+    context.homeBase && describePlace(context.homeBase) ? `Home base: ${describePlace(context.homeBase)}` : null,
+    context.savedPlaces.length
+      ? `Saved places: ${context.savedPlaces.map(describePlace).filter(Boolean).join("; ")}`
+      : null,
+    describeTravelLimit(context) ? `Travels at most ${describeTravelLimit(context)} to an excursion` : null,
+  ].filter(Boolean);
+
+  const sections = [
+    profileLines.length > 0 ? `User profile:\n${profileLines.map((line) => `- ${line}`).join("\n")}` : null,
+    context.recentExcursions.length > 0
+      ? `Recent excursions:\n${context.recentExcursions.map((e) => `- ${describeExcursion(e)}`).join("\n")}`
+      : null,
+    context.favoriteExcursions.length > 0
+      ? `Favorite excursions:\n${context.favoriteExcursions.map((e) => `- ${describeExcursion(e)}`).join("\n")}`
+      : null,
+  ].filter(Boolean);
+
+  if (sections.length === 0) {
+    return null;
+  }
+
+  const hasFeedback = [...context.recentExcursions, ...context.favoriteExcursions]
+    .some((excursion) => excursion.rating || excursion.reflection);
+  if (hasFeedback) {
+    sections.push(
+      "Ratings and reflections show what the user actually enjoyed: lean toward highly rated " +
+        "excursions and activities, and avoid repeating what they rated low or skipped."
+    );
+  }
+
+  return `Use this information about the user to personalize your answer. It comes from their saved profile and history.\n\n${sections.join("\n\n")}`;
+}
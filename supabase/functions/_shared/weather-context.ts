@@ -0,0 +1,296 @@
+import type {
+  AirQuality,
+  DailyForecast,
+  HourlyForecast,
+  PollenDay,
+  WeatherAlert,
+  WeatherForecast,
+} from "./weather-provider.ts";
+
+export type WeatherHazardType = "rain" | "heat" | "wind";
+
+export interface WeatherHazard {
+  type: WeatherHazardType;
+  message: string;
+}
+
+// Conditions the creator plans around. Wind: 11 m/s is a strong breeze (about
+// 40 km/h), 17 m/s gusts are gale force.
+export const RAIN_PROBABILITY_LIMIT = 60;
+export const HEAT_FEELS_LIKE_LIMIT_C = 32;
+export const WIND_SPEED_LIMIT_MS = 11;
+export const WIND_GUST_LIMIT_MS = 17;
+
+const HOURS_PER_CONTEXT_BLOCK = 3;
+
+export interface WeatherSummary {
+  condition: string;
+  temperature_min_c: number;
+  temperature_max_c: number;
+  feels_like_max_c: number;
+  /** Highest hourly (or daily) chance of precipitation, 0–100. */
+  precipitation_probability: number;
+  precipitation_mm: number;
+  wind_speed_max_ms: number;
+  wind_gust_max_ms: number | null;
+  uv_index_max: number;
+  /** Highest heat index (apparent temperature from air temperature and humidity). */
+  heat_index_max_c: number;
+}
+
+/** What is stored in `excursions.weather_conditions` when an excursion is saved. */
+export interface WeatherSnapshot {
+  source: "forecast";
+  provider: string;
+  fetched_at: string;
+  timezone: string;
+  timezone_offset_seconds: number;
+  window_start: string;
+  window_end: string;
+  /** "hourly" inside the 48-hour forecast, "daily" further out. */
+  resolution: "hourly" | "daily";
+  summary: WeatherSummary;
+  air_quality: AirQuality | null;
+  /** Pollen levels for the window's local date, when a pollen source is configured. */
+  pollen: PollenDay | null;
+  alerts: WeatherAlert[];
+  hazards: WeatherHazard[];
+  /** The assistant's explanation when the plan keeps a flagged window. */
+  note: string | null;
+  hourly: HourlyForecast[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/** The location's wall clock, read through the UTC getters. */
+function toLocalClock(iso: string, offsetSeconds: number): Date {
+  return new Date(new Date(iso).getTime() + offsetSeconds * 1000);
+}
+
+export function formatLocalTime(iso: string, offsetSeconds: number): string {
+  const local = toLocalClock(iso, offsetSeconds);
+  const hours = String(local.getUTCHours()).padStart(2, "0");
+  const minutes = String(local.getUTCMinutes()).padStart(2, "0");
+  return `${WEEKDAYS[local.getUTCDay()]} ${hours}:${minutes}`;
+}
+
+function formatLocalDate(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  return `${WEEKDAYS[day.getUTCDay()]} ${day.getUTCDate()} ${MONTHS[day.getUTCMonth()]}`;
+}
+
+function round(value: number): number {
+  return Math.round(value);
+}
+
+/**
+ * The US National Weather Service heat index: Steadman's simple formula in mild
+ * conditions, the Rothfusz regression with its humidity adjustments above 80°F.
+ */
+export function heatIndexC(temperatureC: number, humidity: number): number {
+  const t = temperatureC * 9 / 5 + 32;
+  const rh = humidity;
+  let index = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+
+  if ((index + t) / 2 >= 80) {
+    index = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh -
+      0.00683783 * t * t - 0.05481717 * rh * rh + 0.00122874 * t * t * rh +
+      0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+
+    if (rh < 13 && t >= 80 && t <= 112) {
+      index -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+    } else if (rh > 85 && t >= 80 && t <= 87) {
+      index += ((rh - 85) / 10) * ((87 - t) / 5);
+    }
+  }
+
+  // Below about 27°C the index tracks the air temperature, so never report it lower.
+  return Math.round(Math.max((index - 32) * 5 / 9, temperatureC) * 10) / 10;
+}
+
+function summarizeHours(hours: HourlyForecast[]): WeatherSummary {
+  const gusts = hours.map((hour) => hour.wind_gust_ms).filter((gust): gust is number => gust !== null);
+  const wettest = hours.reduce((worst, hour) =>
+    hour.precipitation_probability > worst.precipitation_probability ? hour : worst
+  );
+
+  return {
+    condition: wettest.precipitation_probability >= RAIN_PROBABILITY_LIMIT
+      ? wettest.condition.description
+      : hours[0].condition.description,
+    temperature_min_c: Math.min(...hours.map((hour) => hour.temperature_c)),
+    temperature_max_c: Math.max(...hours.map((hour) => hour.temperature_c)),
+    feels_like_max_c: Math.max(...hours.map((hour) => hour.feels_like_c)),
+    precipitation_probability: wettest.precipitation_probability,
+    precipitation_mm: Math.round(hours.reduce((total, hour) => total + hour.precipitation_mm, 0) * 10) / 10,
+    wind_speed_max_ms: Math.max(...hours.map((hour) => hour.wind_speed_ms)),
+    wind_gust_max_ms: gusts.length > 0 ? Math.max(...gusts) : null,
+    uv_index_max: Math.max(...hours.map((hour) => hour.uv_index)),
+    heat_index_max_c: Math.max(...hours.map((hour) => heatIndexC(hour.temperature_c, hour.humidity))),
+  };
+}
+
+function summarizeDay(day: DailyForecast): WeatherSummary {
+  return {
+    condition: day.condition.description,
+    temperature_min_c: day.temperature_min_c,
+    temperature_max_c: day.temperature_max_c,
+    feels_like_max_c: day.feels_like_day_c,
+    precipitation_probability: day.precipitation_probability,
+    precipitation_mm: day.precipitation_mm,
+    wind_speed_max_ms: day.wind_speed_ms,
+    wind_gust_max_ms: day.wind_gust_ms,
+    uv_index_max: day.uv_index,
+    heat_index_max_c: heatIndexC(day.temperature_max_c, day.humidity),
+  };
+}
+
+/** Flags rain, extreme heat and high wind in a summarized window. */
+export function assessWeather(summary: WeatherSummary): WeatherHazard[] {
+  const hazards: WeatherHazard[] = [];
+
+  if (summary.precipitation_probability >= RAIN_PROBABILITY_LIMIT) {
+    hazards.push({
+      type: "rain",
+      message: `${summary.precipitation_probability}% chance of ${summary.condition}`,
+    });
+  }
+
+  if (summary.feels_like_max_c >= HEAT_FEELS_LIKE_LIMIT_C) {
+    hazards.push({ type: "heat", message: `feels like up to ${round(summary.feels_like_max_c)}°C` });
+  }
+
+  if (
+    summary.wind_speed_max_ms >= WIND_SPEED_LIMIT_MS ||
+    (summary.wind_gust_max_ms ?? 0) >= WIND_GUST_LIMIT_MS
+  ) {
+    const gusts = summary.wind_gust_max_ms ? `, gusts ${round(summary.wind_gust_max_ms)} m/s` : "";
+    hazards.push({ type: "wind", message: `wind up to ${round(summary.wind_speed_max_ms)} m/s${gusts}` });
+  }
+
+  return hazards;
+}
+
+/**
+ * Captures the forecast for an excursion running from `start` for
+ * `durationMinutes`. Hourly data is used inside the 48-hour forecast and the
+ * day's forecast beyond it; null when the window is outside the forecast.
+ */
+export function buildWeatherSnapshot(
+  forecast: WeatherForecast,
+  start: Date,
+  durationMinutes: number,
+  note: string | null = null
+): WeatherSnapshot | null {
+  const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+  const hours = forecast.hourly.filter((hour) => {
+    const hourStart = new Date(hour.time).getTime();
+    return hourStart < end.getTime() && hourStart + 60 * 60 * 1000 > start.getTime();
+  });
+
+  const date = toLocalClock(start.toISOString(), forecast.timezone_offset_seconds).toISOString().slice(0, 10);
+  let resolution: WeatherSnapshot["resolution"] = "hourly";
+  let summary: WeatherSummary;
+
+  if (hours.length > 0) {
+    summary = summarizeHours(hours);
+  } else {
+    const day = forecast.daily.find((entry) => entry.date === date);
+    if (!day) {
+      return null;
+    }
+    resolution = "daily";
+    summary = summarizeDay(day);
+  }
+
+  return {
+    source: "forecast",
+    provider: forecast.provider,
+    fetched_at: forecast.fetched_at,
+    timezone: forecast.timezone,
+    timezone_offset_seconds: forecast.timezone_offset_seconds,
+    window_start: start.toISOString(),
+    window_end: end.toISOString(),
+    resolution,
+    summary,
+    air_quality: forecast.air_quality,
+    pollen: forecast.pollen.find((day) => day.date === date) ?? null,
+    alerts: forecast.alerts.filter((alert) => alert.start < end.toISOString() && alert.end > start.toISOString()),
+    hazards: assessWeather(summary),
+    note,
+    hourly: hours,
+  };
+}
+
+function describeSummary(summary: WeatherSummary): string {
+  const temperature = round(summary.temperature_min_c) === round(summary.temperature_max_c)
+    ? `${round(summary.temperature_max_c)}°C`
+    : `${round(summary.temperature_min_c)}–${round(summary.temperature_max_c)}°C`;
+
+  return [
+    temperature,
+    summary.condition,
+    `rain ${summary.precipitation_probability}%`,
+    `wind ${round(summary.wind_speed_max_ms)} m/s`,
+    `UV ${round(summary.uv_index_max)}`,
+  ].join(", ");
+}
+
+const POLLEN_LEVELS = ["none", "very low", "low", "moderate", "high", "very high"];
+
+export function describePollen(pollen: PollenDay): string {
+  const levels = (["grass", "tree", "weed"] as const)
+    .filter((type) => pollen[type] !== null)
+    .map((type) => `${type} ${POLLEN_LEVELS[pollen[type]!] ?? pollen[type]}`);
+  return levels.length > 0 ? `pollen: ${levels.join(", ")}` : "";
+}
+
+function describeHazards(summary: WeatherSummary): string {
+  const hazards = assessWeather(summary);
+  return hazards.length > 0 ? ` [avoid: ${hazards.map((hazard) => hazard.message).join("; ")}]` : "";
+}
+
+/**
+ * Renders the forecast as run instructions: current conditions, the next 48
+ * hours in 3-hour blocks and the week ahead, with unsuitable periods marked.
+ */
+export function formatForecastContext(forecast: WeatherForecast, placeName: string | null): string {
+  const offset = forecast.timezone_offset_seconds;
+  const current = forecast.current;
+  const lines = [
+    `Weather forecast${placeName ? ` for ${placeName}` : ""} (local times, ${forecast.timezone}):`,
+    `Now (${formatLocalTime(current.time, offset)}): ${round(current.temperature_c)}°C, feels like ` +
+      `${round(current.feels_like_c)}°C, ${current.condition.description}, wind ${round(current.wind_speed_ms)} m/s, ` +
+      `UV ${round(current.uv_index)}` +
+      (forecast.air_quality ? `, air quality ${forecast.air_quality.label}` : "") + ".",
+    "Next 48 hours:",
+  ];
+
+  for (let index = 0; index < forecast.hourly.length; index += HOURS_PER_CONTEXT_BLOCK) {
+    const block = forecast.hourly.slice(index, index + HOURS_PER_CONTEXT_BLOCK);
+    const summary = summarizeHours(block);
+    lines.push(`- ${formatLocalTime(block[0].time, offset)}: ${describeSummary(summary)}${describeHazards(summary)}`);
+  }
+
+  lines.push("Next 7 days:");
+  for (const day of forecast.daily) {
+    const summary = summarizeDay(day);
+    const daylight = day.sunrise && day.sunset
+      ? `, daylight ${formatLocalTime(day.sunrise, offset).slice(4)}–${formatLocalTime(day.sunset, offset).slice(4)}`
+      : "";
+    const pollenDay = forecast.pollen.find((entry) => entry.date === day.date);
+    const pollen = pollenDay && describePollen(pollenDay) ? `, ${describePollen(pollenDay)}` : "";
+    lines.push(
+      `- ${formatLocalDate(day.date)}: ${describeSummary(summary)}${daylight}${pollen}${describeHazards(summary)}`
+    );
+  }
+
+  for (const alert of forecast.alerts) {
+    lines.push(
+      `Weather alert: ${alert.event} from ${formatLocalTime(alert.start, offset)} to ${formatLocalTime(alert.end, offset)}.`
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,135 @@
+/**
+ * Provider-neutral forecast shapes returned by the weather-api function. Units
+ * are metric: °C, m/s, millimetres and metres. Times are ISO 8601 strings in UTC;
+ * `timezone_offset_seconds` converts them to the forecast location's local time.
+ */
+
+export interface WeatherCondition {
+  /** Provider condition code, e.g. OpenWeatherMap's 500 for light rain. */
+  code: number;
+  /** Condition group: Clear, Clouds, Rain, Snow, Thunderstorm, Drizzle, Mist... */
+  main: string;
+  description: string;
+  /** Provider icon id, e.g. `10d`. */
+  icon: string;
+}
+
+export interface CurrentWeather {
+  time: string;
+  temperature_c: number;
+  feels_like_c: number;
+  /** Relative humidity, 0–100. */
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  /** Cloud cover, 0–100. */
+  cloud_cover: number;
+  visibility_m: number | null;
+  /** Rain and snow over the last hour. */
+  precipitation_mm: number;
+  condition: WeatherCondition;
+  sunrise: string | null;
+  sunset: string | null;
+}
+
+export interface HourlyForecast {
+  time: string;
+  temperature_c: number;
+  feels_like_c: number;
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  cloud_cover: number;
+  /** Chance of precipitation, 0–100. */
+  precipitation_probability: number;
+  precipitation_mm: number;
+  condition: WeatherCondition;
+}
+
+export interface DailyForecast {
+  /** Local calendar date at the forecast location, YYYY-MM-DD. */
+  date: string;
+  sunrise: string | null;
+  sunset: string | null;
+  summary: string | null;
+  temperature_min_c: number;
+  temperature_max_c: number;
+  feels_like_day_c: number;
+  humidity: number;
+  wind_speed_ms: number;
+  wind_gust_ms: number | null;
+  wind_direction_deg: number;
+  uv_index: number;
+  precipitation_probability: number;
+  precipitation_mm: number;
+  condition: WeatherCondition;
+}
+
+export type AirQualityLabel = "Good" | "Fair" | "Moderate" | "Poor" | "Very Poor";
+
+export interface AirQuality {
+  /** OpenWeatherMap's 1 (good) to 5 (very poor) index. */
+  aqi: number;
+  label: AirQualityLabel;
+  /** Pollutant concentrations in μg/m³. */
+  pm2_5: number | null;
+  pm10: number | null;
+  o3: number | null;
+  no2: number | null;
+}
+
+export interface WeatherAlert {
+  event: string;
+  sender: string | null;
+  start: string;
+  end: string;
+  description: string;
+}
+
+/** Universal Pollen Index per plant type: 0 none, 1 very low, 2 low, 3 moderate, 4 high, 5 very high. */
+export interface PollenDay {
+  /** Local date, YYYY-MM-DD. */
+  date: string;
+  grass: number | null;
+  tree: number | null;
+  weed: number | null;
+}
+
+export interface WeatherForecast {
+  provider: string;
+  location: { lat: number; lng: number };
+  /** IANA time zone of the location, e.g. Europe/London. */
+  timezone: string;
+  timezone_offset_seconds: number;
+  fetched_at: string;
+  current: CurrentWeather;
+  /** The next 48 hours, starting with the current hour. */
+  hourly: HourlyForecast[];
+  /** Seven days, starting today. */
+  daily: DailyForecast[];
+  /** Null when the provider has no air quality data for the location. */
+  air_quality: AirQuality | null;
+  alerts: WeatherAlert[];
+  /** Daily pollen levels from today; empty when no pollen source is configured. */
+  pollen: PollenDay[];
+}
+
+/** A source of forecasts. Implementations should throw when the upstream API fails. */
+export interface WeatherProvider {
+  /** Stored with cached forecasts so switching providers does not serve the other one's data. */
+  readonly name: string;
+  getForecast(lat: number, lng: number): Promise<WeatherForecast>;
+}
+
+/** Pollen comes from a separate source, since weather APIs rarely include it. */
+export interface PollenProvider {
+  readonly name: string;
+  getPollen(lat: number, lng: number): Promise<PollenDay[]>;
+}
+
+export const HOURLY_FORECAST_HOURS = 48;
+export const DAILY_FORECAST_DAYS = 7;
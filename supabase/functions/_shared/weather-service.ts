@@ -0,0 +1,143 @@
+import type { PollenProvider, WeatherForecast, WeatherProvider } from "./weather-provider.ts";
+import { FixturePollenProvider, FixtureWeatherProvider } from "./fake-weather-provider.ts";
+import { GooglePollenProvider } from "./google-pollen-provider.ts";
+import { OpenWeatherProvider } from "./openweather-provider.ts";
+import { getCacheClient } from "./cache-client.ts";
+import { getErrorMessage } from "./cors.ts";
+
+const DEFAULT_CACHE_TTL_MINUTES = 20;
+const MIN_CACHE_TTL_MINUTES = 15;
+const MAX_CACHE_TTL_MINUTES = 30;
+
+export interface WeatherResult {
+  forecast: WeatherForecast;
+  /** True when the forecast came from weather_cache rather than the provider. */
+  cached: boolean;
+  /** True when the provider failed and an expired cache entry was served instead. */
+  stale: boolean;
+}
+
+export function createWeatherProvider(): WeatherProvider {
+  if (Deno.env.get("WEATHER_PROVIDER") === "fake") {
+    return new FixtureWeatherProvider();
+  }
+
+  const apiKey = Deno.env.get("OPENWEATHER_API_KEY");
+  if (!apiKey) {
+    throw new Error("OpenWeatherMap API key not configured");
+  }
+
+  return new OpenWeatherProvider(apiKey);
+}
+
+/** Pollen is optional: without a Google Maps key forecasts simply have no pollen data. */
+export function createPollenProvider(): PollenProvider | null {
+  if (Deno.env.get("WEATHER_PROVIDER") === "fake") {
+    return new FixturePollenProvider();
+  }
+
+  const apiKey = Deno.env.get("GOOGLE_MAPS_API_KEY");
+  return apiKey ? new GooglePollenProvider(apiKey) : null;
+}
+
+/** Adds pollen levels to a fresh forecast; a pollen failure leaves the list empty. */
+async function addPollen(
+  forecast: WeatherForecast,
+  pollenProvider: PollenProvider | null
+): Promise<WeatherForecast> {
+  if (!pollenProvider) {
+    return forecast;
+  }
+
+  try {
+    const { lat, lng } = forecast.location;
+    return { ...forecast, pollen: await pollenProvider.getPollen(lat, lng) };
+  } catch (error) {
+    console.error(`Error fetching pollen: ${getErrorMessage(error)}`);
+    return forecast;
+  }
+}
+
+function getCacheTtlMinutes(): number {
+  const configured = Number(Deno.env.get("WEATHER_CACHE_TTL_MINUTES"));
+  if (!Number.isFinite(configured) || configured <= 0) {
+    return DEFAULT_CACHE_TTL_MINUTES;
+  }
+
+  return Math.min(Math.max(configured, MIN_CACHE_TTL_MINUTES), MAX_CACHE_TTL_MINUTES);
+}
+
+/** Entries cached before pollen was added have no `pollen` list. */
+function withDefaults(forecast: WeatherForecast): WeatherForecast {
+  return { ...forecast, pollen: forecast.pollen ?? [] };
+}
+
+/** Two decimals is roughly 1 km, close enough to share a forecast between nearby requests. */
+function roundCoordinate(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Returns the forecast for the coordinates, from weather_cache when a fresh
+ * entry exists. Cache errors are logged and never fail the request; provider
+ * errors fall back to an expired entry when there is one.
+ */
+export async function getWeatherForecast(
+  lat: number,
+  lng: number,
+  provider: WeatherProvider = createWeatherProvider(),
+  pollenProvider: PollenProvider | null = createPollenProvider()
+): Promise<WeatherResult> {
+  const roundedLat = roundCoordinate(lat);
+  const roundedLng = roundCoordinate(lng);
+  const cacheKey = `${provider.name}:${roundedLat.toFixed(2)}:${roundedLng.toFixed(2)}`;
+  const cache = getCacheClient();
+
+  let cachedEntry: { data: WeatherForecast; expires_at: string } | null = null;
+  if (cache) {
+    const { data, error } = await cache
+      .from("weather_cache")
+      .select("data, expires_at")
+      .eq("cache_key", cacheKey)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Error reading weather cache: ${error.message}`);
+    } else {
+      cachedEntry = data;
+    }
+  }
+
+  if (cachedEntry && new Date(cachedEntry.expires_at).getTime() > Date.now()) {
+    return { forecast: withDefaults(cachedEntry.data), cached: true, stale: false };
+  }
+
+  let forecast: WeatherForecast;
+  try {
+    forecast = await addPollen(await provider.getForecast(roundedLat, roundedLng), pollenProvider);
+  } catch (error) {
+    if (cachedEntry) {
+      console.error(`Weather provider failed, serving stale forecast: ${getErrorMessage(error)}`);
+      return { forecast: withDefaults(cachedEntry.data), cached: true, stale: true };
+    }
+    throw error;
+  }
+
+  if (cache) {
+    const { error } = await cache.from("weather_cache").upsert({
+      cache_key: cacheKey,
+      provider: provider.name,
+      lat: roundedLat,
+      lng: roundedLng,
+      data: forecast,
+      fetched_at: forecast.fetched_at,
+      expires_at: new Date(Date.now() + getCacheTtlMinutes() * 60 * 1000).toISOString(),
+    });
+
+    if (error) {
+      console.error(`Error writing weather cache: ${error.message}`);
+    }
+  }
+
+  return { forecast, cached: false, stale: false };
+}
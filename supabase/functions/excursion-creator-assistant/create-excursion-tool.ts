@@ -0,0 +1,75 @@
+import type { AssistantTool } from "../_shared/assistant-provider.ts";
+import { DIFFICULTY_LEVELS } from "../_shared/excursion-validation.ts";
+import { SURFACES } from "../_shared/nature-places.ts";
+
+const coordinateProperties = {
+  lat: { type: "number", minimum: -90, maximum: 90, description: "Latitude in decimal degrees" },
+  lng: { type: "number", minimum: -180, maximum: 180, description: "Longitude in decimal degrees" },
+};
+
+export const createExcursionTool: AssistantTool = {
+  type: "function",
+  function: {
+    name: "create_excursion",
+    description:
+      "Save a personalized outdoor excursion for the user. Call this once the plan is final instead of writing the plan as JSON in the reply.",
+    parameters: {
+      type: "object",
+      properties: {
+        title: { type: "string", description: "Short, inviting name for the excursion" },
+        description: { type: "string", description: "What the user will do and why it suits them" },
+        location: {
+          type: "object",
+          description: "Starting point of the excursion",
+          properties: {
+            ...coordinateProperties,
+            address: { type: "string", description: "Human-readable address or place name" },
+          },
+          required: ["lat", "lng", "address"],
+        },
+        route_data: {
+          type: "array",
+          description: "Waypoints in the order they are visited, numbered from 1",
+          minItems: 2,
+          items: {
+            type: "object",
+            properties: {
+              order: { type: "integer", minimum: 1, description: "Position of the waypoint along the route" },
+              ...coordinateProperties,
+              name: { type: "string" },
+              altitude: { type: "number", description: "Meters above sea level, if known" },
+              surface: { type: "string", enum: SURFACES, description: "Surface of the path from the previous waypoint" },
+              steps: { type: "boolean", description: "True when the path from the previous waypoint has steps" },
+              rest_stop: { type: "boolean", description: "True when there is a bench or other seating here" },
+              restroom: { type: "boolean", description: "True when there is a restroom here" },
+            },
+            required: ["order", "lat", "lng"],
+          },
+        },
+        duration_minutes: { type: "integer", minimum: 1, description: "Expected total duration in minutes" },
+        difficulty_level: { type: "string", enum: DIFFICULTY_LEVELS },
+        activities: {
+          type: "array",
+          description: "Activities included in the excursion, e.g. Walking, Bird Watching",
+          items: { type: "string" },
+        },
+        place_id: {
+          type: "string",
+          description: "id of the find_nature_places, find_green_spaces or geocode_place result the excursion starts at",
+        },
+        scheduled_at: {
+          type: "string",
+          format: "date-time",
+          description:
+            "Planned start as ISO 8601 with the location's UTC offset, within the next 7 days. The forecast for this time is saved with the excursion.",
+        },
+        weather_note: {
+          type: "string",
+          description:
+            "Only when the forecast flags rain, extreme heat or high wind during the excursion and no better time works: why the plan still suits those conditions",
+        },
+      },
+      required: ["title", "description", "location", "duration_minutes", "difficulty_level", "activities"],
+    },
+  },
+};
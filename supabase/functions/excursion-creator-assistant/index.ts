@@ -1,354 +1,655 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
-import { createClient } from "npm:@supabase/supabase-js@2.78.0";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
-};
+import {
+  createAssistantHandler,
+  type AssistantContext,
+  type ChatRequest,
+  type ToolResult,
+} from "../_shared/assistant-runtime.ts";
+import type { FakeResponder } from "../_shared/fake-openai-provider.ts";
+import {
+  formatValidationIssues,
+  validateExcursion,
+  type ExcursionInput,
+  type ValidationIssue,
+} from "../_shared/excursion-validation.ts";
+import { computeRouteMetrics, haversineDistance } from "../_shared/route-metrics.ts";
+import {
+  checkAccessibility,
+  checkPlaceAccessibility,
+  computeRouteAccessibility,
+  formatAccessibilityContext,
+  getAccessibilityLimits,
+} from "../_shared/accessibility.ts";
+import { getErrorMessage } from "../_shared/cors.ts";
+import { getWeatherForecast } from "../_shared/weather-service.ts";
+import { findNearbyPlaces, geocodePlace } from "../_shared/places-service.ts";
+import {
+  ACCESSIBILITY_FEATURES,
+  AMENITIES,
+  getNaturePlaceAccessibility,
+  isOneOf,
+  NATURE_PLACE_CATEGORIES,
+  searchNaturePlaces,
+  SURFACES,
+} from "../_shared/nature-places.ts";
+import {
+  DEFAULT_NEARBY_RADIUS_METERS,
+  isPlaceCategory,
+  MAX_NEARBY_RADIUS_METERS,
+  PLACE_CATEGORIES,
+} from "../_shared/places-provider.ts";
+import {
+  evaluateSafety,
+  formatSafetyContext,
+  getSafetyThresholds,
+  UNCHECKED_CONDITIONS_WARNING,
+} from "../_shared/excursion-safety.ts";
+import {
+  buildWeatherSnapshot,
+  formatForecastContext,
+  formatLocalTime,
+  HEAT_FEELS_LIKE_LIMIT_C,
+  RAIN_PROBABILITY_LIMIT,
+  WIND_GUST_LIMIT_MS,
+  WIND_SPEED_LIMIT_MS,
+  type WeatherSnapshot,
+} from "../_shared/weather-context.ts";
+import { createExcursionTool } from "./create-excursion-tool.ts";
+import { findGreenSpacesTool, findNaturePlacesTool, geocodePlaceTool } from "./places-tools.ts";
+
+interface ExcursionRequest extends ChatRequest {
+  /** Where the device is right now; profile details are loaded on the server instead. */
+  currentLocation?: {
+    lat: number;
+    lng: number;
+    address?: string;
+  };
+  /** ISO start and end of a time the user picked to go out. */
+  timeWindow?: {
+    start: string;
+    end: string;
+  };
+}
 
-interface ExcursionRequest {
+interface ExcursionError {
+  code: "invalid_excursion";
   message: string;
-  conversationId?: string;
-  userContext?: {
-    healthGoals?: string[];
-    mobilityLevel?: string;
-    preferredActivities?: string[];
-    location?: {
-      lat: number;
-      lng: number;
-      address?: string;
-    };
-  };
+  attempts: number;
+  issues: ValidationIssue[];
 }
 
-interface ExcursionResponse {
-  response: string;
-  conversationId: string;
-  threadId: string;
-  excursionData?: any;
+interface ExcursionResult {
+  excursionData: unknown;
+  excursionError?: ExcursionError;
 }
 
-Deno.serve(async (req: Request) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders,
-    });
+// Invalid create_excursion calls the model may correct before the turn gives up.
+const MAX_EXCURSION_ATTEMPTS = 3;
+
+// Parks can be large, so the start may be this far from the point the provider gives for the place.
+const MAX_PLACE_DISTANCE_METERS = 1000;
+// Results handed to the model per lookup; nearest first.
+const MAX_PLACE_RESULTS = 10;
+// search_nature_places clamps its radius to the same limit.
+const CATALOG_SEARCH_MAX_RADIUS_METERS = 100000;
+
+const PLACE_INSTRUCTIONS =
+  "Never invent coordinates. Find the excursion's location with find_nature_places around the user, then " +
+  "find_green_spaces when the catalog has nothing suitable (or geocode_place when they name a place). Start the " +
+  "excursion at one of the results and pass its id as place_id.";
+
+const WEATHER_INSTRUCTIONS =
+  "Plan around the forecast above instead of guessing the weather, and set scheduled_at to the planned start. " +
+  `Avoid times with a ${RAIN_PROBABILITY_LIMIT}% or higher chance of rain, extreme heat (feels like ` +
+  `${HEAT_FEELS_LIKE_LIMIT_C}°C or more) or high wind (${WIND_SPEED_LIMIT_MS} m/s, or gusts of ` +
+  `${WIND_GUST_LIMIT_MS} m/s or more). When the weather makes you move the excursion to another time or change ` +
+  "it (shorter, more sheltered, a different activity), tell the user what you changed and why. " +
+  "The app saves the forecast with the excursion, so do not describe it as certain.";
+
+interface Origin {
+  lat: number;
+  lng: number;
+  name: string | null;
+}
+
+/** Where the user sets off from: the device location when sent, the profile's home base otherwise. */
+function getOrigin({ request, userContext }: AssistantContext<ExcursionRequest>): Origin | null {
+  const location = request.currentLocation;
+  if (location && Number.isFinite(location.lat) && Number.isFinite(location.lng)) {
+    return { lat: location.lat, lng: location.lng, name: location.address ?? null };
   }
 
-  try {
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      throw new Error("No authorization header");
-    }
+  const home = userContext.homeBase;
+  return home?.lat !== undefined && home.lng !== undefined
+    ? { lat: home.lat, lng: home.lng, name: home.name ?? home.address ?? null }
+    : null;
+}
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-      global: {
-        headers: { Authorization: authHeader },
-      },
-    });
+async function buildInstructions(context: AssistantContext<ExcursionRequest>): Promise<string> {
+  const { request, userContext } = context;
+  const instructions = [
+    "When the excursion plan is final, save it by calling create_excursion. Do not include the plan as JSON in your reply.",
+    PLACE_INSTRUCTIONS,
+  ];
 
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    if (userError || !user) {
-      throw new Error("Unauthorized");
-    }
+  const accessibility = formatAccessibilityContext(getAccessibilityLimits(userContext));
+  if (accessibility) {
+    instructions.push(accessibility);
+  }
 
-    const { message, conversationId, userContext }: ExcursionRequest = await req.json();
-    if (!message) {
-      throw new Error("Message is required");
-    }
+  const location = request.currentLocation;
+  const hasCurrentLocation = !!location && Number.isFinite(location.lat) && Number.isFinite(location.lng);
+  if (hasCurrentLocation) {
+    instructions.push(
+      `The user's device reports their current location as ${location.lat}, ${location.lng}` +
+        (location.address ? ` (${location.address}).` : ".")
+    );
+  }
 
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
-      throw new Error("OpenAI API key not configured");
-    }
+  // The forecast is for where the user is now, or their home base otherwise.
+  const forecastPlace = getOrigin(context);
 
-    let threadId: string;
-    let dbConversationId: string;
-
-    if (conversationId) {
-      const { data: conversation, error: convError } = await supabase
-        .from("conversations")
-        .select("id, thread_id")
-        .eq("id", conversationId)
-        .eq("user_id", user.id)
-        .maybeSingle();
-
-      if (convError) throw convError;
-
-      if (conversation) {
-        threadId = conversation.thread_id;
-        dbConversationId = conversation.id;
-      } else {
-        const threadResponse = await fetch("https://api.openai.com/v1/threads", {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${openaiApiKey}`,
-            "Content-Type": "application/json",
-            "OpenAI-Beta": "assistants=v2",
-          },
-        });
-
-        if (!threadResponse.ok) {
-          throw new Error("Failed to create OpenAI thread");
-        }
-
-        const thread = await threadResponse.json();
-        threadId = thread.id;
-
-        const { data: newConversation, error: createError } = await supabase
-          .from("conversations")
-          .insert({
-            user_id: user.id,
-            assistant_type: "excursion_creator",
-            thread_id: threadId,
-          })
-          .select("id")
-          .single();
-
-        if (createError) throw createError;
-        dbConversationId = newConversation.id;
-      }
-    } else {
-      const threadResponse = await fetch("https://api.openai.com/v1/threads", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-          "OpenAI-Beta": "assistants=v2",
-        },
-      });
-
-      if (!threadResponse.ok) {
-        throw new Error("Failed to create OpenAI thread");
-      }
-
-      const thread = await threadResponse.json();
-      threadId = thread.id;
-
-      const { data: newConversation, error: createError } = await supabase
-        .from("conversations")
-        .insert({
-          user_id: user.id,
-          assistant_type: "excursion_creator",
-          thread_id: threadId,
-        })
-        .select("id")
-        .single();
-
-      if (createError) throw createError;
-      dbConversationId = newConversation.id;
-    }
+  if (forecastPlace && userContext.maxTravelDistanceKm !== null) {
+    instructions.push(
+      `Keep the excursion's start within ${userContext.maxTravelDistanceKm} km of ` +
+        `${hasCurrentLocation ? "the user's current location" : "their home base"}` +
+        (userContext.maxTravelMinutes !== null ? ` and ${userContext.maxTravelMinutes} minutes of travel.` : ".")
+    );
+  } else if (userContext.maxTravelMinutes !== null) {
+    instructions.push(`Keep the excursion's start within ${userContext.maxTravelMinutes} minutes of travel.`);
+  }
 
-    const { error: msgError } = await supabase
-      .from("messages")
-      .insert({
-        conversation_id: dbConversationId,
-        role: "user",
-        content: message,
-      });
-
-    if (msgError) throw msgError;
-
-    let messageContent = message;
-    if (userContext) {
-      const contextInfo = [
-        userContext.healthGoals?.length ? `Health Goals: ${userContext.healthGoals.join(", ")}` : null,
-        userContext.mobilityLevel ? `Mobility Level: ${userContext.mobilityLevel}` : null,
-        userContext.preferredActivities?.length ? `Preferred Activities: ${userContext.preferredActivities.join(", ")}` : null,
-        userContext.location?.address ? `Location: ${userContext.location.address}` : null,
-      ].filter(Boolean);
-
-      if (contextInfo.length > 0) {
-        messageContent = `${message}\n\nUser Context:\n${contextInfo.join("\n")}`;
-      }
+  // Without a forecast the window is given in UTC, which the model can still convert.
+  let formatTime = (iso: string) => iso;
+
+  if (forecastPlace) {
+    try {
+      const { forecast } = await getWeatherForecast(forecastPlace.lat, forecastPlace.lng);
+      instructions.push(
+        formatForecastContext(forecast, forecastPlace.name),
+        WEATHER_INSTRUCTIONS,
+        formatSafetyContext(getSafetyThresholds(userContext))
+      );
+      formatTime = (iso) => formatLocalTime(iso, forecast.timezone_offset_seconds);
+    } catch (error) {
+      console.error(`Error loading forecast for instructions: ${getErrorMessage(error)}`);
+      instructions.push("No weather forecast is available right now; do not guess the weather.");
     }
+  }
 
-    const addMessageResponse = await fetch(
-      `https://api.openai.com/v1/threads/${threadId}/messages`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-          "OpenAI-Beta": "assistants=v2",
-        },
-        body: JSON.stringify({
-          role: "user",
-          content: messageContent,
-        }),
-      }
+  const timeWindow = request.timeWindow;
+  if (timeWindow && !Number.isNaN(Date.parse(timeWindow.start)) && !Number.isNaN(Date.parse(timeWindow.end))) {
+    instructions.push(
+      `The user picked ${formatTime(timeWindow.start)} to ${formatTime(timeWindow.end)} as the time to go out. ` +
+        "Schedule the excursion to start and finish within it, shortening the plan if needed."
     );
+  }
 
-    if (!addMessageResponse.ok) {
-      throw new Error("Failed to add message to thread");
-    }
+  return instructions.join("\n");
+}
 
-    const assistantId = Deno.env.get("EXCURSION_CREATOR_ASSISTANT_ID");
-    if (!assistantId) {
-      throw new Error("Excursion Creator Assistant ID not configured");
-    }
+type WeatherCheck =
+  | { status: "forecast"; snapshot: WeatherSnapshot }
+  | { status: "out_of_range"; lastDate: string | null }
+  | { status: "unavailable" };
 
-    const runResponse = await fetch(
-      `https://api.openai.com/v1/threads/${threadId}/runs`,
-      {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-          "OpenAI-Beta": "assistants=v2",
-        },
-        body: JSON.stringify({
-          assistant_id: assistantId,
-        }),
-      }
-    );
+/** The forecast for the excursion's location and time, or why there is none. */
+async function loadWeatherSnapshot(excursion: ExcursionInput, start: Date): Promise<WeatherCheck> {
+  try {
+    const { forecast } = await getWeatherForecast(excursion.location.lat, excursion.location.lng);
+    const snapshot = buildWeatherSnapshot(forecast, start, excursion.duration_minutes, excursion.weather_note);
+    return snapshot
+      ? { status: "forecast", snapshot }
+      : { status: "out_of_range", lastDate: forecast.daily.at(-1)?.date ?? null };
+  } catch (error) {
+    console.error(`Error loading forecast for excursion: ${getErrorMessage(error)}`);
+    return { status: "unavailable" };
+  }
+}
 
-    if (!runResponse.ok) {
-      throw new Error("Failed to run assistant");
-    }
+function isCreateExcursionResult(result: ToolResult): boolean {
+  return result.name === createExcursionTool.function.name;
+}
 
-    const run = await runResponse.json();
+function isPlaceLookupResult(result: ToolResult): boolean {
+  return [geocodePlaceTool, findGreenSpacesTool, findNaturePlacesTool]
+    .some((tool) => result.name === tool.function.name);
+}
 
-    let runStatus = run.status;
-    let attempts = 0;
-    const maxAttempts = 30;
+/** The requested radius, or as far as the user is willing to travel, capped at `max`. */
+function getSearchRadius(requested: unknown, { userContext }: AssistantContext<ExcursionRequest>, max: number): number {
+  const travelLimitMeters = userContext.maxTravelDistanceKm !== null
+    ? userContext.maxTravelDistanceKm * 1000
+    : DEFAULT_NEARBY_RADIUS_METERS;
+  const radius = Number(requested);
+  return Math.min(Number.isFinite(radius) && radius > 0 ? radius : travelLimitMeters, max);
+}
 
-    while (runStatus !== "completed" && attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
+function getSearchCenter(search: Record<string, unknown>): { lat: number; lng: number } | null {
+  const lat = Number(search.lat);
+  const lng = Number(search.lng);
+  return Number.isFinite(lat) && Math.abs(lat) <= 90 && Number.isFinite(lng) && Math.abs(lng) <= 180
+    ? { lat, lng }
+    : null;
+}
 
-      const statusResponse = await fetch(
-        `https://api.openai.com/v1/threads/${threadId}/runs/${run.id}`,
-        {
-          headers: {
-            "Authorization": `Bearer ${openaiApiKey}`,
-            "OpenAI-Beta": "assistants=v2",
-          },
-        }
-      );
+function filterValues<T>(value: unknown, isAllowed: (item: unknown) => item is T): T[] {
+  return Array.isArray(value) ? value.filter(isAllowed) : [];
+}
 
-      if (!statusResponse.ok) {
-        throw new Error("Failed to check run status");
-      }
+async function lookUpPlace(args: unknown): Promise<Record<string, unknown>> {
+  const { query } = (args ?? {}) as { query?: unknown };
+  const trimmed = typeof query === "string" ? query.trim() : "";
+  if (!trimmed) {
+    return { success: false, error: "query is required" };
+  }
 
-      const statusData = await statusResponse.json();
-      runStatus = statusData.status;
-      attempts++;
+  const { results } = await geocodePlace(trimmed);
+  return { success: true, results: results.slice(0, MAX_PLACE_RESULTS) };
+}
 
-      if (runStatus === "failed" || runStatus === "cancelled" || runStatus === "expired") {
-        throw new Error(`Assistant run ${runStatus}`);
-      }
-    }
+async function findGreenSpaces(
+  args: unknown,
+  context: AssistantContext<ExcursionRequest>
+): Promise<Record<string, unknown>> {
+  const search = (args ?? {}) as Record<string, unknown>;
+  const center = getSearchCenter(search);
+  if (!center) {
+    return { success: false, error: "Valid lat and lng are required" };
+  }
 
-    if (runStatus !== "completed") {
-      throw new Error("Assistant run timed out");
-    }
+  const categories = filterValues(search.categories, isPlaceCategory);
 
-    const messagesResponse = await fetch(
-      `https://api.openai.com/v1/threads/${threadId}/messages`,
-      {
-        headers: {
-          "Authorization": `Bearer ${openaiApiKey}`,
-          "OpenAI-Beta": "assistants=v2",
-        },
-      }
-    );
+  const { results } = await findNearbyPlaces({
+    ...center,
+    radiusMeters: getSearchRadius(search.radius_meters, context, MAX_NEARBY_RADIUS_METERS),
+    categories: categories.length > 0 ? categories : [...PLACE_CATEGORIES],
+  });
 
-    if (!messagesResponse.ok) {
-      throw new Error("Failed to retrieve messages");
-    }
+  return {
+    success: true,
+    results: results.slice(0, MAX_PLACE_RESULTS).map(({ types: _types, ...place }) => place),
+    instructions: results.length === 0
+      ? "Nothing was found; search a larger radius or other categories, or tell the user no green space is nearby."
+      : undefined,
+  };
+}
 
-    const messagesData = await messagesResponse.json();
-    const assistantMessage = messagesData.data.find(
-      (msg: any) => msg.role === "assistant"
-    );
+async function findNaturePlaces(
+  args: unknown,
+  context: AssistantContext<ExcursionRequest>
+): Promise<Record<string, unknown>> {
+  const search = (args ?? {}) as Record<string, unknown>;
+  const center = getSearchCenter(search);
+  if (!center) {
+    return { success: false, error: "Valid lat and lng are required" };
+  }
+
+  const maxGrade = Number(search.max_grade_percent);
+  const results = await searchNaturePlaces(context.supabase, {
+    ...center,
+    radiusMeters: getSearchRadius(search.radius_meters, context, CATALOG_SEARCH_MAX_RADIUS_METERS),
+    categories: filterValues(search.categories, isOneOf(NATURE_PLACE_CATEGORIES)),
+    amenities: filterValues(search.amenities, isOneOf(AMENITIES)),
+    accessibility: filterValues(search.accessibility, isOneOf(ACCESSIBILITY_FEATURES)),
+    surfaces: filterValues(search.surfaces, isOneOf(SURFACES)),
+    activities: filterValues(search.activities, (item): item is string => typeof item === "string"),
+    maxGradePercent: search.max_grade_percent !== undefined && Number.isFinite(maxGrade) ? maxGrade : undefined,
+    limit: MAX_PLACE_RESULTS,
+  });
+
+  return {
+    success: true,
+    results,
+    instructions: results.length === 0
+      ? "No catalog place matches; relax the filters or use find_green_spaces instead."
+      : undefined,
+  };
+}
+
+type PlaceCheck =
+  | { status: "verified"; placeId: string | null; naturePlaceId: string | null }
+  | { status: "not_found" }
+  | { status: "unavailable" };
+
+/**
+ * Confirms the excursion starts at a real place: the place_id the model picked
+ * from this turn's lookups, any looked-up place near the start, or failing that
+ * a catalog place or a green space the provider finds there.
+ */
+async function verifyPlace(
+  excursion: ExcursionInput,
+  { supabase, toolResults }: AssistantContext<ExcursionRequest>
+): Promise<PlaceCheck> {
+  const isNearStart = (place: { lat: number; lng: number }) =>
+    haversineDistance(excursion.location, place) <= MAX_PLACE_DISTANCE_METERS;
+
+  const lookedUp = toolResults
+    .filter((result) => isPlaceLookupResult(result) && Array.isArray(result.output.results))
+    .flatMap((result) =>
+      (result.output.results as { id: string; lat: number; lng: number }[])
+        .map((place) => ({ ...place, inCatalog: result.name === findNaturePlacesTool.function.name }))
+    )
+    .filter(isNearStart)
+    .sort((a, b) => haversineDistance(excursion.location, a) - haversineDistance(excursion.location, b));
+
+  const picked = lookedUp.find((place) => place.id === excursion.place_id) ?? lookedUp[0];
+  if (picked) {
+    return picked.inCatalog
+      ? { status: "verified", placeId: null, naturePlaceId: picked.id }
+      : { status: "verified", placeId: picked.id, naturePlaceId: null };
+  }
 
-    if (!assistantMessage) {
-      throw new Error("No assistant response found");
+  try {
+    const [catalogPlace] = await searchNaturePlaces(supabase, {
+      lat: excursion.location.lat,
+      lng: excursion.location.lng,
+      radiusMeters: MAX_PLACE_DISTANCE_METERS,
+      limit: 1,
+    });
+    if (catalogPlace) {
+      return { status: "verified", placeId: null, naturePlaceId: catalogPlace.id };
     }
+  } catch (error) {
+    console.error(`Error searching the nature places catalog: ${getErrorMessage(error)}`);
+  }
 
-    const textContent = assistantMessage.content.find(
-      (content: any) => content.type === "text"
-    );
+  try {
+    const { results } = await findNearbyPlaces({
+      lat: excursion.location.lat,
+      lng: excursion.location.lng,
+      radiusMeters: MAX_PLACE_DISTANCE_METERS,
+      categories: [...PLACE_CATEGORIES],
+    });
+    return results[0]
+      ? { status: "verified", placeId: results[0].id, naturePlaceId: null }
+      : { status: "not_found" };
+  } catch (error) {
+    console.error(`Error verifying excursion place: ${getErrorMessage(error)}`);
+    return { status: "unavailable" };
+  }
+}
+
+const GIVE_UP_INSTRUCTIONS =
+  "Do not call create_excursion again. Tell the user the excursion could not be saved and briefly explain why.";
+
+/** Every failed create_excursion call this turn, whatever rejected it. Refused calls are not attempts. */
+function countFailedAttempts(toolResults: ToolResult[]): number {
+  return toolResults.filter(
+    (result) => isCreateExcursionResult(result) && !result.output.success && !result.output.refused
+  ).length;
+}
+
+/**
+ * Hands a rejection back to the model with its attempt number. The model may
+ * retry until MAX_EXCURSION_ATTEMPTS; after that, calls are refused outright.
+ */
+function rejectExcursion(
+  failure: { instructions: string } & Record<string, unknown>,
+  toolResults: ToolResult[]
+): Record<string, unknown> {
+  const attempt = countFailedAttempts(toolResults) + 1;
+  const gaveUp = attempt >= MAX_EXCURSION_ATTEMPTS;
+
+  return {
+    success: false,
+    ...failure,
+    attempt,
+    gaveUp,
+    instructions: gaveUp
+      ? GIVE_UP_INSTRUCTIONS
+      : `${failure.instructions} This was attempt ${attempt} of ${MAX_EXCURSION_ATTEMPTS}.`,
+  };
+}
 
-    if (!textContent) {
-      throw new Error("No text content in assistant response");
+function rejectInvalidExcursion(issues: ValidationIssue[], toolResults: ToolResult[]): Record<string, unknown> {
+  return rejectExcursion({
+    issues,
+    errors: formatValidationIssues(issues),
+    instructions: "Fix every listed error and call create_excursion again.",
+  }, toolResults);
+}
+
+async function createExcursion(
+  args: unknown,
+  context: AssistantContext<ExcursionRequest>
+): Promise<Record<string, unknown>> {
+  const { supabase, user, userContext, toolResults } = context;
+
+  // The cap is enforced here, not left to the model: later calls are neither validated nor saved.
+  if (countFailedAttempts(toolResults) >= MAX_EXCURSION_ATTEMPTS) {
+    return {
+      success: false,
+      refused: true,
+      error: `create_excursion was already rejected ${MAX_EXCURSION_ATTEMPTS} times this turn`,
+      instructions: GIVE_UP_INSTRUCTIONS,
+    };
+  }
+
+  const validation = validateExcursion(args);
+
+  if (!validation.valid) {
+    return rejectInvalidExcursion(validation.issues, toolResults);
+  }
+
+  const { excursion } = validation;
+
+  // Straight-line distance never exceeds the travel distance, so anything beyond the limit is out of reach.
+  const origin = getOrigin(context);
+  const maxTravelKm = userContext.maxTravelDistanceKm;
+  if (origin && maxTravelKm !== null) {
+    const distanceKm = haversineDistance(origin, excursion.location) / 1000;
+    if (distanceKm > maxTravelKm) {
+      return rejectExcursion({
+        error: `The excursion starts ${Math.round(distanceKm)} km away; the user travels at most ${maxTravelKm} km`,
+        instructions:
+          `Pick a place within ${maxTravelKm} km of ${origin.name ?? `${origin.lat}, ${origin.lng}`} and call ` +
+          "create_excursion again.",
+      }, toolResults);
     }
+  }
+
+  // When places cannot be looked up at all the excursion is saved unverified rather than not at all.
+  const place = await verifyPlace(excursion, context);
+  if (place.status === "not_found") {
+    return rejectExcursion({
+      error: `No catalog place, park, trail, waterfront or looked-up place is within ${MAX_PLACE_DISTANCE_METERS} m of the excursion's start`,
+      instructions:
+        "Call find_nature_places or find_green_spaces around the user (or geocode_place for a place they named), " +
+        "start the excursion at one of the results, pass its id as place_id and call create_excursion again.",
+    }, toolResults);
+  }
 
-    const assistantResponse = textContent.text.value;
-
-    const { error: assistantMsgError } = await supabase
-      .from("messages")
-      .insert({
-        conversation_id: dbConversationId,
-        role: "assistant",
-        content: assistantResponse,
-      });
-
-    if (assistantMsgError) throw assistantMsgError;
-
-    let excursionData = null;
-    const excursionMatch = assistantResponse.match(/```json\n([\s\S]*?)\n```/);
-
-    if (excursionMatch) {
-      try {
-        const parsedExcursion = JSON.parse(excursionMatch[1]);
-
-        if (parsedExcursion.title && parsedExcursion.location) {
-          const { data: newExcursion, error: excursionError } = await supabase
-            .from("excursions")
-            .insert({
-              user_id: user.id,
-              title: parsedExcursion.title,
-              description: parsedExcursion.description || null,
-              location: parsedExcursion.location,
-              route_data: parsedExcursion.route_data || null,
-              duration_minutes: parsedExcursion.duration_minutes || null,
-              difficulty_level: parsedExcursion.difficulty_level || "Easy",
-              activities: parsedExcursion.activities || [],
-              weather_conditions: parsedExcursion.weather_conditions || null,
-            })
-            .select()
-            .single();
-
-          if (!excursionError) {
-            excursionData = newExcursion;
-          }
-        }
-      } catch (parseError) {
-        console.error("Error parsing excursion data:", parseError);
-      }
+  // A route that breaks the user's accessibility limits is never saved, however it is explained. The
+  // waypoint attributes come from the model, so a catalog start is also held to the catalog's own data.
+  const limits = getAccessibilityLimits(userContext);
+  const accessibilityIssues = checkAccessibility(excursion, limits);
+  if (place.status === "verified" && place.naturePlaceId) {
+    const naturePlace = await getNaturePlaceAccessibility(supabase, place.naturePlaceId);
+    if (naturePlace) {
+      accessibilityIssues.push(...checkPlaceAccessibility(naturePlace, limits));
     }
+  }
+  if (accessibilityIssues.length > 0) {
+    return rejectInvalidExcursion(accessibilityIssues, toolResults);
+  }
+
+  const weatherCheck = await loadWeatherSnapshot(excursion, new Date(excursion.scheduled_at ?? Date.now()));
 
-    const responseData: ExcursionResponse = {
-      response: assistantResponse,
-      conversationId: dbConversationId,
-      threadId: threadId,
-      excursionData,
+  // A time the forecast does not reach cannot be checked for hazards, so it is not saved.
+  if (weatherCheck.status === "out_of_range") {
+    return rejectExcursion({
+      error: "The planned time is outside the weather forecast, so its conditions cannot be checked",
+      instructions:
+        `Set scheduled_at to a time inside the forecast${weatherCheck.lastDate ? ` (up to ${weatherCheck.lastDate})` : ""} ` +
+        "and call create_excursion again.",
+    }, toolResults);
+  }
+
+  const weather = weatherCheck.status === "forecast" ? weatherCheck.snapshot : null;
+
+  // A flagged window is only kept when the model explains why the plan still works.
+  if (weather && weather.hazards.length > 0 && !excursion.weather_note) {
+    return rejectExcursion({
+      error: `The forecast for the planned time shows ${weather.hazards.map((hazard) => hazard.message).join(", ")}`,
+      weatherHazards: weather.hazards,
+      instructions:
+        "Move the excursion to a time without these conditions by setting scheduled_at, or change it so it avoids " +
+        "them, then call create_excursion again and tell the user what you changed and why. If no time in the " +
+        "forecast works, call it again with weather_note explaining why the plan still suits the conditions.",
+    }, toolResults);
+  }
+
+  // Unsafe conditions for this user cannot be explained away with a weather_note.
+  // Without a forecast the plan is still saved, but it says its conditions were never checked.
+  const safetyWarnings = weather
+    ? evaluateSafety(weather, getSafetyThresholds(userContext))
+    : [UNCHECKED_CONDITIONS_WARNING];
+  const unsafe = safetyWarnings.filter((warning) => warning.severity === "unsafe");
+  if (unsafe.length > 0) {
+    return rejectExcursion({
+      error: `The planned time is unsafe for this user: ${unsafe.map((warning) => warning.message).join(", ")}`,
+      safetyWarnings: unsafe,
+      instructions:
+        "Move the excursion to a time or place where these conditions are below the user's limits, then call " +
+        "create_excursion again and tell the user why you changed the plan. If nothing in the forecast is safe, " +
+        "do not save an excursion; explain the conditions and suggest trying again later.",
+    }, toolResults);
+  }
+
+  const { weather_note: _weatherNote, ...columns } = excursion;
+  const metrics = excursion.route_data
+    ? computeRouteMetrics(excursion.route_data, userContext.mobilityLevel)
+    : null;
+
+  const { data: newExcursion, error: excursionError } = await supabase
+    .from("excursions")
+    .insert({
+      user_id: user.id,
+      ...columns,
+      place_id: place.status === "verified" ? place.placeId : null,
+      nature_place_id: place.status === "verified" ? place.naturePlaceId : null,
+      weather_conditions: weather,
+      safety_warnings: safetyWarnings,
+      accessibility: excursion.route_data ? computeRouteAccessibility(excursion.route_data) : null,
+      ...metrics,
+    })
+    .select()
+    .single();
+
+  if (excursionError) throw excursionError;
+
+  return { success: true, excursion: newExcursion };
+}
+
+function findCreatedExcursion(toolResults: ToolResult[]): { id: string } | null {
+  const created = toolResults.find((result) => isCreateExcursionResult(result) && result.output.success);
+  return (created?.output.excursion as { id: string } | undefined) ?? null;
+}
+
+async function collectExcursion(
+  _reply: string,
+  { toolResults }: AssistantContext<ExcursionRequest>
+): Promise<ExcursionResult> {
+  const created = findCreatedExcursion(toolResults);
+
+  if (created) {
+    return { excursionData: created };
+  }
+
+  const attempts = toolResults.filter((result) => isCreateExcursionResult(result) && !result.output.refused);
+
+  const lastFailure = attempts[attempts.length - 1];
+  if (!lastFailure) {
+    return { excursionData: null };
+  }
+
+  const issues = (lastFailure.output.issues as ValidationIssue[] | undefined) ?? [];
+
+  return {
+    excursionData: null,
+    excursionError: {
+      code: "invalid_excursion",
+      message: issues.length > 0
+        ? "The generated excursion did not pass validation"
+        : String(lastFailure.output.error ?? "The excursion could not be saved"),
+      attempts: attempts.length,
+      issues,
+    },
+  };
+}
+
+/** Searches near Golden Gate Park, saves an excursion at the nearest result, then reports the outcome. */
+const fakeResponder: FakeResponder = (messages) => {
+  const lastMessage = messages[messages.length - 1];
+
+  if (lastMessage?.role !== "tool") {
+    return {
+      toolCalls: [{
+        name: findGreenSpacesTool.function.name,
+        arguments: { lat: 37.7694, lng: -122.4862, radius_meters: 2000, categories: ["park"] },
+      }],
     };
+  }
 
-    return new Response(JSON.stringify(responseData), {
-      headers: {
-        ...corsHeaders,
-        "Content-Type": "application/json",
-      },
-    });
-  } catch (error) {
-    console.error("Error:", error);
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : "An unknown error occurred",
-      }),
-      {
-        status: 500,
-        headers: {
-          ...corsHeaders,
-          "Content-Type": "application/json",
+  const output = JSON.parse(lastMessage.content);
+
+  // A find_green_spaces result: start the walk at the nearest place.
+  if (output.success && Array.isArray(output.results)) {
+    const place = output.results[0];
+    if (!place) {
+      return "I couldn't find a park nearby to plan an excursion around.";
+    }
+
+    return {
+      toolCalls: [{
+        name: createExcursionTool.function.name,
+        arguments: {
+          title: "Lakeside Mindful Walk",
+          description: "A gentle loop around the lake with two pauses for breathing exercises.",
+          location: { lat: place.lat, lng: place.lng, address: place.address ?? place.name },
+          place_id: place.id,
+          route_data: [
+            { order: 1, lat: place.lat, lng: place.lng, name: "Start", altitude: 45 },
+            {
+              order: 2,
+              lat: place.lat + 0.0018,
+              lng: place.lng - 0.0043,
+              name: "Stow Lake",
+              altitude: 62,
+              surface: "paved",
+              rest_stop: true,
+            },
+            { order: 3, lat: place.lat, lng: place.lng, name: "Finish", altitude: 45, surface: "paved" },
+          ],
+          duration_minutes: 45,
+          difficulty_level: "Easy",
+          activities: ["Walking", "Meditation"],
         },
-      }
-    );
+      }],
+    };
   }
-});
\ No newline at end of file
+
+  return output.success
+    ? `I've saved "${output.excursion.title}" to your excursions.`
+    : `I couldn't save that excursion: ${output.errors?.join("; ") ?? output.error}`;
+};
+
+Deno.serve(
+  createAssistantHandler<ExcursionRequest, ExcursionResult>({
+    assistantType: "excursion_creator",
+    assistantIdEnv: "EXCURSION_CREATOR_ASSISTANT_ID",
+    assistantName: "Excursion Creator",
+    tools: [findNaturePlacesTool, findGreenSpacesTool, geocodePlaceTool, createExcursionTool],
+    toolHandlers: {
+      [findNaturePlacesTool.function.name]: findNaturePlaces,
+      [findGreenSpacesTool.function.name]: findGreenSpaces,
+      [geocodePlaceTool.function.name]: lookUpPlace,
+      [createExcursionTool.function.name]: createExcursion,
+    },
+    additionalInstructions: buildInstructions,
+    onAssistantReply: collectExcursion,
+    messageColumns: ({ toolResults }) => ({ excursion_id: findCreatedExcursion(toolResults)?.id ?? null }),
+    fakeResponder,
+  })
+);
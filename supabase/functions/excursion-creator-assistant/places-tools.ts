@@ -0,0 +1,94 @@
+import type { AssistantTool } from "../_shared/assistant-provider.ts";
+import { MAX_NEARBY_RADIUS_METERS, PLACE_CATEGORIES } from "../_shared/places-provider.ts";
+import {
+  ACCESSIBILITY_FEATURES,
+  AMENITIES,
+  NATURE_PLACE_CATEGORIES,
+  SURFACES,
+} from "../_shared/nature-places.ts";
+
+export const geocodePlaceTool: AssistantTool = {
+  type: "function",
+  function: {
+    name: "geocode_place",
+    description:
+      "Look up the coordinates of an address or named place. Use it whenever the user names a place, instead of guessing its coordinates.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Address or place name, e.g. Stow Lake, San Francisco" },
+      },
+      required: ["query"],
+    },
+  },
+};
+
+export const findGreenSpacesTool: AssistantTool = {
+  type: "function",
+  function: {
+    name: "find_green_spaces",
+    description:
+      "Find real parks, trails and waterfronts near a point, nearest first. Pick the excursion's location from these results.",
+    parameters: {
+      type: "object",
+      properties: {
+        lat: { type: "number", minimum: -90, maximum: 90, description: "Latitude to search around" },
+        lng: { type: "number", minimum: -180, maximum: 180, description: "Longitude to search around" },
+        radius_meters: {
+          type: "integer",
+          minimum: 100,
+          maximum: MAX_NEARBY_RADIUS_METERS,
+          description: "Search radius; keep it within the user's travel limit",
+        },
+        categories: {
+          type: "array",
+          description: "Kinds of place to include; all of them when omitted",
+          items: { type: "string", enum: PLACE_CATEGORIES },
+        },
+      },
+      required: ["lat", "lng"],
+    },
+  },
+};
+
+export const findNaturePlacesTool: AssistantTool = {
+  type: "function",
+  function: {
+    name: "find_nature_places",
+    description:
+      "Search the app's curated catalog of nature places near a point, nearest first. Results list amenities, " +
+      "surface, accessibility features and the steepest grade, so prefer them when they suit the user.",
+    parameters: {
+      type: "object",
+      properties: {
+        lat: { type: "number", minimum: -90, maximum: 90, description: "Latitude to search around" },
+        lng: { type: "number", minimum: -180, maximum: 180, description: "Longitude to search around" },
+        radius_meters: {
+          type: "integer",
+          minimum: 100,
+          maximum: 100000,
+          description: "Search radius; keep it within the user's travel limit",
+        },
+        categories: { type: "array", items: { type: "string", enum: NATURE_PLACE_CATEGORIES } },
+        amenities: {
+          type: "array",
+          description: "Only places with all of these",
+          items: { type: "string", enum: AMENITIES },
+        },
+        accessibility: {
+          type: "array",
+          description: "Only places with all of these",
+          items: { type: "string", enum: ACCESSIBILITY_FEATURES },
+        },
+        surfaces: { type: "array", description: "Only places with one of these", items: { type: "string", enum: SURFACES } },
+        activities: {
+          type: "array",
+          description: "Only places suiting one of these activities, e.g. Walking, Bird Watching",
+          items: { type: "string" },
+        },
+        max_grade_percent: { type: "number", minimum: 0, maximum: 100, description: "Steepest acceptable grade" },
+      },
+      required: ["lat", "lng"],
+    },
+  },
+};
@@ -0,0 +1,89 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.78.0";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { isOneOf, NATURE_PLACE_CATEGORIES } from "../_shared/nature-places.ts";
+import { parseCsv, parseGeoJson, type ImportOptions } from "../_shared/nature-places-import.ts";
+
+// Places sent to import_nature_places per call, keeping each statement small.
+const BATCH_SIZE = 500;
+const isCategory = isOneOf(NATURE_PLACE_CATEGORIES);
+
+/** CSV when the query string or Content-Type says so, GeoJSON otherwise. */
+function getFormat(req: Request, url: URL): "csv" | "geojson" {
+  const format = url.searchParams.get("format")?.toLowerCase();
+  if (format === "csv" || format === "geojson") {
+    return format;
+  }
+
+  return req.headers.get("Content-Type")?.includes("csv") ? "csv" : "geojson";
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      return errorResponse(new Error("POST a GeoJSON or CSV dataset"), 405);
+    }
+
+    // Writing the shared catalog is an admin task: only the service role key is accepted.
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    if (!supabaseUrl || !serviceRoleKey) {
+      throw new Error("Supabase service role not configured");
+    }
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return errorResponse(new Error("Importing places requires the service role key"), 403);
+    }
+
+    const url = new URL(req.url);
+    const source = url.searchParams.get("source")?.trim();
+    if (!source) {
+      return errorResponse(new Error("source is required, e.g. ?source=sf-rec-parks"), 400);
+    }
+
+    const defaultCategory = url.searchParams.get("category") ?? undefined;
+    if (defaultCategory !== undefined && !isCategory(defaultCategory)) {
+      return errorResponse(new Error(`category must be one of ${NATURE_PLACE_CATEGORIES.join(", ")}`), 400);
+    }
+
+    const options: ImportOptions = {
+      defaultCategory,
+      nameField: url.searchParams.get("name_field") ?? undefined,
+      idField: url.searchParams.get("id_field") ?? undefined,
+    };
+
+    const text = await req.text();
+    let parsed;
+    try {
+      parsed = getFormat(req, url) === "csv" ? parseCsv(text, options) : parseGeoJson(text, options);
+    } catch (error) {
+      return errorResponse(error, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+    let imported = 0;
+
+    for (let start = 0; start < parsed.places.length; start += BATCH_SIZE) {
+      const { data, error } = await supabase.rpc("import_nature_places", {
+        p_source: source,
+        p_places: parsed.places.slice(start, start + BATCH_SIZE),
+      });
+
+      if (error) {
+        throw new Error(`Failed to import places ${start + 1}–${start + BATCH_SIZE}: ${error.message}`);
+      }
+      imported += data as number;
+    }
+
+    return jsonResponse({ source, imported, skipped: parsed.skipped });
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,118 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { getAuthenticatedClient } from "../_shared/assistant-runtime.ts";
+import {
+  DEFAULT_NEARBY_RADIUS_METERS,
+  isPlaceCategory,
+  MAX_NEARBY_RADIUS_METERS,
+  PLACE_CATEGORIES,
+  type PlaceCategory,
+} from "../_shared/places-provider.ts";
+import { findNearbyPlaces, geocodePlace, reverseGeocode } from "../_shared/places-service.ts";
+
+type PlacesEndpoint = "geocode" | "reverse" | "nearby";
+
+const ENDPOINTS: PlacesEndpoint[] = ["geocode", "reverse", "nearby"];
+const MAX_QUERY_LENGTH = 200;
+
+/** `/places/nearby` → "nearby". */
+function getEndpoint(url: URL): PlacesEndpoint | null {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const index = segments.indexOf("places");
+  const endpoint = index === -1 ? undefined : segments[index + 1];
+
+  return ENDPOINTS.includes(endpoint as PlacesEndpoint) ? endpoint as PlacesEndpoint : null;
+}
+
+/** Parameters come from the query string, or the JSON body for POST requests. */
+async function getParams(req: Request, url: URL): Promise<Record<string, unknown>> {
+  const params: Record<string, unknown> = Object.fromEntries(url.searchParams);
+
+  if (req.method === "POST") {
+    const body = await req.json().catch(() => ({}));
+    Object.assign(params, body);
+  }
+
+  return params;
+}
+
+function getCoordinates(params: Record<string, unknown>): { lat: number; lng: number } | null {
+  const { lat, lng } = params;
+  if (lat === undefined || lat === null || lat === "" || lng === undefined || lng === null || lng === "") {
+    return null;
+  }
+
+  const coordinates = { lat: Number(lat), lng: Number(lng) };
+  const valid = Number.isFinite(coordinates.lat) && Math.abs(coordinates.lat) <= 90 &&
+    Number.isFinite(coordinates.lng) && Math.abs(coordinates.lng) <= 180;
+
+  return valid ? coordinates : null;
+}
+
+/** Accepts a comma-separated string or an array; missing means every category. */
+function getCategories(value: unknown): PlaceCategory[] | null {
+  if (value === undefined || value === null || value === "") {
+    return [...PLACE_CATEGORIES];
+  }
+
+  const categories = (Array.isArray(value) ? value : String(value).split(","))
+    .map((category) => typeof category === "string" ? category.trim() : category);
+
+  return categories.length > 0 && categories.every(isPlaceCategory) ? categories : null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    await getAuthenticatedClient(req);
+
+    const url = new URL(req.url);
+    const endpoint = getEndpoint(url);
+    if (!endpoint) {
+      return errorResponse(new Error(`Unknown endpoint; use one of ${ENDPOINTS.join(", ")}`), 404);
+    }
+
+    const params = await getParams(req, url);
+
+    if (endpoint === "geocode") {
+      const query = typeof params.query === "string" ? params.query.trim() : "";
+      if (!query || query.length > MAX_QUERY_LENGTH) {
+        return errorResponse(new Error(`A query of at most ${MAX_QUERY_LENGTH} characters is required`), 400);
+      }
+
+      return jsonResponse(await geocodePlace(query));
+    }
+
+    const coordinates = getCoordinates(params);
+    if (!coordinates) {
+      return errorResponse(new Error("Valid lat and lng are required"), 400);
+    }
+
+    if (endpoint === "reverse") {
+      return jsonResponse(await reverseGeocode(coordinates.lat, coordinates.lng));
+    }
+
+    const radiusMeters = params.radius === undefined || params.radius === ""
+      ? DEFAULT_NEARBY_RADIUS_METERS
+      : Number(params.radius);
+    if (!Number.isFinite(radiusMeters) || radiusMeters <= 0 || radiusMeters > MAX_NEARBY_RADIUS_METERS) {
+      return errorResponse(new Error(`radius must be between 1 and ${MAX_NEARBY_RADIUS_METERS} meters`), 400);
+    }
+
+    const categories = getCategories(params.categories);
+    if (!categories) {
+      return errorResponse(new Error(`categories must be any of ${PLACE_CATEGORIES.join(", ")}`), 400);
+    }
+
+    return jsonResponse(await findNearbyPlaces({ ...coordinates, radiusMeters, categories }));
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error);
+  }
+});
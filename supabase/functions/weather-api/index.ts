@@ -0,0 +1,97 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { corsHeaders, errorResponse, jsonResponse } from "../_shared/cors.ts";
+import { getAuthenticatedClient } from "../_shared/assistant-runtime.ts";
+import { getWeatherForecast, type WeatherResult } from "../_shared/weather-service.ts";
+
+type WeatherEndpoint = "forecast" | "current" | "hourly" | "daily";
+
+const ENDPOINTS: WeatherEndpoint[] = ["forecast", "current", "hourly", "daily"];
+
+/** `/weather-api/current` → "current"; the bare function path returns everything. */
+function getEndpoint(url: URL): WeatherEndpoint | null {
+  const segments = url.pathname.split("/").filter(Boolean);
+  const index = segments.indexOf("weather-api");
+  const endpoint = index === -1 ? undefined : segments[index + 1];
+
+  if (!endpoint) {
+    return "forecast";
+  }
+
+  return ENDPOINTS.includes(endpoint as WeatherEndpoint) ? endpoint as WeatherEndpoint : null;
+}
+
+/** Coordinates come from the query string, or the JSON body for POST requests. */
+async function getCoordinates(req: Request, url: URL): Promise<{ lat: number; lng: number } | null> {
+  let lat: unknown = url.searchParams.get("lat");
+  let lng: unknown = url.searchParams.get("lng");
+
+  if (req.method === "POST") {
+    const body = await req.json().catch(() => ({}));
+    lat = body.lat ?? lat;
+    lng = body.lng ?? lng;
+  }
+
+  if (lat === null || lat === "" || lng === null || lng === "") {
+    return null;
+  }
+
+  const coordinates = { lat: Number(lat), lng: Number(lng) };
+  const valid = Number.isFinite(coordinates.lat) && Math.abs(coordinates.lat) <= 90 &&
+    Number.isFinite(coordinates.lng) && Math.abs(coordinates.lng) <= 180;
+
+  return valid ? coordinates : null;
+}
+
+function toResponseBody(endpoint: WeatherEndpoint, { forecast, cached, stale }: WeatherResult) {
+  const meta = {
+    provider: forecast.provider,
+    location: forecast.location,
+    timezone: forecast.timezone,
+    timezone_offset_seconds: forecast.timezone_offset_seconds,
+    fetched_at: forecast.fetched_at,
+    cached,
+    stale,
+  };
+
+  switch (endpoint) {
+    case "current":
+      return { ...meta, current: forecast.current, air_quality: forecast.air_quality, alerts: forecast.alerts };
+    case "hourly":
+      return { ...meta, hourly: forecast.hourly };
+    case "daily":
+      return { ...meta, daily: forecast.daily };
+    case "forecast":
+      return { ...forecast, cached, stale };
+  }
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    await getAuthenticatedClient(req);
+
+    const url = new URL(req.url);
+    const endpoint = getEndpoint(url);
+    if (!endpoint) {
+      return errorResponse(new Error(`Unknown endpoint; use one of ${ENDPOINTS.join(", ")}`), 404);
+    }
+
+    const coordinates = await getCoordinates(req, url);
+    if (!coordinates) {
+      return errorResponse(new Error("Valid lat and lng are required"), 400);
+    }
+
+    const result = await getWeatherForecast(coordinates.lat, coordinates.lng);
+
+    return jsonResponse(toResponseBody(endpoint, result));
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error);
+  }
+});
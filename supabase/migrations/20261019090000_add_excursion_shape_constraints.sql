@@ -0,0 +1,103 @@
+/*
+  # Add Excursion Shape Constraints
+
+  1. New Functions
+    - `is_valid_coordinate(jsonb)` - True when the value has numeric `lat` (-90..90)
+      and `lng` (-180..180)
+    - `is_valid_excursion_location(jsonb)` - True when the value is an object with
+      numeric `lat` (-90..90), numeric `lng` (-180..180) and a non-empty `address`
+    - `is_valid_route_data(jsonb)` - True when the value is an array of at least two
+      waypoints, each with a valid `lat`/`lng` and an `order` numbered 1..n in array order
+    - `check_excursion_shape()` - Trigger function raising a check violation when
+      a written row breaks one of the rules below
+
+  2. Triggers on `excursions`
+    - `excursions_shape` - Before INSERT, and before UPDATE OF `location`,
+      `route_data` or `duration_minutes`:
+      - `location` must pass `is_valid_excursion_location`
+      - `route_data` is null or passes `is_valid_route_data`
+      - `duration_minutes` is null or between 1 and 1440
+
+  ## Important Notes
+
+  - Mirrors `supabase/functions/_shared/excursion-validation.ts`; keep the two in sync
+  - A trigger is used rather than CHECK constraints because Postgres checks even
+    NOT VALID constraints on every update of a row. Rows created before this
+    migration may not fit the shape, and they must still accept updates to other
+    columns (completion, rating, reflection). An update that writes any of the
+    checked columns requires the whole row to fit
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_coordinate(point jsonb)
+RETURNS boolean AS $$
+BEGIN
+  RETURN jsonb_typeof(point) = 'object'
+    AND jsonb_typeof(point->'lat') = 'number'
+    AND jsonb_typeof(point->'lng') = 'number'
+    AND (point->>'lat')::numeric BETWEEN -90 AND 90
+    AND (point->>'lng')::numeric BETWEEN -180 AND 180;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_valid_excursion_location(location jsonb)
+RETURNS boolean AS $$
+BEGIN
+  RETURN is_valid_coordinate(location)
+    AND jsonb_typeof(location->'address') = 'string'
+    AND length(trim(location->>'address')) > 0;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_valid_route_data(route jsonb)
+RETURNS boolean AS $$
+DECLARE
+  waypoint jsonb;
+  expected_order integer;
+BEGIN
+  IF jsonb_typeof(route) <> 'array' OR jsonb_array_length(route) < 2 THEN
+    RETURN false;
+  END IF;
+
+  FOR waypoint, expected_order IN
+    SELECT value, ordinality FROM jsonb_array_elements(route) WITH ORDINALITY
+  LOOP
+    IF NOT COALESCE(
+      is_valid_coordinate(waypoint)
+        AND jsonb_typeof(waypoint->'order') = 'number'
+        AND (waypoint->>'order')::numeric = expected_order,
+      false
+    ) THEN
+      RETURN false;
+    END IF;
+  END LOOP;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION check_excursion_shape()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT COALESCE(is_valid_excursion_location(NEW.location), false) THEN
+    RAISE EXCEPTION 'excursions.location must be an object with lat, lng and address'
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'excursions_location_shape';
+  END IF;
+
+  IF NEW.route_data IS NOT NULL AND NOT COALESCE(is_valid_route_data(NEW.route_data), false) THEN
+    RAISE EXCEPTION 'excursions.route_data must be an array of at least 2 waypoints numbered from 1'
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'excursions_route_data_shape';
+  END IF;
+
+  IF NEW.duration_minutes IS NOT NULL AND NEW.duration_minutes NOT BETWEEN 1 AND 1440 THEN
+    RAISE EXCEPTION 'excursions.duration_minutes must be between 1 and 1440'
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'excursions_duration_positive';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER excursions_shape
+  BEFORE INSERT OR UPDATE OF location, route_data, duration_minutes ON excursions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_excursion_shape();
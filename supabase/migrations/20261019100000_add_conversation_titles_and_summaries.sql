@@ -0,0 +1,20 @@
+/*
+  # Add Conversation Titles and Summaries
+
+  1. Modified Tables
+    - `conversations`
+      - `title` (text, nullable) - Short title generated after the first exchange
+      - `summary` (text, nullable) - Rolling summary of the conversation so far
+      - `summary_message_count` (integer) - Number of messages the summary covers
+
+  ## Important Notes
+
+  - Both columns are written by the assistant edge functions through the caller's
+    client, so the existing "Users can update own conversations" policy applies
+  - Conversations created before this migration keep a null title until their next
+    exchange; clients fall back to the opening user message
+*/
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS title text;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary text;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_message_count integer NOT NULL DEFAULT 0;
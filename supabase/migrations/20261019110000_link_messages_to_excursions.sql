@@ -0,0 +1,23 @@
+/*
+  # Link Messages to Excursions
+
+  1. Modified Tables
+    - `messages`
+      - `excursion_id` (uuid, nullable, references excursions) - Excursion saved by
+        the assistant while producing this reply
+
+  2. Indexes
+    - `messages_excursion_id_idx` on `messages(excursion_id)`
+
+  ## Important Notes
+
+  - Set by `excursion-creator-assistant` when it inserts the assistant message, so
+    reloaded history can render the excursion card next to the reply
+  - Deleting the excursion keeps the message and clears the link
+  - Embedded excursions are still filtered by the excursions RLS policies
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS excursion_id uuid REFERENCES excursions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS messages_excursion_id_idx ON messages(excursion_id);
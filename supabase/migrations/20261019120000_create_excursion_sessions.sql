@@ -0,0 +1,78 @@
+/*
+  # Create Excursion Sessions Table
+
+  1. New Tables
+    - `excursion_sessions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `excursion_id` (uuid, references excursions)
+      - `status` (text) - 'active', 'paused' or 'completed'
+      - `started_at` (timestamptz) - When tracking started
+      - `ended_at` (timestamptz) - When the user finished; null until then
+      - `elapsed_seconds` (integer) - Time spent tracking, excluding pauses
+      - `distance_meters` (double precision) - Distance covered along the breadcrumbs
+      - `breadcrumbs` (jsonb) - Array of {lat, lng, altitude, accuracy, timestamp, segment};
+        `segment` increases after every pause so the gap is not counted as distance
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Users can only view, create, update and delete their own sessions
+
+  3. Indexes
+    - `excursion_sessions_user_id_idx` on `user_id`
+    - `excursion_sessions_excursion_id_idx` on `excursion_id`
+
+  ## Important Notes
+
+  - A session is one run through an excursion; an excursion can be walked many times
+  - Unfinished sessions (status 'active' or 'paused') are resumed when the user
+    returns to tracking the same excursion
+*/
+
+CREATE TABLE IF NOT EXISTS excursion_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  excursion_id uuid REFERENCES excursions(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed')),
+  started_at timestamptz NOT NULL DEFAULT now(),
+  ended_at timestamptz,
+  elapsed_seconds integer NOT NULL DEFAULT 0 CHECK (elapsed_seconds >= 0),
+  distance_meters double precision NOT NULL DEFAULT 0 CHECK (distance_meters >= 0),
+  breadcrumbs jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(breadcrumbs) = 'array'),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE excursion_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own excursion sessions"
+  ON excursion_sessions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own excursion sessions"
+  ON excursion_sessions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own excursion sessions"
+  ON excursion_sessions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own excursion sessions"
+  ON excursion_sessions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS excursion_sessions_user_id_idx ON excursion_sessions(user_id);
+CREATE INDEX IF NOT EXISTS excursion_sessions_excursion_id_idx ON excursion_sessions(excursion_id);
+
+DROP TRIGGER IF EXISTS update_excursion_sessions_updated_at ON excursion_sessions;
+CREATE TRIGGER update_excursion_sessions_updated_at
+  BEFORE UPDATE ON excursion_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
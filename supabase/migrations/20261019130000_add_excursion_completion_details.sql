@@ -0,0 +1,26 @@
+/*
+  # Add Excursion Completion Details
+
+  1. Modified Tables
+    - `excursions`
+      - `reflection` (text, nullable) - Free-text notes the user wrote after finishing
+      - `completed_activities` (text[], nullable) - Which of the planned `activities`
+        the user actually did
+
+  2. Indexes
+    - `excursions_user_id_completed_at_idx` on `excursions(user_id, completed_at DESC)`
+
+  ## Important Notes
+
+  - Written together with `completed_at` and `rating` by the completion screen,
+    either after a tracked session or from "Mark as done"
+  - Completing an excursion again overwrites the previous completion details
+  - `excursion-creator-assistant` reads ratings and reflections back as user context
+*/
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS reflection text,
+  ADD COLUMN IF NOT EXISTS completed_activities text[];
+
+CREATE INDEX IF NOT EXISTS excursions_user_id_completed_at_idx
+  ON excursions(user_id, completed_at DESC);
@@ -0,0 +1,75 @@
+/*
+  # Create Wellbeing Check-ins Table
+
+  1. New Tables
+    - `wellbeing_checkins`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `excursion_id` (uuid, references excursions)
+      - `session_id` (uuid, nullable, references excursion_sessions) - The tracked
+        session the check-in belongs to, when there is one
+      - `phase` (text) - 'before' or 'after' the excursion
+      - `mood` (smallint, 1-10) - 1 is very low, 10 is great
+      - `stress` (smallint, 1-10) - 1 is calm, 10 is very stressed
+      - `energy` (smallint, 1-10) - 1 is drained, 10 is full of energy
+      - `notes` (text, nullable)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS
+    - Users can only view, create, update and delete their own check-ins
+
+  3. Indexes
+    - `wellbeing_checkins_user_id_created_at_idx` on `(user_id, created_at DESC)`
+    - `wellbeing_checkins_excursion_id_idx` on `excursion_id`
+    - `wellbeing_checkins_session_phase_key` unique on `(session_id, phase)`
+
+  ## Important Notes
+
+  - A before and an after check-in for the same session (or, without a session,
+    the same excursion) form one pair; the app shows the change between them
+  - Deleting a session keeps its check-ins and clears the link
+*/
+
+CREATE TABLE IF NOT EXISTS wellbeing_checkins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  excursion_id uuid REFERENCES excursions(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES excursion_sessions(id) ON DELETE SET NULL,
+  phase text NOT NULL CHECK (phase IN ('before', 'after')),
+  mood smallint NOT NULL CHECK (mood BETWEEN 1 AND 10),
+  stress smallint NOT NULL CHECK (stress BETWEEN 1 AND 10),
+  energy smallint NOT NULL CHECK (energy BETWEEN 1 AND 10),
+  notes text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE wellbeing_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wellbeing check-ins"
+  ON wellbeing_checkins FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own wellbeing check-ins"
+  ON wellbeing_checkins FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own wellbeing check-ins"
+  ON wellbeing_checkins FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own wellbeing check-ins"
+  ON wellbeing_checkins FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS wellbeing_checkins_user_id_created_at_idx
+  ON wellbeing_checkins(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS wellbeing_checkins_excursion_id_idx ON wellbeing_checkins(excursion_id);
+CREATE UNIQUE INDEX IF NOT EXISTS wellbeing_checkins_session_phase_key
+  ON wellbeing_checkins(session_id, phase)
+  WHERE session_id IS NOT NULL;
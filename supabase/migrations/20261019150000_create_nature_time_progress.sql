@@ -0,0 +1,158 @@
+/*
+  # Create Nature Time Progress
+
+  1. Modified Tables
+    - `user_profiles`
+      - `weekly_goal_minutes` (integer, default 120) - Target minutes of nature time
+        per week; 120 follows the common "two hours a week" guideline
+
+  2. New Views
+    - `completed_excursion_minutes` - One row per completed excursion with its
+      minutes and the activities that count towards the breakdown
+      (`completed_activities` when recorded, otherwise the planned `activities`)
+      - Uses `security_invoker`, so the excursions RLS policies still apply
+
+  3. New Functions
+    - `get_nature_time_progress(p_weeks, p_time_zone)` - Progress for the calling
+      user as JSON:
+      - `weekly_goal_minutes`
+      - `current_week_start` (date, weeks start on Monday)
+      - `weeks` - [{week_start, minutes, excursions}] for the last `p_weeks` weeks,
+        oldest first, including weeks with no excursions
+      - `current_streak_weeks` / `longest_streak_weeks` - Consecutive weeks that met
+        the goal; the current streak stays alive until a full week is missed
+      - `activities` - [{activity, minutes, excursions}] within the same weeks
+      - `total_minutes` / `total_excursions` within the same weeks
+
+  ## Important Notes
+
+  - Minutes come from `duration_minutes` of excursions with a `completed_at`
+  - Weeks are bucketed in the caller's time zone so a Sunday evening walk is not
+    counted in the following week
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS weekly_goal_minutes integer NOT NULL DEFAULT 120
+    CHECK (weekly_goal_minutes BETWEEN 1 AND 10080);
+
+CREATE OR REPLACE VIEW completed_excursion_minutes
+WITH (security_invoker = true) AS
+SELECT
+  id AS excursion_id,
+  user_id,
+  completed_at,
+  COALESCE(duration_minutes, 0) AS minutes,
+  COALESCE(completed_activities, activities, '{}'::text[]) AS activities
+FROM excursions
+WHERE completed_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION get_nature_time_progress(
+  p_weeks integer DEFAULT 12,
+  p_time_zone text DEFAULT 'UTC'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_goal integer;
+  v_current_week date;
+  v_first_week date;
+  v_weeks jsonb;
+  v_activities jsonb;
+  v_week record;
+  v_run integer := 0;
+  v_next_week date;
+  v_longest_streak integer := 0;
+  v_current_streak integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  p_weeks := LEAST(GREATEST(COALESCE(p_weeks, 12), 1), 104);
+  v_current_week := date_trunc('week', now() AT TIME ZONE p_time_zone)::date;
+  v_first_week := v_current_week - (p_weeks - 1) * 7;
+
+  SELECT weekly_goal_minutes INTO v_goal FROM user_profiles WHERE id = v_user_id;
+  v_goal := COALESCE(v_goal, 120);
+
+  -- Streaks look at all history, not just the requested weeks.
+  FOR v_week IN
+    SELECT week_start
+    FROM (
+      SELECT date_trunc('week', completed_at AT TIME ZONE p_time_zone)::date AS week_start,
+             sum(minutes) AS minutes
+      FROM completed_excursion_minutes
+      WHERE user_id = v_user_id
+      GROUP BY 1
+    ) totals
+    WHERE minutes >= v_goal
+    ORDER BY week_start
+  LOOP
+    v_run := CASE WHEN v_week.week_start = v_next_week THEN v_run + 1 ELSE 1 END;
+    v_longest_streak := GREATEST(v_longest_streak, v_run);
+    v_next_week := v_week.week_start + 7;
+  END LOOP;
+
+  -- This week is still in progress, so a streak that reached last week is current.
+  IF v_next_week >= v_current_week THEN
+    v_current_streak := v_run;
+  END IF;
+
+  WITH weeks AS (
+    SELECT generate_series(v_first_week, v_current_week, interval '7 days')::date AS week_start
+  ),
+  totals AS (
+    SELECT date_trunc('week', completed_at AT TIME ZONE p_time_zone)::date AS week_start,
+           sum(minutes)::integer AS minutes,
+           count(*)::integer AS excursions
+    FROM completed_excursion_minutes
+    WHERE user_id = v_user_id
+      AND completed_at AT TIME ZONE p_time_zone >= v_first_week
+    GROUP BY 1
+  )
+  SELECT jsonb_agg(
+           jsonb_build_object(
+             'week_start', weeks.week_start,
+             'minutes', COALESCE(totals.minutes, 0),
+             'excursions', COALESCE(totals.excursions, 0)
+           )
+           ORDER BY weeks.week_start
+         )
+  INTO v_weeks
+  FROM weeks
+  LEFT JOIN totals USING (week_start);
+
+  SELECT COALESCE(
+           jsonb_agg(
+             jsonb_build_object('activity', activity, 'minutes', minutes, 'excursions', excursions)
+             ORDER BY minutes DESC, activity
+           ),
+           '[]'::jsonb
+         )
+  INTO v_activities
+  FROM (
+    SELECT activity, sum(minutes)::integer AS minutes, count(*)::integer AS excursions
+    FROM completed_excursion_minutes, unnest(activities) AS activity
+    WHERE user_id = v_user_id
+      AND completed_at AT TIME ZONE p_time_zone >= v_first_week
+    GROUP BY activity
+  ) breakdown;
+
+  RETURN jsonb_build_object(
+    'weekly_goal_minutes', v_goal,
+    'current_week_start', v_current_week,
+    'weeks', v_weeks,
+    'current_streak_weeks', v_current_streak,
+    'longest_streak_weeks', v_longest_streak,
+    'activities', v_activities,
+    'total_minutes', (SELECT COALESCE(sum((week ->> 'minutes')::integer), 0) FROM jsonb_array_elements(v_weeks) week),
+    'total_excursions', (SELECT COALESCE(sum((week ->> 'excursions')::integer), 0) FROM jsonb_array_elements(v_weeks) week)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_nature_time_progress(integer, text) TO authenticated;
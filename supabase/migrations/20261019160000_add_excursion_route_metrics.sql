@@ -0,0 +1,61 @@
+/*
+  # Add Excursion Route Metrics
+
+  1. Modified Tables
+    - `excursions`
+      - `distance_meters` (double precision, nullable) - Path length along `route_data`
+      - `elevation_gain_meters` (double precision, nullable) - Total ascent between
+        waypoints that carry an `altitude`
+      - `elevation_loss_meters` (double precision, nullable) - Total descent, likewise
+      - `estimated_walking_minutes` (integer, nullable) - Walking time at the
+        creator's pace for their `mobility_level`
+
+  2. New Functions
+    - `route_distance_meters(jsonb)` - Haversine path length of a `route_data` array
+
+  3. Data
+    - Backfills `distance_meters` for existing excursions with a route
+
+  ## Important Notes
+
+  - New values are computed by `supabase/functions/_shared/route-metrics.ts` when
+    the excursion creator saves an excursion; the SQL function mirrors its distance
+    calculation only so existing rows can be backfilled
+  - Elevation and walking time stay null for existing rows, since they have no
+    altitudes and the walking pace depends on the profile at creation time
+  - Waypoints may now carry an optional numeric `altitude` in meters
+*/
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS distance_meters double precision CHECK (distance_meters >= 0),
+  ADD COLUMN IF NOT EXISTS elevation_gain_meters double precision CHECK (elevation_gain_meters >= 0),
+  ADD COLUMN IF NOT EXISTS elevation_loss_meters double precision CHECK (elevation_loss_meters >= 0),
+  ADD COLUMN IF NOT EXISTS estimated_walking_minutes integer CHECK (estimated_walking_minutes >= 0);
+
+CREATE OR REPLACE FUNCTION route_distance_meters(route jsonb)
+RETURNS double precision AS $$
+  SELECT COALESCE(sum(
+    2 * 6371000 * asin(least(1, sqrt(
+      sin(radians((curr.lat - prev.lat) / 2)) ^ 2 +
+      cos(radians(prev.lat)) * cos(radians(curr.lat)) * sin(radians((curr.lng - prev.lng) / 2)) ^ 2
+    )))
+  ), 0)
+  FROM (
+    SELECT (value->>'lat')::double precision AS lat,
+           (value->>'lng')::double precision AS lng,
+           ordinality
+    FROM jsonb_array_elements(route) WITH ORDINALITY
+  ) curr
+  JOIN (
+    SELECT (value->>'lat')::double precision AS lat,
+           (value->>'lng')::double precision AS lng,
+           ordinality
+    FROM jsonb_array_elements(route) WITH ORDINALITY
+  ) prev ON prev.ordinality = curr.ordinality - 1;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE excursions
+SET distance_meters = round(route_distance_meters(route_data))
+WHERE route_data IS NOT NULL
+  AND distance_meters IS NULL
+  AND is_valid_route_data(route_data);
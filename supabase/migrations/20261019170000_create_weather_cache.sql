@@ -0,0 +1,41 @@
+/*
+  # Create Weather Cache Table
+
+  1. New Tables
+    - `weather_cache`
+      - `cache_key` (text, primary key) - Provider name and coordinates rounded to
+        two decimals (about 1 km), e.g. `openweather:51.51:-0.13`
+      - `provider` (text) - Weather provider that produced the forecast
+      - `lat` (double precision) - Rounded latitude the forecast was fetched for
+      - `lng` (double precision) - Rounded longitude the forecast was fetched for
+      - `data` (jsonb) - The normalized forecast (current, hourly, daily, air quality, alerts)
+      - `fetched_at` (timestamptz) - When the provider was called
+      - `expires_at` (timestamptz) - When the entry should be refreshed
+
+  2. Security
+    - Enable RLS with no policies: only the `weather-api` edge function reads
+      and writes the cache, using the service role key
+
+  3. Indexes
+    - `weather_cache_expires_at_idx` on `expires_at`
+
+  ## Important Notes
+
+  - Forecasts are shared between users; they contain nothing user-specific
+  - Expired entries are kept and served (flagged as stale) when the provider
+    cannot be reached
+*/
+
+CREATE TABLE IF NOT EXISTS weather_cache (
+  cache_key text PRIMARY KEY,
+  provider text NOT NULL,
+  lat double precision NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng double precision NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  data jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+ALTER TABLE weather_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS weather_cache_expires_at_idx ON weather_cache(expires_at);
@@ -0,0 +1,18 @@
+/*
+  # Add Excursion Schedule
+
+  1. Modified Tables
+    - `excursions`
+      - `scheduled_at` (timestamptz, nullable) - Planned start chosen by the
+        excursion creator; null for excursions saved without a time
+
+  ## Important Notes
+
+  - `weather_conditions` is no longer written by the model. The excursion creator
+    saves a forecast snapshot for `scheduled_at` (or the save time) at the
+    excursion's location, with `"source": "forecast"`
+  - Existing rows keep whatever free-form weather JSON they were created with
+*/
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz;
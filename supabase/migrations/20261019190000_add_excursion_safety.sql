@@ -0,0 +1,29 @@
+/*
+  # Add Excursion Safety
+
+  1. Modified Tables
+    - `user_profiles`
+      - `environmental_sensitivities` (text[], default empty) - Conditions the user
+        is sensitive to: `respiratory`, `heat`, `pollen` and `sun`
+    - `excursions`
+      - `safety_warnings` (jsonb, default empty array) - Air quality, UV, heat index
+        and pollen warnings for the planned time, each with `type`, `severity`,
+        `message` and `advice`
+
+  ## Important Notes
+
+  - Thresholds live in `supabase/functions/_shared/excursion-safety.ts`. Sensitive
+    users, and users with `limited` mobility for air quality and heat, get stricter
+    limits
+  - The excursion creator refuses to save plans whose window reaches an "unsafe"
+    level for the user; only "caution" warnings are ever stored
+  - Existing excursions get an empty list, as they were never evaluated
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS environmental_sensitivities text[] NOT NULL DEFAULT '{}'
+  CHECK (environmental_sensitivities <@ ARRAY['respiratory', 'heat', 'pollen', 'sun']::text[]);
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS safety_warnings jsonb NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(safety_warnings) = 'array');
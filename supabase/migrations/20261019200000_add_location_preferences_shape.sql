@@ -0,0 +1,104 @@
+/*
+  # Add Location Preferences Shape
+
+  1. New Functions
+    - `is_valid_saved_place(jsonb)` - True when the value has a valid `lat`/`lng`,
+      a non-empty `name` and, if present, a string `address`
+    - `is_valid_location_preferences(jsonb)` - True when the value is an object whose
+      known keys have the documented shape:
+      - `homeBase` - null or a saved place
+      - `savedPlaces` - an array of at most 20 saved places
+      - `maxTravelDistanceKm` - null or a number between 1 and 500
+      - `maxTravelMinutes` - null or a number between 5 and 480
+    - `check_location_preferences_shape()` - Trigger function raising a check
+      violation when `location_preferences` is neither null nor valid
+
+  2. Triggers on `user_profiles`
+    - `user_profiles_location_preferences_shape` - Before INSERT, and before
+      UPDATE OF `location_preferences`: the column is null or passes
+      `is_valid_location_preferences`
+
+  ## Important Notes
+
+  - Mirrors `lib/location-preferences-api.ts`, which writes the column, and
+    `supabase/functions/_shared/user-context.ts`, which reads it for the assistants
+  - Every key is optional, so `{}` is valid and means "nothing set"
+  - A trigger is used rather than a CHECK constraint for the same reason as
+    `excursions_shape`: Postgres checks even NOT VALID constraints on every update
+    of a row, so one bad stored value would block every later profile save. Rows
+    created before this migration keep accepting updates to other columns
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_saved_place(place jsonb)
+RETURNS boolean AS $$
+BEGIN
+  RETURN COALESCE(
+    is_valid_coordinate(place)
+      AND jsonb_typeof(place->'name') = 'string'
+      AND length(trim(place->>'name')) > 0
+      AND (NOT place ? 'address' OR jsonb_typeof(place->'address') IN ('string', 'null')),
+    false
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_valid_location_preferences(preferences jsonb)
+RETURNS boolean AS $$
+DECLARE
+  place jsonb;
+BEGIN
+  IF jsonb_typeof(preferences) <> 'object' THEN
+    RETURN false;
+  END IF;
+
+  IF preferences ? 'homeBase' AND jsonb_typeof(preferences->'homeBase') <> 'null'
+    AND NOT is_valid_saved_place(preferences->'homeBase') THEN
+    RETURN false;
+  END IF;
+
+  IF preferences ? 'savedPlaces' THEN
+    IF jsonb_typeof(preferences->'savedPlaces') <> 'array'
+      OR jsonb_array_length(preferences->'savedPlaces') > 20 THEN
+      RETURN false;
+    END IF;
+
+    FOR place IN SELECT value FROM jsonb_array_elements(preferences->'savedPlaces') LOOP
+      IF NOT is_valid_saved_place(place) THEN
+        RETURN false;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF preferences ? 'maxTravelDistanceKm' AND jsonb_typeof(preferences->'maxTravelDistanceKm') <> 'null'
+    AND (jsonb_typeof(preferences->'maxTravelDistanceKm') <> 'number'
+      OR (preferences->>'maxTravelDistanceKm')::numeric NOT BETWEEN 1 AND 500) THEN
+    RETURN false;
+  END IF;
+
+  IF preferences ? 'maxTravelMinutes' AND jsonb_typeof(preferences->'maxTravelMinutes') <> 'null'
+    AND (jsonb_typeof(preferences->'maxTravelMinutes') <> 'number'
+      OR (preferences->>'maxTravelMinutes')::numeric NOT BETWEEN 5 AND 480) THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION check_location_preferences_shape()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.location_preferences IS NOT NULL
+    AND NOT COALESCE(is_valid_location_preferences(NEW.location_preferences), false) THEN
+    RAISE EXCEPTION 'user_profiles.location_preferences does not have the documented shape'
+      USING ERRCODE = 'check_violation', CONSTRAINT = 'user_profiles_location_preferences_shape';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER user_profiles_location_preferences_shape
+  BEFORE INSERT OR UPDATE OF location_preferences ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION check_location_preferences_shape();
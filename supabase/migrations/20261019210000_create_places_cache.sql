@@ -0,0 +1,50 @@
+/*
+  # Create Places Cache Table
+
+  1. New Tables
+    - `places_cache`
+      - `cache_key` (text, primary key) - Provider, lookup kind and its rounded
+        inputs, e.g. `google:nearby:37.769:-122.486:5000:park,trail`
+      - `provider` (text) - Places provider that produced the results
+      - `kind` (text) - `geocode`, `reverse` or `nearby`
+      - `data` (jsonb) - The normalized results
+      - `fetched_at` (timestamptz) - When the provider was called
+      - `expires_at` (timestamptz) - When the entry should be refreshed
+
+  2. Modified Tables
+    - `excursions`
+      - `place_id` (text, nullable) - Provider place id of the park, trail or
+        waterfront the excursion creator verified the excursion against
+
+  3. Security
+    - Enable RLS on `places_cache` with no policies: only the `places` edge
+      function and the excursion creator read and write it, using the service
+      role key
+
+  4. Indexes
+    - `places_cache_expires_at_idx` on `expires_at`
+
+  ## Important Notes
+
+  - Results are shared between users; geocoding queries are stored lowercased
+    but are otherwise not anonymized
+  - Expired entries are kept and served (flagged as stale) when the provider
+    cannot be reached
+  - Existing excursions keep a null `place_id`
+*/
+
+CREATE TABLE IF NOT EXISTS places_cache (
+  cache_key text PRIMARY KEY,
+  provider text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('geocode', 'reverse', 'nearby')),
+  data jsonb NOT NULL CHECK (jsonb_typeof(data) = 'array'),
+  fetched_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+ALTER TABLE places_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS places_cache_expires_at_idx ON places_cache(expires_at);
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS place_id text;
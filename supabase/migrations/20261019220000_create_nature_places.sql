@@ -0,0 +1,263 @@
+/*
+  # Create Nature Places Catalog
+
+  1. Extensions
+    - `postgis` in the `extensions` schema, for the `geography` type and
+      distance queries
+
+  2. New Tables
+    - `nature_places` - Curated parks, trails and other green spaces
+      - `id` (uuid, primary key)
+      - `name` (text) - Display name
+      - `description` (text, nullable)
+      - `category` (text) - park, trail, waterfront, garden, forest or reserve
+      - `address` (text, nullable)
+      - `location` (geography(Point, 4326)) - Where excursions start: the
+        trailhead of a trail, a point inside a park
+      - `amenities` (text[]) - Any of restrooms, benches, shade, water, parking
+      - `surface` (text, nullable) - paved, gravel, dirt, grass, boardwalk, sand
+        or mixed
+      - `accessibility` (text[]) - Any of wheelchair_accessible, step_free,
+        stroller_friendly, accessible_restrooms, accessible_parking
+      - `max_grade_percent` (numeric, nullable) - Steepest sustained slope of the
+        main path, 0–100
+      - `activities` (text[]) - Activities the place suits, using the app's
+        names, e.g. Walking, Bird Watching
+      - `source` (text) - Dataset the place was imported from, or `manual`
+      - `source_id` (text) - The place's id within that dataset
+      - `created_at` / `updated_at` (timestamptz)
+
+  3. Modified Tables
+    - `excursions`
+      - `nature_place_id` (uuid, nullable) - Catalog place the excursion creator
+        started the excursion at; cleared when the place is deleted
+
+  4. Security
+    - Enable RLS on `nature_places`; any signed-in user can read the catalog
+    - There are no write policies: places are added with the service role key,
+      through `import_nature_places` or the dashboard
+
+  5. Indexes
+    - GiST on `location`, GIN on `amenities`, `accessibility` and `activities`
+    - Unique (`source`, `source_id`) so re-importing a dataset updates its places
+
+  6. New Functions
+    - `search_nature_places(...)` - Places within `p_radius_meters` of
+      `p_lat`/`p_lng`, inside the `p_min_lat`…`p_max_lng` bounding box, or both,
+      filtered by:
+      - `p_categories`, `p_surfaces`, `p_activities` - any of the listed values
+        (activities ignore case)
+      - `p_amenities`, `p_accessibility` - all of the listed values
+      - `p_max_grade_percent` - places with a known grade at or below it
+      Nearest first when a center is given, otherwise by name; at most `p_limit`
+      (50 by default, 200 at most) rows
+    - `import_nature_places(p_source, p_places)` - Upserts a JSON array of places
+      with a GeoJSON `geometry` each; returns how many rows were written. Only the
+      service role may call it
+
+  ## Important Notes
+
+  - Lines start at their first point and polygons at `ST_PointOnSurface`, so a
+    concave park still gets a point inside it
+  - Bounding boxes crossing the antimeridian are not supported
+*/
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS nature_places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  category text NOT NULL
+    CHECK (category IN ('park', 'trail', 'waterfront', 'garden', 'forest', 'reserve')),
+  address text,
+  location extensions.geography(Point, 4326) NOT NULL,
+  amenities text[] NOT NULL DEFAULT '{}'
+    CHECK (amenities <@ ARRAY['restrooms', 'benches', 'shade', 'water', 'parking']::text[]),
+  surface text
+    CHECK (surface IN ('paved', 'gravel', 'dirt', 'grass', 'boardwalk', 'sand', 'mixed')),
+  accessibility text[] NOT NULL DEFAULT '{}'
+    CHECK (accessibility <@ ARRAY[
+      'wheelchair_accessible', 'step_free', 'stroller_friendly', 'accessible_restrooms', 'accessible_parking'
+    ]::text[]),
+  max_grade_percent numeric CHECK (max_grade_percent BETWEEN 0 AND 100),
+  activities text[] NOT NULL DEFAULT '{}',
+  source text NOT NULL DEFAULT 'manual',
+  source_id text NOT NULL DEFAULT gen_random_uuid()::text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (source, source_id)
+);
+
+ALTER TABLE nature_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view nature places"
+  ON nature_places FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS nature_places_location_idx ON nature_places USING gist(location);
+CREATE INDEX IF NOT EXISTS nature_places_amenities_idx ON nature_places USING gin(amenities);
+CREATE INDEX IF NOT EXISTS nature_places_accessibility_idx ON nature_places USING gin(accessibility);
+CREATE INDEX IF NOT EXISTS nature_places_activities_idx ON nature_places USING gin(activities);
+
+DROP TRIGGER IF EXISTS update_nature_places_updated_at ON nature_places;
+CREATE TRIGGER update_nature_places_updated_at
+  BEFORE UPDATE ON nature_places
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS nature_place_id uuid REFERENCES nature_places(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION search_nature_places(
+  p_lat double precision DEFAULT NULL,
+  p_lng double precision DEFAULT NULL,
+  p_radius_meters double precision DEFAULT 5000,
+  p_min_lat double precision DEFAULT NULL,
+  p_min_lng double precision DEFAULT NULL,
+  p_max_lat double precision DEFAULT NULL,
+  p_max_lng double precision DEFAULT NULL,
+  p_categories text[] DEFAULT NULL,
+  p_amenities text[] DEFAULT NULL,
+  p_surfaces text[] DEFAULT NULL,
+  p_accessibility text[] DEFAULT NULL,
+  p_activities text[] DEFAULT NULL,
+  p_max_grade_percent numeric DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  category text,
+  address text,
+  lat double precision,
+  lng double precision,
+  amenities text[],
+  surface text,
+  accessibility text[],
+  max_grade_percent numeric,
+  activities text[],
+  distance_meters double precision
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_center geography;
+  v_box geography;
+  v_activities text[];
+BEGIN
+  IF p_lat IS NOT NULL AND p_lng IS NOT NULL THEN
+    v_center := ST_SetSRID(ST_MakePoint(p_lng, p_lat), 4326)::geography;
+    p_radius_meters := LEAST(GREATEST(COALESCE(p_radius_meters, 5000), 1), 100000);
+  END IF;
+
+  IF p_min_lat IS NOT NULL AND p_min_lng IS NOT NULL AND p_max_lat IS NOT NULL AND p_max_lng IS NOT NULL THEN
+    v_box := ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography;
+  END IF;
+
+  IF v_center IS NULL AND v_box IS NULL THEN
+    RAISE EXCEPTION 'Provide p_lat and p_lng or a full bounding box';
+  END IF;
+
+  p_limit := LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+  SELECT array_agg(lower(activity)) INTO v_activities FROM unnest(p_activities) AS activity;
+
+  RETURN QUERY
+  SELECT
+    np.id,
+    np.name,
+    np.description,
+    np.category,
+    np.address,
+    ST_Y(np.location::geometry),
+    ST_X(np.location::geometry),
+    np.amenities,
+    np.surface,
+    np.accessibility,
+    np.max_grade_percent,
+    np.activities,
+    CASE WHEN v_center IS NULL THEN NULL ELSE ST_Distance(np.location, v_center) END
+  FROM nature_places np
+  WHERE (v_center IS NULL OR ST_DWithin(np.location, v_center, p_radius_meters))
+    AND (v_box IS NULL OR np.location && v_box)
+    AND (p_categories IS NULL OR cardinality(p_categories) = 0 OR np.category = ANY(p_categories))
+    AND (p_surfaces IS NULL OR cardinality(p_surfaces) = 0 OR np.surface = ANY(p_surfaces))
+    AND (p_amenities IS NULL OR np.amenities @> p_amenities)
+    AND (p_accessibility IS NULL OR np.accessibility @> p_accessibility)
+    AND (p_max_grade_percent IS NULL OR np.max_grade_percent <= p_max_grade_percent)
+    AND (
+      v_activities IS NULL
+      OR EXISTS (SELECT 1 FROM unnest(np.activities) AS activity WHERE lower(activity) = ANY(v_activities))
+    )
+  ORDER BY
+    CASE WHEN v_center IS NULL THEN NULL ELSE ST_Distance(np.location, v_center) END,
+    np.name
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION import_nature_places(p_source text, p_places jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF p_source IS NULL OR length(trim(p_source)) = 0 THEN
+    RAISE EXCEPTION 'p_source is required';
+  END IF;
+
+  IF jsonb_typeof(p_places) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'p_places must be a JSON array';
+  END IF;
+
+  INSERT INTO nature_places (
+    source, source_id, name, description, category, address, location,
+    amenities, surface, accessibility, max_grade_percent, activities
+  )
+  SELECT
+    p_source,
+    place->>'source_id',
+    place->>'name',
+    place->>'description',
+    place->>'category',
+    place->>'address',
+    (CASE ST_GeometryType(shape.geom)
+      WHEN 'ST_Point' THEN shape.geom
+      WHEN 'ST_LineString' THEN ST_StartPoint(shape.geom)
+      WHEN 'ST_MultiLineString' THEN ST_StartPoint(ST_GeometryN(shape.geom, 1))
+      ELSE ST_PointOnSurface(shape.geom)
+    END)::geography,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(place->'amenities')), '{}'),
+    place->>'surface',
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(place->'accessibility')), '{}'),
+    (place->>'max_grade_percent')::numeric,
+    COALESCE(ARRAY(SELECT jsonb_array_elements_text(place->'activities')), '{}')
+  FROM jsonb_array_elements(p_places) AS place
+  CROSS JOIN LATERAL (
+    SELECT ST_SetSRID(ST_GeomFromGeoJSON((place->'geometry')::text), 4326) AS geom
+  ) AS shape
+  ON CONFLICT (source, source_id) DO UPDATE SET
+    name = EXCLUDED.name,
+    description = EXCLUDED.description,
+    category = EXCLUDED.category,
+    address = EXCLUDED.address,
+    location = EXCLUDED.location,
+    amenities = EXCLUDED.amenities,
+    surface = EXCLUDED.surface,
+    accessibility = EXCLUDED.accessibility,
+    max_grade_percent = EXCLUDED.max_grade_percent,
+    activities = EXCLUDED.activities;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION import_nature_places(text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION import_nature_places(text, jsonb) TO service_role;
@@ -0,0 +1,80 @@
+/*
+  # Add Accessibility Needs
+
+  1. New Functions
+    - `is_valid_accessibility_needs(jsonb)` - True when the value is an object whose
+      known keys have the documented shape:
+      - `mobilityAid` - null, `wheelchair` or `walker`
+      - `maxContinuousWalkMeters` - null or a number between 50 and 20000
+      - `maxGradePercent` - null or a number between 1 and 20
+      - `needsRestStops`, `needsRestrooms` - booleans
+
+  2. Modified Tables
+    - `user_profiles`
+      - `accessibility_needs` (jsonb, default `{}`) - Structured needs the excursion
+        creator enforces, alongside the free-form `mobility_level`
+    - `excursions`
+      - `accessibility` (jsonb, nullable) - Summary of the route computed from its
+        waypoints: `step_free`, `wheelchair_accessible`, `surfaces`,
+        `max_grade_percent`, `longest_stretch_meters`, `rest_stops` and `restrooms`
+
+  ## Important Notes
+
+  - Mirrors `lib/accessibility-needs-api.ts`, which writes the column, and
+    `supabase/functions/_shared/accessibility.ts`, which reads it and checks routes
+  - Waypoints may now carry optional `surface`, `steps`, `rest_stop` and `restroom`
+    attributes describing the way to them; like `altitude`, they are validated by
+    the excursion creator rather than `is_valid_route_data`
+  - The excursion creator rejects routes that break the user's limits, so the
+    summary is only null for excursions without a route or created before this migration
+  - `user_profiles_accessibility_needs_shape` checks the column with
+    `is_valid_accessibility_needs`. Existing rows all get the default `{}`, which
+    is valid, so the constraint is validated as it is added
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_accessibility_needs(needs jsonb)
+RETURNS boolean AS $$
+BEGIN
+  IF jsonb_typeof(needs) <> 'object' THEN
+    RETURN false;
+  END IF;
+
+  IF needs ? 'mobilityAid' AND jsonb_typeof(needs->'mobilityAid') <> 'null'
+    AND COALESCE(needs->>'mobilityAid' NOT IN ('wheelchair', 'walker'), true) THEN
+    RETURN false;
+  END IF;
+
+  IF needs ? 'maxContinuousWalkMeters' AND jsonb_typeof(needs->'maxContinuousWalkMeters') <> 'null'
+    AND (jsonb_typeof(needs->'maxContinuousWalkMeters') <> 'number'
+      OR (needs->>'maxContinuousWalkMeters')::numeric NOT BETWEEN 50 AND 20000) THEN
+    RETURN false;
+  END IF;
+
+  IF needs ? 'maxGradePercent' AND jsonb_typeof(needs->'maxGradePercent') <> 'null'
+    AND (jsonb_typeof(needs->'maxGradePercent') <> 'number'
+      OR (needs->>'maxGradePercent')::numeric NOT BETWEEN 1 AND 20) THEN
+    RETURN false;
+  END IF;
+
+  IF needs ? 'needsRestStops' AND jsonb_typeof(needs->'needsRestStops') <> 'boolean' THEN
+    RETURN false;
+  END IF;
+
+  IF needs ? 'needsRestrooms' AND jsonb_typeof(needs->'needsRestrooms') <> 'boolean' THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS accessibility_needs jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_accessibility_needs_shape
+  CHECK (is_valid_accessibility_needs(accessibility_needs));
+
+ALTER TABLE excursions
+  ADD COLUMN IF NOT EXISTS accessibility jsonb
+  CHECK (accessibility IS NULL OR jsonb_typeof(accessibility) = 'object');
@@ -17,8 +17,11 @@ export interface Database {
           last_name: string | null
           health_goals: string[] | null
           mobility_level: string | null
+          accessibility_needs: Json
+          environmental_sensitivities: string[]
           preferred_activities: string[] | null
           location_preferences: Json | null
+          weekly_goal_minutes: number
           created_at: string
           updated_at: string
         }
@@ -29,8 +32,11 @@ export interface Database {
           last_name?: string | null
           health_goals?: string[] | null
           mobility_level?: string | null
+          accessibility_needs?: Json
+          environmental_sensitivities?: string[]
           preferred_activities?: string[] | null
           location_preferences?: Json | null
+          weekly_goal_minutes?: number
           created_at?: string
           updated_at?: string
         }
@@ -41,8 +47,11 @@ export interface Database {
           last_name?: string | null
           health_goals?: string[] | null
           mobility_level?: string | null
+          accessibility_needs?: Json
+          environmental_sensitivities?: string[]
           preferred_activities?: string[] | null
           location_preferences?: Json | null
+          weekly_goal_minutes?: number
           created_at?: string
           updated_at?: string
         }
@@ -53,6 +62,9 @@ export interface Database {
           user_id: string
           assistant_type: 'health_coach' | 'excursion_creator'
           thread_id: string
+          title: string | null
+          summary: string | null
+          summary_message_count: number
           created_at: string
           updated_at: string
         }
@@ -61,6 +73,9 @@ export interface Database {
           user_id: string
           assistant_type: 'health_coach' | 'excursion_creator'
           thread_id: string
+          title?: string | null
+          summary?: string | null
+          summary_message_count?: number
           created_at?: string
           updated_at?: string
         }
@@ -69,6 +84,9 @@ export interface Database {
           user_id?: string
           assistant_type?: 'health_coach' | 'excursion_creator'
           thread_id?: string
+          title?: string | null
+          summary?: string | null
+          summary_message_count?: number
           created_at?: string
           updated_at?: string
         }
@@ -79,6 +97,7 @@ export interface Database {
           conversation_id: string
           role: 'user' | 'assistant'
           content: string
+          excursion_id: string | null
           created_at: string
         }
         Insert: {
@@ -86,6 +105,7 @@ export interface Database {
           conversation_id: string
           role: 'user' | 'assistant'
           content: string
+          excursion_id?: string | null
           created_at?: string
         }
         Update: {
@@ -93,12 +113,21 @@ export interface Database {
           conversation_id?: string
           role?: 'user' | 'assistant'
           content?: string
+          excursion_id?: string | null
           created_at?: string
         }
       }
     }
     Views: {}
-    Functions: {}
+    Functions: {
+      get_nature_time_progress: {
+        Args: {
+          p_weeks?: number
+          p_time_zone?: string
+        }
+        Returns: Json
+      }
+    }
     Enums: {}
   }
 }
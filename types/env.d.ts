@@ -3,6 +3,10 @@ declare global {
     interface ProcessEnv {
       EXPO_PUBLIC_SUPABASE_URL: string;
       EXPO_PUBLIC_SUPABASE_ANON_KEY: string;
+      /** Google Maps JavaScript API key; only the web map needs it. */
+      EXPO_PUBLIC_GOOGLE_MAPS_API_KEY?: string;
+      /** When 'true', excursion tracking replays the planned route instead of reading GPS. */
+      EXPO_PUBLIC_SIMULATE_LOCATION?: string;
     }
   }
 }